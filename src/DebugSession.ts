@@ -8,8 +8,47 @@ import {
   NetworkState,
   FetchInterceptor,
   ConsoleState,
+  SourceMapRegistry,
+  EventSubscriptions,
+  LogpointRegistry,
+  BreakpointSets,
+  IgnoreList,
+  ExecutionContextRegistry,
+  ObjectHandleRegistry,
+  breakpointDefinitionKey,
+  parseHitCondition,
+  formatHitCondition,
+  type PauseState,
+  type ManagedBreakpoint,
+  type ExceptionFilter,
+  type CapturedException,
+  type ExecutionContextInfo,
+  type Logpoint,
+  type BreakpointDefinition,
+  type BreakpointSet,
+  type PausedRequest,
+  type InterceptRule,
+  type ResponseEdits,
 } from './state/index.js';
 import { withTimeout, PausedError } from './utils/timeout.js';
+import {
+  SourceMap,
+  resolveSourceMapUrl,
+  decodeDataUrl,
+  type OriginalPosition,
+  type GeneratedPosition,
+} from './utils/source-map.js';
+import {
+  LOGPOINT_BINDING,
+  parseLogTemplate,
+  buildLogpointCondition,
+  type LogpointPayload,
+} from './utils/logpoint.js';
+import { findFunctionDefinitions, type FunctionDefinition } from './utils/function-locator.js';
+import { searchSource, type SearchOptions, type SourceMatch } from './utils/script-search.js';
+import { describePauseData, formatAsyncStackTrace, formatRemoteValue } from './utils/pause-context.js';
+import { serializeRemoteObject, type SerializeOptions, type SerializedNode } from './utils/object-serializer.js';
+import { parseJsonLiteral, argumentPreview, type ValueInput, type CallArgument } from './utils/value-input.js';
 import type {
   TargetInfo,
   CallFrame,
@@ -17,6 +56,11 @@ import type {
   ScriptInfo,
   RemoteObject,
   PropertyDescriptor,
+  InternalPropertyDescriptor,
+  ExceptionDetails,
+  ExecutionContextDescription,
+  StackTrace,
+  FetchAuthRequired,
   DOMNode,
   BoxModel,
   EventListener,
@@ -27,6 +71,12 @@ import type {
 
 const debug = createDebug('cdp:session');
 
+export interface FetchPattern {
+  urlPattern?: string;
+  resourceType?: string;
+  requestStage?: string;
+}
+
 export interface SessionOptions {
   timeout?: number;
 }
@@ -48,6 +98,22 @@ export interface AttachedSession {
   title?: string;
 }
 
+export type StepKind = 'over' | 'into' | 'out';
+
+export type StepUntilStopReason = 'condition' | 'urlChanged' | 'breakpoint' | 'exception' | 'resumed' | 'maxSteps';
+
+const STEP_METHODS: Record<StepKind, string> = {
+  over: 'Debugger.stepOver',
+  into: 'Debugger.stepInto',
+  out: 'Debugger.stepOut',
+};
+
+// How long stepping waits for the next pause before reporting the target as
+// running.
+const DEFAULT_STEP_TIMEOUT = 5000;
+
+const MAX_EXCERPT_LINE = 200;
+
 export class DebugSession extends EventEmitter {
   private client: CDPClient;
   private launchResult: LaunchResult | null = null;
@@ -63,6 +129,30 @@ export class DebugSession extends EventEmitter {
   // Whether the user has called enableNetwork(); used to fan-out to new sessions.
   private networkEnabledGlobal = false;
 
+  // Fetch.enable patterns while interception is on (null when off); used to
+  // fan-out to new sessions.
+  private fetchPatterns: FetchPattern[] | null = null;
+  private fetchHandleAuth = false;
+
+  // Scripts with source-map ignore ranges set, keyed `${targetId}:${scriptId}`,
+  // so they can be cleared when source-map ignoring is turned off.
+  private blackboxedRangeScripts = new Map<string, { scriptId: string; targetId?: string }>();
+
+  // Targets ('' for unnamed) with a step in flight, so the pause that ends the
+  // step is not auto-resumed on a muted breakpoint. pendingSteps holds the
+  // ones whose step has not resumed the target yet: any other resume ends
+  // the step.
+  private steppingTargets = new Set<string>();
+  private pendingSteps = new Set<string>();
+
+  // Targets auto-resumed from a pause nobody saw (hit condition not met,
+  // filtered exception); the Debugger.resumed that follows is swallowed.
+  private autoResumingTargets = new Set<string>();
+
+  // Whether the logpoint Runtime binding was added; used to fan-out to new
+  // sessions.
+  private logpointBindingInstalled = false;
+
   // Whether Runtime (console + exceptions) capture is on; used to fan-out to
   // new sessions. Auto-enabled on connect so console works without a tool call.
   private runtimeEnabledGlobal = false;
@@ -73,6 +163,16 @@ export class DebugSession extends EventEmitter {
   readonly networkState: NetworkState;
   readonly fetchInterceptor: FetchInterceptor;
   readonly consoleState: ConsoleState;
+  readonly sourceMaps: SourceMapRegistry;
+  readonly logpoints: LogpointRegistry;
+  readonly executionContexts: ExecutionContextRegistry;
+  readonly objectHandles: ObjectHandleRegistry;
+  // Which events are forwarded to the MCP client. Survives reconnects.
+  readonly eventSubscriptions: EventSubscriptions;
+  // Named breakpoint definitions. Survive reconnects and target switches.
+  readonly breakpointSets: BreakpointSets;
+  // Ignored (blackboxed) scripts. Survives reconnects and target switches.
+  readonly ignoreList: IgnoreList;
 
   // Log entries
   private logEntries: LogEntry[] = [];
@@ -100,6 +200,13 @@ export class DebugSession extends EventEmitter {
     this.networkState = new NetworkState();
     this.fetchInterceptor = new FetchInterceptor();
     this.consoleState = new ConsoleState();
+    this.sourceMaps = new SourceMapRegistry();
+    this.logpoints = new LogpointRegistry();
+    this.executionContexts = new ExecutionContextRegistry();
+    this.objectHandles = new ObjectHandleRegistry();
+    this.eventSubscriptions = new EventSubscriptions();
+    this.breakpointSets = new BreakpointSets();
+    this.ignoreList = new IgnoreList();
 
     this.setupEventHandlers();
   }
@@ -169,10 +276,16 @@ export class DebugSession extends EventEmitter {
   }
 
   private setupEventHandlers(): void {
-    // Debugger events
-    this.client.on('Debugger.scriptParsed', (params: ScriptInfo) => {
-      this.scriptRegistry.addScript(params);
-      this.emit('scriptParsed', params);
+    // Debugger events. Tag each with the originating targetId: the Debugger
+    // domain is fanned out to workers / service workers, and each target
+    // pauses and resumes independently.
+    this.client.on('Debugger.scriptParsed', (params: ScriptInfo, sessionId?: string | null) => {
+      const script: ScriptInfo = { ...params, targetId: this.targetIdForSession(sessionId ?? null) ?? undefined };
+      this.scriptRegistry.addScript(script);
+      if (script.sourceMapURL && this.ignoreList.usesSourceMaps()) {
+        void this.applySourceMapIgnoreRanges(script.scriptId, script.targetId);
+      }
+      this.emit('scriptParsed', script);
     });
 
     this.client.on('Debugger.paused', (params: {
@@ -181,25 +294,81 @@ export class DebugSession extends EventEmitter {
       data?: Record<string, unknown>;
       hitBreakpoints?: string[];
       asyncStackTrace?: unknown;
-    }) => {
+    }, sessionId?: string | null) => {
+      const targetId = this.targetIdForSession(sessionId ?? null) ?? undefined;
+      const stepping = this.steppingTargets.delete(targetId ?? '');
+      this.pendingSteps.delete(targetId ?? '');
+      // Breakpoint pauses whose hit condition is not met are resumed before
+      // anyone sees them. Pauses ending a step stand.
+      const shouldPause = this.debugState.recordBreakpointHits(params.hitBreakpoints ?? [], targetId);
+      if (!shouldPause && !stepping) {
+        this.autoResume(targetId, sessionId ?? undefined);
+        return;
+      }
+      // Exception pauses are recorded, then resumed unless a filter matches.
+      let captured: CapturedException | undefined;
+      if ((params.reason === 'exception' || params.reason === 'promiseRejection') && !stepping) {
+        const exception = describeExceptionPause(params.reason, params.data);
+        const top = params.callFrames[0];
+        const url = top ? top.url || this.scriptRegistry.getScript(top.location.scriptId, targetId)?.url : undefined;
+        const candidate = { ...exception, url };
+        const stands = this.debugState.shouldPauseOnException(candidate);
+        captured = this.debugState.recordException({
+          ...candidate,
+          targetId,
+          reason: params.reason,
+          paused: stands,
+          frames: params.callFrames.slice(0, 10).map((f) => ({
+            functionName: f.functionName,
+            url: f.url,
+            lineNumber: f.location.lineNumber,
+            columnNumber: f.location.columnNumber ?? 0,
+          })),
+        });
+        if (!stands) {
+          // The frame's objects are only valid while paused: snapshot first.
+          const resume = () => this.autoResume(targetId, sessionId ?? undefined);
+          if (top) {
+            void this.captureExceptionVariables(captured, top, targetId).then(resume);
+          } else {
+            resume();
+          }
+          return;
+        }
+      }
       this.debugState.setPaused(
         params.reason,
         params.callFrames,
         params.data,
         params.asyncStackTrace,
-        params.hitBreakpoints
+        params.hitBreakpoints,
+        targetId
       );
-      this.emit('paused', params);
+      if (captured && params.callFrames[0]) {
+        void this.captureExceptionVariables(captured, params.callFrames[0], targetId);
+      }
+      this.emit('paused', { ...params, targetId });
     });
 
-    this.client.on('Debugger.resumed', () => {
-      this.debugState.setResumed();
-      this.emit('resumed');
+    this.client.on('Debugger.resumed', (_params: unknown, sessionId?: string | null) => {
+      const targetId = this.targetIdForSession(sessionId ?? null) ?? undefined;
+      const key = targetId ?? '';
+      if (this.autoResumingTargets.delete(key)) return;
+      if (!this.pendingSteps.delete(key)) this.steppingTargets.delete(key);
+      this.debugState.setResumed(targetId);
+      this.releasePauseObjectGroups(targetId, sessionId ?? undefined);
+      this.emit('resumed', { targetId });
     });
 
-    this.client.on('Debugger.breakpointResolved', (params: { breakpointId: string; location: Location }) => {
-      this.debugState.updateBreakpointLocations(params.breakpointId, [params.location]);
-      this.emit('breakpointResolved', params);
+    this.client.on('Debugger.breakpointResolved', (params: { breakpointId: string; location: Location }, sessionId?: string | null) => {
+      const targetId = this.targetIdForSession(sessionId ?? null);
+      const bp = targetId
+        ? this.debugState.findBreakpointForTarget(targetId, params.breakpointId)
+        : this.debugState.getBreakpoint(params.breakpointId);
+      if (bp) {
+        this.debugState.addBreakpointLocation(bp.id, params.location);
+      }
+      this.emit('breakpointResolved', { ...params, targetId: targetId ?? undefined });
     });
 
     // Runtime events
@@ -209,19 +378,61 @@ export class DebugSession extends EventEmitter {
       executionContextId: number;
       timestamp: number;
       stackTrace?: unknown;
-    }) => {
-      const msg = this.consoleState.onConsoleAPICalled(params as Parameters<typeof this.consoleState.onConsoleAPICalled>[0]);
+    }, sessionId?: string | null) => {
+      const msg = this.consoleState.onConsoleAPICalled({
+        ...(params as Parameters<typeof this.consoleState.onConsoleAPICalled>[0]),
+        targetId: this.targetIdForSession(sessionId ?? null) ?? undefined,
+      });
       this.emit('consoleMessage', msg);
     });
 
+    this.client.on('Runtime.executionContextCreated', (params: { context: ExecutionContextDescription }, sessionId?: string | null) => {
+      this.executionContexts.add(params.context, this.targetIdForSession(sessionId ?? null) ?? undefined);
+    });
+
+    this.client.on('Runtime.executionContextDestroyed', (params: { executionContextId: number }, sessionId?: string | null) => {
+      this.executionContexts.remove(params.executionContextId, this.targetIdForSession(sessionId ?? null) ?? undefined);
+    });
+
+    this.client.on('Runtime.executionContextsCleared', (_params: unknown, sessionId?: string | null) => {
+      this.executionContexts.removeTarget(this.targetIdForSession(sessionId ?? null) ?? undefined);
+    });
+
+    this.client.on('Runtime.bindingCalled', (params: { name: string; payload: string }, sessionId?: string | null) => {
+      if (params.name !== LOGPOINT_BINDING) return;
+      let payload: LogpointPayload;
+      try {
+        payload = JSON.parse(params.payload) as LogpointPayload;
+      } catch {
+        debug('Ignoring malformed logpoint payload');
+        return;
+      }
+      const targetId = this.targetIdForSession(sessionId ?? null) ?? undefined;
+      const hit = this.logpoints.recordHit(payload.token, payload.values ?? [], payload.stack, targetId);
+      if (hit) {
+        this.emit('logpointHit', { breakpointId: this.logpoints.findByToken(payload.token)?.breakpointId, ...hit });
+      }
+    });
+
     this.client.on('Runtime.exceptionThrown', (params: {
       timestamp: number;
       exceptionDetails: unknown;
-    }) => {
-      const exc = this.consoleState.onExceptionThrown(params as Parameters<typeof this.consoleState.onExceptionThrown>[0]);
+    }, sessionId?: string | null) => {
+      const exc = this.consoleState.onExceptionThrown({
+        ...(params as Parameters<typeof this.consoleState.onExceptionThrown>[0]),
+        targetId: this.targetIdForSession(sessionId ?? null) ?? undefined,
+      });
       this.emit('exceptionThrown', exc);
     });
 
+    this.client.on('Runtime.exceptionRevoked', (params: { reason: string; exceptionId: number }, sessionId?: string | null) => {
+      const exc = this.consoleState.onExceptionRevoked({
+        ...params,
+        targetId: this.targetIdForSession(sessionId ?? null) ?? undefined,
+      });
+      if (exc) this.emit('exceptionRevoked', exc);
+    });
+
     // Network events. Tag each event with the originating targetId so
     // multi-session (page + workers) traffic stays distinguishable.
     this.client.on('Network.requestWillBeSent', (params: unknown, sessionId?: string | null) => {
@@ -358,9 +569,47 @@ export class DebugSession extends EventEmitter {
     });
 
     // Fetch events
-    this.client.on('Fetch.requestPaused', (params: unknown) => {
-      const pausedReq = this.fetchInterceptor.onRequestPaused(params as Parameters<typeof this.fetchInterceptor.onRequestPaused>[0]);
-      this.emit('requestPaused', pausedReq);
+    // Requests matching a modify/mock/fail rule are handled right away; only
+    // pause rules and unmatched requests are left for the agent.
+    this.client.on('Fetch.requestPaused', (params: unknown, sessionId?: string | null) => {
+      const targetId = this.targetIdForSession(sessionId ?? null) ?? undefined;
+      const pausedReq = this.fetchInterceptor.onRequestPaused(
+        params as Parameters<typeof this.fetchInterceptor.onRequestPaused>[0],
+        targetId
+      );
+      const rule = pausedReq.matchedRule;
+      if (!rule || rule.action === 'pause') {
+        this.emit('requestPaused', pausedReq);
+        return;
+      }
+      this.applyInterceptRule(pausedReq, rule).then(() => {
+        this.emit('requestIntercepted', pausedReq);
+      }).catch((err) => {
+        // Leave it paused so it can still be handled manually.
+        debug('applyInterceptRule(%s, %s) failed: %s', rule.id, pausedReq.url, err instanceof Error ? err.message : String(err));
+        this.emit('requestPaused', pausedReq);
+      });
+    });
+
+    // Auth challenges (only with handleAuthRequests). Answered from stored
+    // credentials when one matches; otherwise left pending for the agent.
+    this.client.on('Fetch.authRequired', (params: unknown, sessionId?: string | null) => {
+      const targetId = this.targetIdForSession(sessionId ?? null) ?? undefined;
+      const challenge = this.fetchInterceptor.onAuthRequired(params as FetchAuthRequired, targetId);
+      const credential = this.fetchInterceptor.takeCredentialFor(challenge);
+      if (!credential) {
+        this.emit('authRequired', challenge);
+        return;
+      }
+      this.continueWithAuth(
+        challenge.requestId,
+        'ProvideCredentials',
+        { username: credential.username, password: credential.password },
+        targetId
+      ).catch((err) => {
+        debug('continueWithAuth(%s) failed: %s', challenge.url, err instanceof Error ? err.message : String(err));
+        this.emit('authRequired', challenge);
+      });
     });
 
     // Log events. Tag each entry with the originating targetId so multi-session
@@ -535,6 +784,10 @@ export class DebugSession extends EventEmitter {
   private reset(): void {
     this.debugState.reset();
     this.scriptRegistry.clear();
+    this.sourceMaps.clear();
+    this.logpoints.clear();
+    this.executionContexts.clear();
+    this.objectHandles.clear();
     this.networkState.clear();
     this.fetchInterceptor.reset();
     this.consoleState.clear();
@@ -546,6 +799,13 @@ export class DebugSession extends EventEmitter {
     this.sessions.clear();
     this.sessionsByCdpId.clear();
     this.networkEnabledGlobal = false;
+    this.fetchPatterns = null;
+    this.fetchHandleAuth = false;
+    this.logpointBindingInstalled = false;
+    this.steppingTargets.clear();
+    this.pendingSteps.clear();
+    this.autoResumingTargets.clear();
+    this.blackboxedRangeScripts.clear();
     this.runtimeEnabledGlobal = false;
     this.logEnabledGlobal = false;
     this.httpEndpoint = null;
@@ -577,9 +837,11 @@ export class DebugSession extends EventEmitter {
   private async setupAutoAttachOnRoot(): Promise<void> {
     // setAutoAttach covers related targets (iframes + dedicated/shared workers).
     try {
+      // Children start suspended so the debugger and breakpoints can be set up
+      // before their first statement; onAttachedToTarget lets them run.
       await this.client.send('Target.setAutoAttach', {
         autoAttach: true,
-        waitForDebuggerOnStart: false,
+        waitForDebuggerOnStart: true,
         flatten: true,
       });
     } catch (e) {
@@ -617,7 +879,7 @@ export class DebugSession extends EventEmitter {
     try {
       await this.client.send(
         'Target.setAutoAttach',
-        { autoAttach: true, waitForDebuggerOnStart: false, flatten: true },
+        { autoAttach: true, waitForDebuggerOnStart: true, flatten: true },
         params.sessionId
       );
     } catch (e) {
@@ -633,6 +895,20 @@ export class DebugSession extends EventEmitter {
       }
     }
 
+    // Honor request interception for new sessions, so worker and service
+    // worker requests are intercepted with the same patterns.
+    if (this.fetchPatterns) {
+      try {
+        await this.client.send(
+          'Fetch.enable',
+          { patterns: this.fetchPatterns, handleAuthRequests: this.fetchHandleAuth },
+          params.sessionId
+        );
+      } catch (e) {
+        debug('Fetch.enable on child %s failed: %s', session.targetId, e instanceof Error ? e.message : String(e));
+      }
+    }
+
     // Honor global Runtime capture (console + exceptions) for new sessions, so
     // worker/SW console flows in without re-enabling per target.
     if (this.runtimeEnabledGlobal) {
@@ -652,6 +928,22 @@ export class DebugSession extends EventEmitter {
       }
     }
 
+    // Logpoint conditions report through a binding; it must exist before the
+    // breakpoints are replayed below.
+    if (this.logpointBindingInstalled) {
+      try {
+        await this.client.send('Runtime.addBinding', { name: LOGPOINT_BINDING }, params.sessionId);
+      } catch (e) {
+        debug('Runtime.addBinding on child %s failed: %s', session.targetId, e instanceof Error ? e.message : String(e));
+      }
+    }
+
+    // Honor the debugger for new sessions so code in workers and service
+    // workers can be broken into with the breakpoints already defined.
+    if (this.debugState.isEnabled()) {
+      await this.enableDebuggerOnSession(session);
+    }
+
     // If the child was suspended waiting for debugger, let it run.
     if (params.waitingForDebugger) {
       try {
@@ -667,6 +959,12 @@ export class DebugSession extends EventEmitter {
     if (!session) return;
     this.sessions.delete(session.targetId);
     this.sessionsByCdpId.delete(sessionId);
+    this.debugState.setResumed(session.targetId);
+    this.scriptRegistry.removeTarget(session.targetId);
+    this.sourceMaps.removeTarget(session.targetId);
+    this.fetchInterceptor.removeTarget(session.targetId);
+    this.executionContexts.removeTarget(session.targetId);
+    this.objectHandles.removeTarget(session.targetId);
     this.client.rejectPendingForSession(sessionId, new Error(`Session detached: ${session.targetId}`));
     debug('detached from target %s (sid=%s)', session.targetId, sessionId);
     this.emit('sessionDetached', session);
@@ -685,6 +983,54 @@ export class DebugSession extends EventEmitter {
     return s.sessionId;
   }
 
+  /**
+   * Resolve an optional targetId to the sessionId to send on. Undefined means
+   * the root connection. Throws if the target is not attached.
+   */
+  private sendSessionFor(targetId?: string): string | undefined {
+    if (!targetId) return undefined;
+    const sid = this.sessionIdForTarget(targetId);
+    if (sid === undefined) {
+      throw new Error(`Not attached to target ${targetId}`);
+    }
+    return sid ?? undefined;
+  }
+
+  /** Like sendSessionFor, but defaults to the most recently paused target. */
+  private pausedSessionFor(targetId?: string): string | undefined {
+    return this.sendSessionFor(targetId ?? this.debugState.getPauseState().targetId);
+  }
+
+  /**
+   * Send a command to every attached session. Failures on child sessions are
+   * logged and skipped; a failure on the root session is rethrown.
+   */
+  private async sendToAllSessions<T = unknown>(
+    method: string,
+    params?: Record<string, unknown>
+  ): Promise<Array<{ targetId?: string; result: T }>> {
+    const sessions = Array.from(this.sessions.values());
+    if (sessions.length === 0) {
+      // Root not yet registered (e.g. raw connect path). Send unsessioned.
+      return [{ result: await this.client.send<T>(method, params) }];
+    }
+    const results = await Promise.allSettled(
+      sessions.map((s) => this.client.send<T>(method, params, s.sessionId ?? undefined))
+    );
+    const fulfilled: Array<{ targetId?: string; result: T }> = [];
+    for (let i = 0; i < results.length; i++) {
+      const r = results[i];
+      if (r.status === 'fulfilled') {
+        fulfilled.push({ targetId: sessions[i].targetId, result: r.value });
+      } else if (sessions[i].sessionId === null) {
+        throw r.reason;
+      } else {
+        debug('%s failed on target %s: %s', method, sessions[i].targetId, r.reason instanceof Error ? r.reason.message : String(r.reason));
+      }
+    }
+    return fulfilled;
+  }
+
   /** Snapshot of every target we are currently attached to. */
   getAttachedSessions(): AttachedSession[] {
     return Array.from(this.sessions.values());
@@ -768,9 +1114,15 @@ export class DebugSession extends EventEmitter {
     }
 
     // Disconnect from current target (but don't reset httpEndpoint)
+    const debuggerWasEnabled = this.debugState.isEnabled();
     this.client.disconnect();
     this.debugState.reset();
+    this.debugState.setEnabled(false);
     this.scriptRegistry.clear();
+    this.sourceMaps.clear();
+    this.logpoints.clear();
+    this.executionContexts.clear();
+    this.objectHandles.clear();
     this.networkState.clear();
     this.fetchInterceptor.reset();
     this.consoleState.clear();
@@ -781,6 +1133,13 @@ export class DebugSession extends EventEmitter {
     this.sessions.clear();
     this.sessionsByCdpId.clear();
     this.networkEnabledGlobal = false;
+    this.fetchPatterns = null;
+    this.fetchHandleAuth = false;
+    this.logpointBindingInstalled = false;
+    this.steppingTargets.clear();
+    this.pendingSteps.clear();
+    this.autoResumingTargets.clear();
+    this.blackboxedRangeScripts.clear();
     this.runtimeEnabledGlobal = false;
     this.logEnabledGlobal = false;
 
@@ -795,6 +1154,10 @@ export class DebugSession extends EventEmitter {
     });
     await this.setupAutoAttachOnRoot();
     await this.autoEnableRuntime();
+    // Carry the debugger over; this also re-applies auto-apply breakpoint sets.
+    if (debuggerWasEnabled) {
+      await this.enableDebugger();
+    }
 
     return {
       targetId: target.id,
@@ -814,17 +1177,73 @@ export class DebugSession extends EventEmitter {
     return this.httpEndpoint;
   }
 
-  // Debugger domain
+  // Debugger domain. Debugger.enable, URL breakpoints and exception / async
+  // stack settings are fanned out to every attached session and replayed on
+  // sessions that attach later. Pause, resume and stepping address a single
+  // target; by default the page for pause and the paused target otherwise.
   async enableDebugger(): Promise<void> {
-    await this.client.send('Debugger.enable', { maxScriptsCacheSize: 100000000 });
+    await this.sendToAllSessions('Debugger.enable', { maxScriptsCacheSize: 100000000 });
     this.debugState.setEnabled(true);
+    await this.syncIgnorePatterns();
+    if (this.ignoreList.usesSourceMaps()) {
+      await this.applySourceMapIgnoreList();
+    }
+    for (const set of this.breakpointSets.getAutoApplied()) {
+      const result = await this.applyBreakpointSet(set);
+      for (const err of result.errors) {
+        debug('applying breakpoint set %s: %s', set.name, err);
+      }
+    }
   }
 
   async disableDebugger(): Promise<void> {
-    await this.client.send('Debugger.disable');
+    await this.sendToAllSessions('Debugger.disable');
     this.debugState.setEnabled(false);
   }
 
+  // Bring a newly attached session up to the current debugger configuration.
+  private async enableDebuggerOnSession(session: AttachedSession): Promise<void> {
+    const sid = session.sessionId ?? undefined;
+    try {
+      await this.client.send('Debugger.enable', { maxScriptsCacheSize: 100000000 }, sid);
+      const pauseOnExceptions = this.debugState.getPauseOnExceptions();
+      if (pauseOnExceptions !== 'none') {
+        await this.client.send('Debugger.setPauseOnExceptions', { state: pauseOnExceptions }, sid);
+      }
+      const asyncDepth = this.debugState.getAsyncStackTraceDepth();
+      if (asyncDepth > 0) {
+        await this.client.send('Debugger.setAsyncCallStackDepth', { maxDepth: asyncDepth }, sid);
+      }
+      const ignorePatterns = this.ignoreList.getCdpPatterns();
+      if (ignorePatterns.length > 0) {
+        await this.client.send('Debugger.setBlackboxPatterns', { patterns: ignorePatterns }, sid);
+      }
+      if (!this.debugState.areBreakpointsActive()) {
+        await this.client.send('Debugger.setBreakpointsActive', { active: false }, sid);
+      }
+    } catch (e) {
+      debug('Debugger.enable on child %s failed: %s', session.targetId, e instanceof Error ? e.message : String(e));
+      return;
+    }
+
+    for (const bp of this.debugState.getAllBreakpoints()) {
+      if ((!bp.url && !bp.urlRegex) || !bp.enabled) continue;
+      try {
+        const result = await this.client.send<{ breakpointId: string; locations: Location[] }>(
+          'Debugger.setBreakpointByUrl',
+          buildBreakpointByUrlParams(bp.lineNumber, bp.url, bp.urlRegex, bp.columnNumber, bp.condition),
+          sid
+        );
+        bp.targetBreakpointIds = { ...bp.targetBreakpointIds, [session.targetId]: result.breakpointId };
+        for (const loc of result.locations) {
+          this.debugState.addBreakpointLocation(bp.id, loc);
+        }
+      } catch (e) {
+        debug('replaying breakpoint %s on %s failed: %s', bp.id, session.targetId, e instanceof Error ? e.message : String(e));
+      }
+    }
+  }
+
   async setBreakpointByUrl(
     lineNumber: number,
     url?: string,
@@ -832,41 +1251,51 @@ export class DebugSession extends EventEmitter {
     columnNumber?: number,
     condition?: string
   ): Promise<{ breakpointId: string; locations: Location[] }> {
-    const params: Record<string, unknown> = { lineNumber };
-    if (url) params.url = url;
-    if (urlRegex) params.urlRegex = urlRegex;
-    if (columnNumber !== undefined) params.columnNumber = columnNumber;
-    if (condition) params.condition = condition;
-
-    const result = await this.client.send<{ breakpointId: string; locations: Location[] }>(
+    const results = await this.sendToAllSessions<{ breakpointId: string; locations: Location[] }>(
       'Debugger.setBreakpointByUrl',
-      params
+      buildBreakpointByUrlParams(lineNumber, url, urlRegex, columnNumber, condition)
     );
+    if (results.length === 0) {
+      throw new Error('No attached session accepted the breakpoint');
+    }
+
+    const breakpointId = results[0].result.breakpointId;
+    const locations = results.flatMap((r) => r.result.locations);
+    const targetBreakpointIds: Record<string, string> = {};
+    for (const r of results) {
+      if (r.targetId) targetBreakpointIds[r.targetId] = r.result.breakpointId;
+    }
 
     this.debugState.addBreakpoint({
-      id: result.breakpointId,
+      id: breakpointId,
       url,
       urlRegex,
       lineNumber,
       columnNumber,
       condition,
-      locations: result.locations,
+      locations,
       enabled: true,
+      targetBreakpointIds,
     });
 
-    return result;
+    return { breakpointId, locations };
   }
 
+  // scriptIds are per-target, so this goes to the session that parsed the
+  // script (targetId, or looked up in the ScriptRegistry; root otherwise).
   async setBreakpoint(
     location: Location,
-    condition?: string
+    condition?: string,
+    targetId?: string
   ): Promise<{ breakpointId: string; actualLocation: Location }> {
+    const owner = targetId ?? this.scriptRegistry.getScript(location.scriptId)?.targetId;
     const params: Record<string, unknown> = { location };
     if (condition) params.condition = condition;
 
     const result = await this.client.send<{ breakpointId: string; actualLocation: Location }>(
       'Debugger.setBreakpoint',
-      params
+      params,
+      this.sendSessionFor(owner)
     );
 
     this.debugState.addBreakpoint({
@@ -877,60 +1306,1032 @@ export class DebugSession extends EventEmitter {
       condition,
       locations: [result.actualLocation],
       enabled: true,
+      targetBreakpointIds: owner ? { [owner]: result.breakpointId } : undefined,
     });
 
     return result;
   }
 
   async removeBreakpoint(breakpointId: string): Promise<void> {
-    await this.client.send('Debugger.removeBreakpoint', { breakpointId });
+    const bp = this.debugState.getBreakpoint(breakpointId);
+    // Disabled breakpoints are already gone from CDP.
+    if (bp?.enabled !== false) {
+      await this.removeCdpBreakpoints(breakpointId, bp?.targetBreakpointIds);
+    }
     this.debugState.removeBreakpoint(breakpointId);
+    this.logpoints.remove(breakpointId);
   }
 
-  async pause(): Promise<void> {
-    await this.client.send('Debugger.pause');
+  private async removeCdpBreakpoints(breakpointId: string, targetBreakpointIds?: Record<string, string>): Promise<void> {
+    const targetIds = Object.entries(targetBreakpointIds ?? {});
+    if (targetIds.length === 0) {
+      await this.client.send('Debugger.removeBreakpoint', { breakpointId });
+      return;
+    }
+    await Promise.allSettled(
+      targetIds.map(([targetId, id]) => {
+        const sid = this.sessionIdForTarget(targetId);
+        if (sid === undefined) return Promise.resolve();
+        return this.client.send('Debugger.removeBreakpoint', { breakpointId: id }, sid ?? undefined);
+      })
+    );
   }
 
-  async resume(): Promise<void> {
-    await this.client.send('Debugger.resume');
+  // Set a disabled breakpoint in CDP again, the way it was first set. The
+  // managed ID stays; the CDP IDs and resolved locations are replaced.
+  private async restoreCdpBreakpoint(bp: ManagedBreakpoint): Promise<void> {
+    if (bp.url || bp.urlRegex) {
+      const results = await this.sendToAllSessions<{ breakpointId: string; locations: Location[] }>(
+        'Debugger.setBreakpointByUrl',
+        buildBreakpointByUrlParams(bp.lineNumber, bp.url, bp.urlRegex, bp.columnNumber, bp.condition)
+      );
+      const targetBreakpointIds: Record<string, string> = {};
+      for (const r of results) {
+        if (r.targetId) targetBreakpointIds[r.targetId] = r.result.breakpointId;
+      }
+      bp.targetBreakpointIds = targetBreakpointIds;
+      this.debugState.updateBreakpointLocations(bp.id, results.flatMap((r) => r.result.locations));
+      return;
+    }
+
+    const owner = Object.keys(bp.targetBreakpointIds ?? {})[0]
+      ?? (bp.scriptId ? this.scriptRegistry.getScript(bp.scriptId)?.targetId : undefined)
+      ?? this.targetId
+      ?? undefined;
+    const sid = this.sendSessionFor(owner);
+    let cdpId: string;
+    let locations: Location[];
+    if (bp.functionExpression) {
+      const placed = await this.placeFunctionBreakpoint(bp.functionExpression, bp.condition, sid);
+      cdpId = placed.breakpointId;
+      locations = placed.location ? [placed.location] : [];
+    } else {
+      if (!bp.scriptId) {
+        throw new Error(`Breakpoint ${bp.id} has no location to restore`);
+      }
+      const params: Record<string, unknown> = {
+        location: { scriptId: bp.scriptId, lineNumber: bp.lineNumber, columnNumber: bp.columnNumber },
+      };
+      if (bp.condition) params.condition = bp.condition;
+      const result = await this.client.send<{ breakpointId: string; actualLocation: Location }>('Debugger.setBreakpoint', params, sid);
+      cdpId = result.breakpointId;
+      locations = [result.actualLocation];
+    }
+    bp.targetBreakpointIds = owner ? { [owner]: cdpId } : undefined;
+    this.debugState.updateBreakpointLocations(bp.id, locations);
+  }
+
+  /**
+   * Break whenever the function `expression` evaluates to is called, wherever
+   * it is defined (Debugger.setBreakpointOnFunctionCall). The expression is
+   * evaluated in the global scope of the target.
+   */
+  async setFunctionBreakpoint(
+    expression: string,
+    condition?: string,
+    targetId?: string
+  ): Promise<{ breakpointId: string; location?: Location; description?: string }> {
+    const { breakpointId, location, description } = await this.placeFunctionBreakpoint(
+      expression,
+      condition,
+      this.sendSessionFor(targetId)
+    );
+    const owner = targetId ?? this.targetId ?? undefined;
+    this.debugState.addBreakpoint({
+      id: breakpointId,
+      scriptId: location?.scriptId,
+      lineNumber: location?.lineNumber ?? 0,
+      columnNumber: location?.columnNumber,
+      condition,
+      locations: location ? [location] : [],
+      enabled: true,
+      functionExpression: expression,
+      targetBreakpointIds: owner ? { [owner]: breakpointId } : undefined,
+    });
+    return { breakpointId, location, description };
+  }
+
+  private async placeFunctionBreakpoint(
+    expression: string,
+    condition: string | undefined,
+    sid: string | undefined
+  ): Promise<{ breakpointId: string; location?: Location; description?: string }> {
+    const objectGroup = 'function-breakpoint';
+    try {
+      const evaluated = await this.client.send<{ result: RemoteObject; exceptionDetails?: { text: string; exception?: RemoteObject } }>(
+        'Runtime.evaluate',
+        { expression, objectGroup, silent: true },
+        sid
+      );
+      if (evaluated.exceptionDetails) {
+        const detail = evaluated.exceptionDetails.exception?.description ?? evaluated.exceptionDetails.text;
+        throw new Error(`Evaluating ${expression} failed: ${detail}`);
+      }
+      if (evaluated.result.type !== 'function' || !evaluated.result.objectId) {
+        throw new Error(`${expression} is not a function (got ${evaluated.result.type})`);
+      }
+      const objectId = evaluated.result.objectId;
+
+      const params: Record<string, unknown> = { objectId };
+      if (condition) params.condition = condition;
+      const { breakpointId } = await this.client.send<{ breakpointId: string }>(
+        'Debugger.setBreakpointOnFunctionCall',
+        params,
+        sid
+      );
+
+      // [[FunctionLocation]] tells where the function is defined.
+      const props = await this.client.send<{ internalProperties?: Array<{ name: string; value?: { value?: Location } }> }>(
+        'Runtime.getProperties',
+        { objectId, ownProperties: true },
+        sid
+      );
+      const location = props.internalProperties?.find((p) => p.name === '[[FunctionLocation]]')?.value?.value;
+      return { breakpointId, location, description: evaluated.result.description?.split('\n')[0] };
+    } finally {
+      this.client.send('Runtime.releaseObjectGroup', { objectGroup }, sid).catch(() => {});
+    }
+  }
+
+  /**
+   * Search loaded script sources for definitions of a function named `name`.
+   * Sources are fetched (and cached) as needed; scripts without a URL are
+   * skipped unless they are already cached.
+   */
+  async findFunctionsByName(
+    name: string,
+    options: { urlPattern?: string; targetId?: string } = {}
+  ): Promise<Array<FunctionDefinition & { scriptId: string; url: string; targetId?: string }>> {
+    const results: Array<FunctionDefinition & { scriptId: string; url: string; targetId?: string }> = [];
+    for (const script of this.scriptRegistry.getAllScripts(options.targetId)) {
+      if (options.urlPattern && !this.scriptRegistry.matchesUrl(script.url, options.urlPattern)) continue;
+      if (!script.url && !this.scriptRegistry.hasSource(script.scriptId, script.targetId)) continue;
+      let source: string;
+      try {
+        source = await this.getScriptSource(script.scriptId, script.targetId);
+      } catch (e) {
+        debug('getScriptSource %s failed: %s', script.scriptId, e instanceof Error ? e.message : String(e));
+        continue;
+      }
+      for (const def of findFunctionDefinitions(source, name)) {
+        // Inline scripts start part way into their document.
+        const offset = (line: number, column: number) => ({
+          line: line + script.startLine,
+          column: line === 0 ? column + script.startColumn : column,
+        });
+        const at = offset(def.lineNumber, def.columnNumber);
+        const body = offset(def.bodyLineNumber, def.bodyColumnNumber);
+        results.push({
+          ...def,
+          lineNumber: at.line,
+          columnNumber: at.column,
+          bodyLineNumber: body.line,
+          bodyColumnNumber: body.column,
+          scriptId: script.scriptId,
+          url: script.url,
+          targetId: script.targetId,
+        });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Search the sources of parsed scripts. Scripts whose source is cached are
+   * searched locally; the rest are searched in the page with
+   * Debugger.searchInContent, and only those with a hit are fetched (and
+   * cached) to compute columns and context. Scripts without a URL (eval) are
+   * skipped unless includeEval is set.
+   */
+  async searchScripts(
+    query: string,
+    options: SearchOptions & { urlPattern?: string; targetId?: string; includeEval?: boolean } = {}
+  ): Promise<{ matches: Array<SourceMatch & { scriptId: string; url: string; targetId?: string }>; scriptsSearched: number; truncated: boolean }> {
+    const max = options.maxMatches ?? 100;
+    const matches: Array<SourceMatch & { scriptId: string; url: string; targetId?: string }> = [];
+    let scriptsSearched = 0;
+    // Truncated only once a match past the limit turns up; with exactly `max`
+    // matches the remaining scripts are still searched for one more.
+    let truncated = false;
+    for (const script of this.scriptRegistry.getAllScripts(options.targetId)) {
+      if (truncated) break;
+      if (options.urlPattern && !this.scriptRegistry.matchesUrl(script.url, options.urlPattern)) continue;
+      if (!script.url && !options.includeEval) continue;
+      scriptsSearched++;
+      try {
+        if (!this.scriptRegistry.hasSource(script.scriptId, script.targetId)) {
+          const result = await this.client.send<{ result: Array<{ lineNumber: number; lineContent: string }> }>(
+            'Debugger.searchInContent',
+            {
+              scriptId: script.scriptId,
+              query,
+              caseSensitive: options.caseSensitive ?? false,
+              isRegex: options.isRegex ?? false,
+            },
+            this.sendSessionFor(script.targetId)
+          );
+          if (result.result.length === 0) continue;
+        }
+        const source = await this.getScriptSource(script.scriptId, script.targetId);
+        const remaining = max - matches.length;
+        const found = searchSource(source, query, { ...options, maxMatches: remaining + 1 });
+        if (found.length > remaining) truncated = true;
+        for (const match of found.slice(0, remaining)) {
+          matches.push({
+            ...match,
+            // Inline scripts start part way into their document.
+            lineNumber: match.lineNumber + script.startLine,
+            columnNumber: match.lineNumber === 0 ? match.columnNumber + script.startColumn : match.columnNumber,
+            scriptId: script.scriptId,
+            url: script.url,
+            targetId: script.targetId,
+          });
+        }
+      } catch (e) {
+        debug('searchScripts %s failed: %s', script.scriptId, e instanceof Error ? e.message : String(e));
+      }
+    }
+    return { matches, scriptsSearched, truncated };
+  }
+
+  /**
+   * Set a logpoint: a conditional breakpoint whose condition evaluates the
+   * template's `{expr}` placeholders in the paused frame, reports them through
+   * a Runtime binding, and returns false so execution never pauses. With
+   * scriptId the logpoint goes to that script only; otherwise it is set by URL
+   * on every session like set_breakpoint.
+   */
+  async setLogpoint(
+    location: { lineNumber: number; url?: string; urlRegex?: string; columnNumber?: number; scriptId?: string; targetId?: string },
+    template: string,
+    condition?: string
+  ): Promise<{ logpoint: Logpoint; locations: Location[] }> {
+    const parts = parseLogTemplate(template);
+    const token = this.logpoints.nextToken();
+    await this.ensureLogpointBinding();
+
+    const logCondition = buildLogpointCondition(token, parts, condition);
+    let breakpointId: string;
+    let locations: Location[];
+    if (location.scriptId) {
+      const result = await this.setBreakpoint(
+        { scriptId: location.scriptId, lineNumber: location.lineNumber, columnNumber: location.columnNumber },
+        logCondition,
+        location.targetId
+      );
+      breakpointId = result.breakpointId;
+      locations = [result.actualLocation];
+    } else {
+      const result = await this.setBreakpointByUrl(
+        location.lineNumber,
+        location.url,
+        location.urlRegex,
+        location.columnNumber,
+        logCondition
+      );
+      breakpointId = result.breakpointId;
+      locations = result.locations;
+    }
+
+    const logpoint = this.logpoints.add({
+      breakpointId,
+      token,
+      template,
+      parts,
+      condition,
+      location: {
+        url: location.url,
+        urlRegex: location.urlRegex,
+        scriptId: location.scriptId,
+        lineNumber: location.lineNumber,
+        columnNumber: location.columnNumber,
+      },
+    });
+    return { logpoint, locations };
+  }
+
+  /**
+   * Snapshot URL breakpoints and logpoints as portable definitions.
+   * Breakpoints set by scriptId only exist for one script instance and are
+   * skipped.
+   */
+  captureBreakpointDefinitions(breakpointIds?: string[]): BreakpointDefinition[] {
+    const breakpoints = breakpointIds
+      ? breakpointIds.map((id) => {
+          const bp = this.debugState.getBreakpoint(id);
+          if (!bp) throw new Error(`Breakpoint ${id} not found`);
+          return bp;
+        })
+      : this.debugState.getAllBreakpoints();
+
+    const definitions: BreakpointDefinition[] = [];
+    for (const bp of breakpoints) {
+      if (!bp.url && !bp.urlRegex) continue;
+      const logpoint = this.logpoints.get(bp.id);
+      definitions.push({
+        url: bp.url,
+        urlRegex: bp.urlRegex,
+        lineNumber: bp.lineNumber,
+        columnNumber: bp.columnNumber,
+        condition: logpoint ? logpoint.condition : bp.condition,
+        hitCondition: bp.hitCondition ? formatHitCondition(bp.hitCondition) : undefined,
+        logMessage: logpoint?.template,
+        enabled: bp.enabled ? undefined : false,
+      });
+    }
+    return definitions;
+  }
+
+  /**
+   * Create the breakpoints and logpoints of a set. Definitions that match a
+   * breakpoint already set are skipped, so applying twice is harmless.
+   */
+  async applyBreakpointSet(set: BreakpointSet): Promise<{ applied: string[]; skipped: number; errors: string[] }> {
+    const existing = new Set(this.captureBreakpointDefinitions().map(breakpointDefinitionKey));
+    const applied: string[] = [];
+    const errors: string[] = [];
+    let skipped = 0;
+
+    for (const def of set.breakpoints) {
+      if (existing.has(breakpointDefinitionKey(def))) {
+        skipped++;
+        continue;
+      }
+      try {
+        let breakpointId: string;
+        if (def.logMessage !== undefined) {
+          const { logpoint } = await this.setLogpoint(
+            { lineNumber: def.lineNumber, url: def.url, urlRegex: def.urlRegex, columnNumber: def.columnNumber },
+            def.logMessage,
+            def.condition
+          );
+          breakpointId = logpoint.breakpointId;
+        } else {
+          const result = await this.setBreakpointByUrl(def.lineNumber, def.url, def.urlRegex, def.columnNumber, def.condition);
+          breakpointId = result.breakpointId;
+        }
+        if (def.hitCondition) {
+          this.debugState.setHitCondition(breakpointId, parseHitCondition(def.hitCondition));
+        }
+        if (def.enabled === false) {
+          await this.setBreakpointEnabled(breakpointId, false);
+        }
+        existing.add(breakpointDefinitionKey(def));
+        applied.push(breakpointId);
+      } catch (e) {
+        errors.push(`${def.url ?? def.urlRegex}:${def.lineNumber}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    return { applied, skipped, errors };
+  }
+
+  private async ensureLogpointBinding(): Promise<void> {
+    if (this.logpointBindingInstalled) return;
+    await this.sendToAllSessions('Runtime.addBinding', { name: LOGPOINT_BINDING });
+    this.logpointBindingInstalled = true;
+  }
+
+  async pause(targetId?: string): Promise<void> {
+    await this.client.send('Debugger.pause', undefined, this.sendSessionFor(targetId));
   }
 
-  async stepOver(): Promise<void> {
-    await this.client.send('Debugger.stepOver');
+  async resume(targetId?: string): Promise<void> {
+    await this.client.send('Debugger.resume', undefined, this.pausedSessionFor(targetId));
   }
 
-  async stepInto(): Promise<void> {
-    await this.client.send('Debugger.stepInto');
+  async stepOver(targetId?: string): Promise<void> {
+    await this.step(STEP_METHODS.over, targetId);
   }
 
-  async stepOut(): Promise<void> {
-    await this.client.send('Debugger.stepOut');
+  async stepInto(targetId?: string): Promise<void> {
+    await this.step(STEP_METHODS.into, targetId);
   }
 
-  async setPauseOnExceptions(state: 'none' | 'uncaught' | 'all'): Promise<void> {
-    await this.client.send('Debugger.setPauseOnExceptions', { state });
+  async stepOut(targetId?: string): Promise<void> {
+    await this.step(STEP_METHODS.out, targetId);
+  }
+
+  private async step(method: string, targetId?: string): Promise<void> {
+    const sid = this.pausedSessionFor(targetId);
+    const key = this.debugState.getPauseState(targetId).targetId ?? '';
+    this.startStepping(key);
+    try {
+      await this.client.send(method, undefined, sid);
+    } catch (e) {
+      this.stopStepping(key);
+      throw e;
+    }
+  }
+
+  private startStepping(key: string): void {
+    this.steppingTargets.add(key);
+    this.pendingSteps.add(key);
+  }
+
+  private stopStepping(key: string): void {
+    this.steppingTargets.delete(key);
+    this.pendingSteps.delete(key);
+  }
+
+  /**
+   * Step and wait for the pause that ends the step. Resolves to the new pause
+   * state, or null when the target keeps running past the timeout (e.g. it
+   * stepped out of the last frame).
+   */
+  async stepAndWait(kind: StepKind, options: { targetId?: string; timeout?: number } = {}): Promise<PauseState | null> {
+    const pausedTarget = this.debugState.getPauseState(options.targetId).targetId;
+    return this.runUntilPause(pausedTarget, options.timeout, () => this.step(STEP_METHODS[kind], options.targetId));
+  }
+
+  /** Resume until execution reaches a location (Debugger.continueToLocation). */
+  async continueToLocation(
+    location: Location,
+    options: { targetId?: string; targetCallFrames?: 'any' | 'current'; timeout?: number } = {}
+  ): Promise<PauseState | null> {
+    const pausedTarget = this.debugState.getPauseState(options.targetId).targetId;
+    const sid = this.pausedSessionFor(options.targetId);
+    return this.runUntilPause(pausedTarget, options.timeout, () =>
+      this.client.send('Debugger.continueToLocation', {
+        location,
+        targetCallFrames: options.targetCallFrames ?? 'any',
+      }, sid).then(() => undefined)
+    );
+  }
+
+  /**
+   * Step repeatedly until `expression` is truthy in the top frame, the top
+   * frame's script URL changes, a breakpoint or exception stops execution,
+   * or maxSteps is reached. Errors evaluating the expression (e.g. a variable
+   * not yet in scope) count as false.
+   */
+  async stepUntil(options: {
+    kind?: StepKind;
+    expression?: string;
+    untilUrlChange?: boolean;
+    maxSteps?: number;
+    timeout?: number;
+    targetId?: string;
+  }): Promise<{ steps: number; stopReason: StepUntilStopReason; pause: PauseState | null }> {
+    const start = this.debugState.getPauseState(options.targetId);
+    if (!start.isPaused) {
+      throw new Error('Not paused');
+    }
+    const targetId = start.targetId;
+    const startUrl = start.callFrames?.[0]?.url;
+    const maxSteps = options.maxSteps ?? 100;
+
+    for (let steps = 1; steps <= maxSteps; steps++) {
+      const pause = await this.stepAndWait(options.kind ?? 'over', { targetId, timeout: options.timeout });
+      if (!pause) return { steps, stopReason: 'resumed', pause };
+      if (pause.reason === 'exception' || pause.reason === 'promiseRejection') {
+        return { steps, stopReason: 'exception', pause };
+      }
+      if (pause.hitBreakpoints?.length) return { steps, stopReason: 'breakpoint', pause };
+      const top = pause.callFrames?.[0];
+      if (options.untilUrlChange && top?.url !== startUrl) return { steps, stopReason: 'urlChanged', pause };
+      if (options.expression && top && await this.isTruthyOnFrame(top.callFrameId, options.expression, targetId)) {
+        return { steps, stopReason: 'condition', pause };
+      }
+    }
+    return { steps: maxSteps, stopReason: 'maxSteps', pause: this.debugState.getPauseState(targetId) };
+  }
+
+  private async isTruthyOnFrame(callFrameId: string, expression: string, targetId?: string): Promise<boolean> {
+    try {
+      const result = await this.client.send<{ result: RemoteObject; exceptionDetails?: unknown }>(
+        'Debugger.evaluateOnCallFrame',
+        { callFrameId, expression: `!!(${expression})`, returnByValue: true, silent: true },
+        this.pausedSessionFor(targetId)
+      );
+      return !result.exceptionDetails && result.result.value === true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Start listening for the target's next pause, then run the action that
+  // resumes it. The listener goes first so a fast pause is not missed. On
+  // timeout the target is running on, so a step it started is over.
+  private async runUntilPause(
+    targetId: string | undefined,
+    timeout = DEFAULT_STEP_TIMEOUT,
+    action: () => Promise<void>
+  ): Promise<PauseState | null> {
+    let onPaused: ((params: { targetId?: string }) => void) | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const paused = new Promise<PauseState | null>((resolve) => {
+      onPaused = (params) => {
+        if ((params.targetId ?? '') === (targetId ?? '')) resolve(this.debugState.getPauseState(params.targetId));
+      };
+      this.on('paused', onPaused);
+      timer = setTimeout(() => {
+        this.stopStepping(targetId ?? '');
+        resolve(null);
+      }, timeout);
+    });
+    try {
+      await action();
+      return await paused;
+    } finally {
+      clearTimeout(timer);
+      if (onPaused) this.removeListener('paused', onPaused);
+    }
+  }
+
+  /**
+   * Everything needed to understand a pause in one call: decoded pause data,
+   * the top frames with source excerpts and their variables (expanded to
+   * `depth` levels), and the async stack trace. Global and script scopes are
+   * left out; they are large and rarely what a pause is about.
+   */
+  async getPauseContext(options: {
+    targetId?: string;
+    frameCount?: number;
+    contextLines?: number;
+    depth?: number;
+    maxProperties?: number;
+    includeClosures?: boolean;
+  } = {}): Promise<Record<string, unknown>> {
+    const pause = this.debugState.getPauseState(options.targetId);
+    if (!pause.isPaused) {
+      throw new Error('Not paused');
+    }
+    const targetId = pause.targetId;
+    const callFrames = pause.callFrames ?? [];
+    const expand = { depth: options.depth ?? 1, maxProperties: options.maxProperties ?? 20, targetId };
+    const scopeTypes = new Set(['local', 'block', 'catch', 'with', 'module', ...(options.includeClosures === false ? [] : ['closure'])]);
+
+    const data = describePauseData(pause.reason ?? '', pause.data);
+    if (pause.reason === 'DOM' && typeof pause.data?.nodeId === 'number' && data) {
+      data.node = await this.describeDomNode(pause.data.nodeId, targetId);
+    }
+
+    const frames = await Promise.all(callFrames.slice(0, options.frameCount ?? 3).map(async (frame, index) => {
+      const scopes = await Promise.all(frame.scopeChain
+        .filter((scope) => scopeTypes.has(scope.type) && scope.object.objectId)
+        .map(async (scope) => ({
+          type: scope.type,
+          name: scope.name,
+          variables: await this.expandRemoteObject(scope.object, expand.depth + 1, expand),
+        })));
+      return {
+        index,
+        functionName: frame.functionName || '(anonymous)',
+        url: frame.url,
+        location: frame.location,
+        originalLocation: await this.getOriginalLocation(frame.location, targetId),
+        source: await this.getSourceExcerpt(frame.location, targetId, options.contextLines ?? 2),
+        this: frame.this.type === 'undefined' ? undefined : formatRemoteValue(frame.this),
+        returnValue: frame.returnValue ? formatRemoteValue(frame.returnValue) : undefined,
+        scopes,
+      };
+    }));
+
+    const asyncStackTrace = formatAsyncStackTrace(pause.asyncStackTrace as StackTrace | undefined);
+    return {
+      targetId,
+      reason: pause.reason,
+      data,
+      hitBreakpoints: pause.hitBreakpoints?.length ? pause.hitBreakpoints : undefined,
+      totalFrames: callFrames.length,
+      frames,
+      asyncStackTrace: asyncStackTrace.length ? asyncStackTrace : undefined,
+    };
+  }
+
+  // Own properties of an object as a plain value tree, `depth` levels deep;
+  // deeper values and functions are rendered as one-line previews.
+  private async expandRemoteObject(
+    obj: RemoteObject,
+    depth: number,
+    options: { maxProperties: number; targetId?: string }
+  ): Promise<unknown> {
+    if (depth <= 0 || !obj.objectId || obj.type !== 'object' || obj.subtype === 'null') {
+      return formatRemoteValue(obj);
+    }
+    let props: PropertyDescriptor[];
+    try {
+      props = (await this.getProperties(obj.objectId, { targetId: options.targetId })).result;
+    } catch {
+      return formatRemoteValue(obj);
+    }
+    props = props.filter((p) => p.name !== '__proto__' && !p.symbol);
+    const result: Record<string, unknown> = {};
+    for (const prop of props.slice(0, options.maxProperties)) {
+      if (prop.value) {
+        result[prop.name] = await this.expandRemoteObject(prop.value, depth - 1, options);
+      } else if (prop.get || prop.set) {
+        result[prop.name] = '(accessor)';
+      }
+    }
+    if (props.length > options.maxProperties) {
+      result['…'] = `${props.length - options.maxProperties} more`;
+    }
+    return result;
+  }
+
+  private async describeDomNode(nodeId: number, targetId?: string): Promise<string | undefined> {
+    try {
+      const { node } = await this.client.send<{ node: { nodeName: string; attributes?: string[] } }>(
+        'DOM.describeNode',
+        { nodeId },
+        this.sendSessionFor(targetId)
+      );
+      const attrs = new Map<string, string>();
+      for (let i = 0; i + 1 < (node.attributes?.length ?? 0); i += 2) {
+        attrs.set(node.attributes![i], node.attributes![i + 1]);
+      }
+      const id = attrs.get('id') ? `#${attrs.get('id')}` : '';
+      const classes = attrs.get('class') ? `.${attrs.get('class')!.trim().split(/\s+/).join('.')}` : '';
+      return `${node.nodeName.toLowerCase()}${id}${classes}`;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Lines around a location of a script, the location's line marked with
+   * '>'. Long (minified) lines are cut around the column.
+   */
+  async getSourceExcerpt(location: Location, targetId?: string, context = 2): Promise<string | undefined> {
+    let source: string;
+    try {
+      source = await this.getScriptSource(location.scriptId, targetId);
+    } catch {
+      return undefined;
+    }
+    const lines = source.split('\n');
+    const first = Math.max(0, location.lineNumber - context);
+    const last = Math.min(lines.length - 1, location.lineNumber + context);
+    const width = String(last + 1).length;
+    const excerpt: string[] = [];
+    for (let i = first; i <= last; i++) {
+      let text = lines[i];
+      if (text.length > MAX_EXCERPT_LINE) {
+        const column = i === location.lineNumber ? location.columnNumber ?? 0 : 0;
+        const from = Math.max(0, column - MAX_EXCERPT_LINE / 2);
+        text = `${from > 0 ? '…' : ''}${text.slice(from, from + MAX_EXCERPT_LINE)}…`;
+      }
+      excerpt.push(`${i === location.lineNumber ? '>' : ' '} ${String(i + 1).padStart(width)} | ${text}`);
+    }
+    return excerpt.join('\n');
+  }
+
+  /**
+   * Disable or re-enable a breakpoint. Disabling removes it from CDP on every
+   * session, so hitting its location costs nothing; enabling sets it again.
+   * The breakpoint keeps its ID, condition and hit count either way.
+   */
+  async setBreakpointEnabled(breakpointId: string, enabled: boolean): Promise<void> {
+    const bp = this.debugState.getBreakpoint(breakpointId);
+    if (!bp) {
+      throw new Error(`Breakpoint ${breakpointId} not found`);
+    }
+    if (bp.enabled === enabled) return;
+    if (enabled) {
+      await this.restoreCdpBreakpoint(bp);
+    } else {
+      await this.removeCdpBreakpoints(bp.id, bp.targetBreakpointIds);
+    }
+    this.debugState.setBreakpointEnabled(breakpointId, enabled);
+  }
+
+  async setBreakpointsActive(active: boolean): Promise<void> {
+    await this.sendToAllSessions('Debugger.setBreakpointsActive', { active });
+    this.debugState.setBreakpointsActive(active);
+  }
+
+  /**
+   * Set when to pause on exceptions. With filters, exception pauses that match
+   * none of them are resumed automatically (they are still recorded in the
+   * exception history). Omitting filters clears them.
+   */
+  async setPauseOnExceptions(state: 'none' | 'uncaught' | 'all', filters: ExceptionFilter[] = []): Promise<void> {
+    this.debugState.setExceptionFilters(filters);
+    await this.sendToAllSessions('Debugger.setPauseOnExceptions', { state });
     this.debugState.setPauseOnExceptions(state);
   }
 
+  // Resume a pause that was never reported. Its Debugger.resumed is not
+  // reported either.
+  private autoResume(targetId: string | undefined, sessionId: string | undefined): void {
+    const key = targetId ?? '';
+    this.autoResumingTargets.add(key);
+    this.client.send('Debugger.resume', undefined, sessionId).catch((e) => {
+      this.autoResumingTargets.delete(key);
+      debug('auto-resume on %s failed: %s', targetId, e instanceof Error ? e.message : String(e));
+    });
+  }
+
+  // Snapshot the top frame's locals into an exception record. Must run while
+  // the target is still paused; a failure just leaves the record without
+  // variables. Never rejects.
+  private async captureExceptionVariables(captured: CapturedException, frame: CallFrame, targetId?: string): Promise<void> {
+    const local = frame.scopeChain.find((scope) => scope.type === 'local');
+    if (!local) return;
+    await this.expandRemoteObject(local.object, 1, { maxProperties: 20, targetId })
+      .then((variables) => {
+        if (variables && typeof variables === 'object') {
+          captured.variables = variables as Record<string, string>;
+        }
+      })
+      .catch((e) => debug('exception variable snapshot failed: %s', e instanceof Error ? e.message : String(e)));
+  }
+
   async setAsyncCallStackDepth(maxDepth: number): Promise<void> {
-    await this.client.send('Debugger.setAsyncCallStackDepth', { maxDepth });
+    await this.sendToAllSessions('Debugger.setAsyncCallStackDepth', { maxDepth });
     this.debugState.setAsyncStackTraceDepth(maxDepth);
   }
 
-  async getScriptSource(scriptId: string): Promise<string> {
+  async getScriptSource(scriptId: string, targetId?: string): Promise<string> {
+    const owner = targetId ?? this.scriptRegistry.getScript(scriptId)?.targetId;
+
     // Check cache first
-    const cached = this.scriptRegistry.getSource(scriptId);
+    const cached = this.scriptRegistry.getSource(scriptId, owner);
     if (cached) return cached;
 
-    const result = await this.client.send<{ scriptSource: string }>('Debugger.getScriptSource', { scriptId });
-    this.scriptRegistry.setSource(scriptId, result.scriptSource);
+    const result = await this.client.send<{ scriptSource: string }>(
+      'Debugger.getScriptSource',
+      { scriptId },
+      this.sendSessionFor(owner)
+    );
+    this.scriptRegistry.setSource(scriptId, result.scriptSource, owner);
     return result.scriptSource;
   }
 
+  /**
+   * Replace a script's source in the running page (Debugger.setScriptSource).
+   * Functions already on the stack keep running old code unless the top frame
+   * is edited with allowTopFrameEditing, which restarts it. On success the
+   * cached source is updated.
+   */
+  async setScriptSource(
+    scriptId: string,
+    source: string,
+    options: { dryRun?: boolean; allowTopFrameEditing?: boolean; targetId?: string } = {}
+  ): Promise<{ status: string; exceptionDetails?: ExceptionDetails; stackChanged?: boolean }> {
+    const owner = options.targetId ?? this.scriptRegistry.getScript(scriptId)?.targetId;
+    const result = await this.client.send<{ status?: string; exceptionDetails?: ExceptionDetails; stackChanged?: boolean }>(
+      'Debugger.setScriptSource',
+      {
+        scriptId,
+        scriptSource: source,
+        dryRun: options.dryRun ?? false,
+        allowTopFrameEditing: options.allowTopFrameEditing ?? false,
+      },
+      this.sendSessionFor(owner)
+    );
+    // Older Chrome versions report compile errors only via exceptionDetails.
+    const status = result.status ?? (result.exceptionDetails ? 'CompileError' : 'Ok');
+    if (status === 'Ok' && !options.dryRun) {
+      this.scriptRegistry.setSource(scriptId, source, owner);
+    }
+    return { status, exceptionDetails: result.exceptionDetails, stackChanged: result.stackChanged };
+  }
+
+  // Source maps. Maps are loaded lazily, on the first lookup for a script, and
+  // cached in `sourceMaps` together with load failures so they are not retried.
+  async loadSourceMap(scriptId: string, targetId?: string): Promise<SourceMap | undefined> {
+    const script = this.scriptRegistry.getScript(scriptId, targetId);
+    if (!script?.sourceMapURL) return undefined;
+    const owner = script.targetId;
+    if (this.sourceMaps.isResolved(scriptId, owner)) {
+      return this.sourceMaps.getSourceMap(scriptId, owner);
+    }
+
+    const mapUrl = resolveSourceMapUrl(script.sourceMapURL, script.url);
+    const isInline = mapUrl.startsWith('data:');
+    try {
+      const text = isInline ? decodeDataUrl(mapUrl) : await this.fetchResource(mapUrl, owner);
+      // Inline maps resolve their sources against the script URL.
+      const map = SourceMap.parse(text, isInline ? script.url : mapUrl);
+      this.sourceMaps.setSourceMap(scriptId, map, owner);
+      return map;
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      debug('source map for script %s (%s) failed: %s', scriptId, isInline ? 'inline' : mapUrl, message);
+      this.sourceMaps.setError(scriptId, message, owner);
+      return undefined;
+    }
+  }
+
+  // Ignore list. URL patterns go to Debugger.setBlackboxPatterns on every
+  // session; source-map ignore lists become per-script blackboxed ranges.
+  async addIgnorePatterns(patterns: string[]): Promise<string[]> {
+    const added = this.ignoreList.add(patterns);
+    await this.syncIgnorePatterns();
+    return added;
+  }
+
+  async removeIgnorePatterns(patterns: string[]): Promise<string[]> {
+    const removed = this.ignoreList.remove(patterns);
+    await this.syncIgnorePatterns();
+    return removed;
+  }
+
+  private async syncIgnorePatterns(): Promise<void> {
+    if (!this.debugState.isEnabled()) return;
+    await this.sendToAllSessions('Debugger.setBlackboxPatterns', { patterns: this.ignoreList.getCdpPatterns() });
+  }
+
+  /** Honor (or stop honoring) ignoreList / x_google_ignoreList in source maps. */
+  async setSourceMapIgnoreList(enabled: boolean): Promise<void> {
+    this.ignoreList.setUseSourceMaps(enabled);
+    if (enabled) {
+      if (this.debugState.isEnabled()) await this.applySourceMapIgnoreList();
+      return;
+    }
+    const scripts = Array.from(this.blackboxedRangeScripts.values());
+    this.blackboxedRangeScripts.clear();
+    await Promise.allSettled(scripts.map(async ({ scriptId, targetId }) =>
+      this.client.send('Debugger.setBlackboxedRanges', { scriptId, positions: [] }, this.sendSessionFor(targetId))
+    ));
+  }
+
+  private async applySourceMapIgnoreList(): Promise<void> {
+    const scripts = this.scriptRegistry.getAllScripts().filter((s) => s.sourceMapURL);
+    await Promise.all(scripts.map((s) => this.applySourceMapIgnoreRanges(s.scriptId, s.targetId)));
+  }
+
+  private async applySourceMapIgnoreRanges(scriptId: string, targetId?: string): Promise<void> {
+    try {
+      const map = await this.loadSourceMap(scriptId, targetId);
+      if (!map?.hasIgnoredSources() || !this.ignoreList.usesSourceMaps()) return;
+      await this.client.send(
+        'Debugger.setBlackboxedRanges',
+        { scriptId, positions: map.ignoredGeneratedRanges() },
+        this.sendSessionFor(targetId)
+      );
+      this.blackboxedRangeScripts.set(`${targetId ?? ''}:${scriptId}`, { scriptId, targetId });
+    } catch (e) {
+      debug('ignore ranges for script %s failed: %s', scriptId, e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  /** Whether a call frame is in ignored code, by URL pattern or source map. */
+  async isFrameIgnored(frame: CallFrame, targetId?: string): Promise<boolean> {
+    if (this.ignoreList.matches(frame.url)) return true;
+    if (!this.ignoreList.usesSourceMaps()) return false;
+    const map = await this.loadSourceMap(frame.location.scriptId, targetId);
+    if (!map?.hasIgnoredSources()) return false;
+    const original = map.originalPositionFor(frame.location.lineNumber, frame.location.columnNumber ?? 0);
+    return original !== undefined && map.isIgnored(original.source);
+  }
+
+  getIgnoredRangeScriptCount(): number {
+    return this.blackboxedRangeScripts.size;
+  }
+
+  async loadAllSourceMaps(): Promise<void> {
+    const pending = this.scriptRegistry
+      .getAllScripts()
+      .filter((s) => s.sourceMapURL && !this.sourceMaps.isResolved(s.scriptId, s.targetId));
+    await Promise.all(pending.map((s) => this.loadSourceMap(s.scriptId, s.targetId)));
+  }
+
+  async getOriginalLocation(
+    location: { scriptId: string; lineNumber: number; columnNumber?: number },
+    targetId?: string
+  ): Promise<OriginalPosition | undefined> {
+    const map = await this.loadSourceMap(location.scriptId, targetId);
+    return map?.originalPositionFor(location.lineNumber, location.columnNumber ?? 0);
+  }
+
+  /**
+   * Set a breakpoint on a line of an original (pre-bundling) source. Every
+   * script whose map includes the file gets a breakpoint at the mapped
+   * generated position: by URL when the script has one, so it survives
+   * reloads, otherwise by scriptId.
+   */
+  async setBreakpointInOriginalSource(
+    source: string,
+    lineNumber: number,
+    columnNumber?: number,
+    condition?: string
+  ): Promise<Array<{ breakpointId: string; source: string; generated: GeneratedPosition; scriptUrl?: string; locations: Location[] }>> {
+    await this.loadAllSourceMaps();
+    const matches = this.sourceMaps.findScriptsForSource(source);
+    if (matches.length === 0) {
+      throw new Error(`No loaded source map contains ${source}. Use list_original_sources to see what is available.`);
+    }
+
+    const results: Array<{ breakpointId: string; source: string; generated: GeneratedPosition; scriptUrl?: string; locations: Location[] }> = [];
+    const seen = new Set<string>();
+    for (const match of matches) {
+      const generated = match.map.generatedPositionFor(match.source, lineNumber, columnNumber);
+      if (!generated) continue;
+      const script = this.scriptRegistry.getScript(match.scriptId, match.targetId);
+      const key = script?.url
+        ? `${script.url}:${generated.lineNumber}:${generated.columnNumber}`
+        : `${match.targetId}:${match.scriptId}:${generated.lineNumber}:${generated.columnNumber}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      let breakpointId: string;
+      let locations: Location[];
+      if (script?.url) {
+        const result = await this.setBreakpointByUrl(generated.lineNumber, script.url, undefined, generated.columnNumber, condition);
+        breakpointId = result.breakpointId;
+        locations = result.locations;
+      } else {
+        const result = await this.setBreakpoint(
+          { scriptId: match.scriptId, lineNumber: generated.lineNumber, columnNumber: generated.columnNumber },
+          condition,
+          match.targetId
+        );
+        breakpointId = result.breakpointId;
+        locations = [result.actualLocation];
+      }
+
+      const bp = this.debugState.getBreakpoint(breakpointId);
+      if (bp) {
+        bp.originalLocation = { source: match.source, lineNumber, columnNumber };
+      }
+      results.push({ breakpointId, source: match.source, generated, scriptUrl: script?.url || undefined, locations });
+    }
+
+    if (results.length === 0) {
+      throw new Error(`No generated code maps to ${source}:${lineNumber}`);
+    }
+    return results;
+  }
+
+  // Content of an original source: embedded sourcesContent, or fetched from
+  // the source URL when the map only references it.
+  async getOriginalSource(source: string): Promise<string> {
+    await this.loadAllSourceMaps();
+    const embedded = this.sourceMaps.getSourceContent(source);
+    if (embedded !== undefined) return embedded;
+
+    const match = this.sourceMaps.findScriptsForSource(source)[0];
+    if (!match) {
+      throw new Error(`No loaded source map contains ${source}`);
+    }
+    if (!/^https?:/.test(match.source)) {
+      throw new Error(`Source map has no embedded content for ${match.source}`);
+    }
+    return this.fetchResource(match.source, match.targetId);
+  }
+
+  // Fetch a resource the way DevTools does: through the browser network stack
+  // (Network.loadNetworkResource), falling back to fetch() inside the target.
+  private async fetchResource(url: string, targetId?: string): Promise<string> {
+    const sid = this.sendSessionFor(targetId);
+    try {
+      return await this.loadNetworkResource(url, targetId);
+    } catch (e) {
+      debug('Network.loadNetworkResource(%s) failed, falling back to fetch(): %s', url, e instanceof Error ? e.message : String(e));
+    }
+
+    const result = await this.client.send<{ result: RemoteObject; exceptionDetails?: ExceptionDetails }>('Runtime.evaluate', {
+      expression: `fetch(${JSON.stringify(url)}).then((r) => r.ok ? r.text() : Promise.reject(new Error('HTTP ' + r.status)))`,
+      awaitPromise: true,
+      returnByValue: true,
+    }, sid);
+    if (result.exceptionDetails) {
+      throw new Error(`Fetching ${url} failed: ${result.exceptionDetails.exception?.description ?? result.exceptionDetails.text}`);
+    }
+    return String(result.result.value ?? '');
+  }
+
+  private async loadNetworkResource(url: string, targetId?: string): Promise<string> {
+    const sid = this.sendSessionFor(targetId);
+    const type = targetId ? this.sessions.get(targetId)?.type : 'page';
+    const params: Record<string, unknown> = { url, options: { disableCache: false, includeCredentials: true } };
+    // frameId is mandatory for frame targets and must be omitted for workers.
+    if (type === 'page' || type === 'iframe') {
+      const tree = await this.client.send<{ frameTree: { frame: { id: string } } }>('Page.getFrameTree', undefined, sid);
+      params.frameId = tree.frameTree.frame.id;
+    }
+
+    const { resource } = await this.client.send<{
+      resource: { success: boolean; httpStatusCode?: number; netErrorName?: string; stream?: string };
+    }>('Network.loadNetworkResource', params, sid);
+    if (!resource.success || !resource.stream) {
+      throw new Error(resource.netErrorName ?? `HTTP ${resource.httpStatusCode}`);
+    }
+
+    const chunks: Buffer[] = [];
+    try {
+      for (;;) {
+        const chunk = await this.client.send<{ data: string; base64Encoded?: boolean; eof: boolean }>(
+          'IO.read',
+          { handle: resource.stream },
+          sid
+        );
+        chunks.push(Buffer.from(chunk.data, chunk.base64Encoded ? 'base64' : 'utf8'));
+        if (chunk.eof) break;
+      }
+    } finally {
+      await this.client.send('IO.close', { handle: resource.stream }, sid).catch(() => undefined);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
   async evaluateOnCallFrame(
     callFrameId: string,
     expression: string,
-    options: { objectGroup?: string; returnByValue?: boolean; generatePreview?: boolean } = {}
+    options: { objectGroup?: string; returnByValue?: boolean; generatePreview?: boolean; targetId?: string } = {}
   ): Promise<{ result: RemoteObject; exceptionDetails?: unknown; paused?: boolean; pauseReason?: string; callFrames?: CallFrame[] }> {
     const evalPromise = this.client.send<{ result: RemoteObject; exceptionDetails?: unknown }>('Debugger.evaluateOnCallFrame', {
       callFrameId,
@@ -938,13 +2339,18 @@ export class DebugSession extends EventEmitter {
       objectGroup: options.objectGroup ?? 'debugger',
       returnByValue: options.returnByValue ?? false,
       generatePreview: options.generatePreview ?? true,
-    });
+    }, this.pausedSessionFor(options.targetId));
 
-    // Race with breakpoint detection - expression could call function with breakpoint
-    let pauseHandler: ((params: { reason: string; callFrames: CallFrame[] }) => void) | null = null;
+    // Race with breakpoint detection - expression could call function with breakpoint.
+    // Only pauses of the target owning the call frame can block the evaluation.
+    const frameTargetId = this.debugState.getPauseState(options.targetId).targetId;
+    let pauseHandler: ((params: { reason: string; callFrames: CallFrame[]; targetId?: string }) => void) | null = null;
     const pausedPromise = new Promise<{ paused: true; reason: string; callFrames: CallFrame[] }>((resolve) => {
-      pauseHandler = (params) => resolve({ paused: true, reason: params.reason, callFrames: params.callFrames });
-      this.once('paused', pauseHandler);
+      pauseHandler = (params) => {
+        if ((params.targetId ?? '') !== (frameTargetId ?? '')) return;
+        resolve({ paused: true, reason: params.reason, callFrames: params.callFrames });
+      };
+      this.on('paused', pauseHandler);
     });
 
     try {
@@ -974,16 +2380,102 @@ export class DebugSession extends EventEmitter {
     scopeNumber: number,
     variableName: string,
     newValue: { value?: unknown; unserializableValue?: string; objectId?: string },
-    callFrameId: string
+    callFrameId: string,
+    targetId?: string
   ): Promise<void> {
     await this.client.send('Debugger.setVariableValue', {
       scopeNumber,
       variableName,
       newValue,
       callFrameId,
+    }, this.pausedSessionFor(targetId));
+  }
+
+  /**
+   * Assign a variable in a scope of a paused frame. The new value is a JSON
+   * literal or an expression evaluated in that frame.
+   */
+  async setVariable(
+    frameIndex: number,
+    scopeIndex: number,
+    variableName: string,
+    newValue: ValueInput,
+    targetId?: string
+  ): Promise<RemoteObject> {
+    const frame = this.requireCallFrame(frameIndex, targetId);
+    if (!frame.scopeChain[scopeIndex]) {
+      throw new Error(`Scope ${scopeIndex} not found (frame has ${frame.scopeChain.length} scopes)`);
+    }
+    const { argument, preview } = await this.resolveValueInput(newValue, frame.callFrameId, targetId);
+    await this.setVariableValue(scopeIndex, variableName, argument, frame.callFrameId, targetId);
+    return preview;
+  }
+
+  /** Replace the value the top frame is about to return (Debugger.setReturnValue). */
+  async setReturnValue(newValue: ValueInput, targetId?: string): Promise<RemoteObject> {
+    const frame = this.requireCallFrame(0, targetId);
+    if (!frame.returnValue) {
+      throw new Error('Not paused at a function return. Step until execution is on the closing line of the function.');
+    }
+    const { argument, preview } = await this.resolveValueInput(newValue, frame.callFrameId, targetId);
+    await this.client.send('Debugger.setReturnValue', { newValue: argument }, this.pausedSessionFor(targetId));
+    return preview;
+  }
+
+  /**
+   * Restart a frame: execution goes back to the start of its function and
+   * pauses on the first statement. Resolves to the new pause state.
+   */
+  async restartFrame(frameIndex: number, options: { targetId?: string; timeout?: number } = {}): Promise<PauseState | null> {
+    const frame = this.requireCallFrame(frameIndex, options.targetId);
+    const pausedTarget = this.debugState.getPauseState(options.targetId).targetId;
+    const sid = this.pausedSessionFor(options.targetId);
+    return this.runUntilPause(pausedTarget, options.timeout, async () => {
+      this.startStepping(pausedTarget ?? '');
+      try {
+        await this.client.send('Debugger.restartFrame', { callFrameId: frame.callFrameId, mode: 'StepInto' }, sid);
+      } catch (e) {
+        this.stopStepping(pausedTarget ?? '');
+        throw e;
+      }
     });
   }
 
+  private requireCallFrame(frameIndex: number, targetId?: string): CallFrame {
+    const pause = this.debugState.getPauseState(targetId);
+    if (!pause.isPaused) {
+      throw new Error('Not paused');
+    }
+    const frame = pause.callFrames?.[frameIndex];
+    if (!frame) {
+      throw new Error(`Call frame ${frameIndex} not found (${pause.callFrames?.length ?? 0} frames)`);
+    }
+    return frame;
+  }
+
+  // Turn a JSON literal or frame expression into a Runtime.CallArgument.
+  private async resolveValueInput(
+    input: ValueInput,
+    callFrameId: string,
+    targetId?: string
+  ): Promise<{ argument: CallArgument; preview: RemoteObject }> {
+    if ('json' in input) {
+      const argument = parseJsonLiteral(input.json);
+      return { argument, preview: argumentPreview(argument) };
+    }
+    const { result, exceptionDetails } = await this.client.send<{ result: RemoteObject; exceptionDetails?: { text: string; exception?: RemoteObject } }>(
+      'Debugger.evaluateOnCallFrame',
+      { callFrameId, expression: input.expression, objectGroup: 'debugger', silent: true },
+      this.pausedSessionFor(targetId)
+    );
+    if (exceptionDetails) {
+      throw new Error(`Evaluating ${input.expression} failed: ${exceptionDetails.exception?.description ?? exceptionDetails.text}`);
+    }
+    if (result.objectId) return { argument: { objectId: result.objectId }, preview: result };
+    if (result.unserializableValue !== undefined) return { argument: { unserializableValue: result.unserializableValue }, preview: result };
+    return { argument: result.type === 'undefined' ? {} : { value: result.value }, preview: result };
+  }
+
   // Runtime domain
   async enableRuntime(): Promise<void> {
     this.runtimeEnabledGlobal = true;
@@ -1018,46 +2510,71 @@ export class DebugSession extends EventEmitter {
     this.consoleState.setEnabled(false);
   }
 
+  /**
+   * Evaluate an expression. By default it runs in the page's default context;
+   * targetId picks a worker / service worker session, and contextId, frameId
+   * or worldName pick an execution context of that target (an iframe or an
+   * isolated world). See list_execution_contexts.
+   */
   async evaluate(
     expression: string,
     options: {
       objectGroup?: string;
       contextId?: number;
+      frameId?: string;
+      worldName?: string;
+      targetId?: string;
       returnByValue?: boolean;
       generatePreview?: boolean;
       awaitPromise?: boolean;
       timeout?: number;
     } = {}
-  ): Promise<{ result: RemoteObject; exceptionDetails?: unknown; paused?: boolean; pauseReason?: string; callFrames?: CallFrame[] }> {
-    // If already paused, throw immediately
-    if (this.debugState.isPaused()) {
-      throw new PausedError(this.debugState.getPauseState().reason);
+  ): Promise<{ result: RemoteObject; exceptionDetails?: unknown; paused?: boolean; pauseReason?: string; callFrames?: CallFrame[]; context?: ExecutionContextInfo }> {
+    // If the target is already paused, throw immediately. A paused worker does
+    // not block evaluation in the page, and vice versa.
+    const evalTargetId = options.targetId ?? this.targetId ?? undefined;
+    if (this.debugState.isPaused(evalTargetId)) {
+      throw new PausedError(this.debugState.getPauseState(evalTargetId).reason);
     }
 
+    const context = options.contextId !== undefined || options.frameId !== undefined || options.worldName
+      ? this.executionContexts.resolve({
+        contextId: options.contextId,
+        frameId: options.frameId,
+        worldName: options.worldName,
+        targetId: evalTargetId,
+      })
+      : undefined;
+
     const evalPromise = this.client.send<{ result: RemoteObject; exceptionDetails?: unknown }>('Runtime.evaluate', {
       expression,
+      contextId: context?.id,
       objectGroup: options.objectGroup ?? 'console',
       returnByValue: options.returnByValue ?? false,
       generatePreview: options.generatePreview ?? true,
       awaitPromise: options.awaitPromise ?? false,
-    });
+    }, this.sendSessionFor(options.targetId));
 
     // If debugger is not enabled, just run normally
     if (!this.debugState.isEnabled()) {
       const result = await evalPromise;
-      return { ...result, paused: false };
+      return { ...result, paused: false, context };
     }
 
-    // Race between eval and breakpoint - evaluate hangs if breakpoint is hit
-    let pauseHandler: ((params: { reason: string; callFrames: CallFrame[] }) => void) | null = null;
+    // Race between eval and breakpoint - evaluate hangs if breakpoint is hit.
+    // Only pauses of the evaluating target can block Runtime.evaluate.
+    let pauseHandler: ((params: { reason: string; callFrames: CallFrame[]; targetId?: string }) => void) | null = null;
     const pausedPromise = new Promise<{ paused: true; reason: string; callFrames: CallFrame[] }>((resolve) => {
-      pauseHandler = (params) => resolve({ paused: true, reason: params.reason, callFrames: params.callFrames });
-      this.once('paused', pauseHandler);
+      pauseHandler = (params) => {
+        if (params.targetId !== evalTargetId) return;
+        resolve({ paused: true, reason: params.reason, callFrames: params.callFrames });
+      };
+      this.on('paused', pauseHandler);
     });
 
     try {
       const result = await Promise.race([
-        evalPromise.then(r => ({ ...r, paused: false as const })),
+        evalPromise.then(r => ({ ...r, paused: false as const, context })),
         pausedPromise,
       ]);
 
@@ -1080,22 +2597,87 @@ export class DebugSession extends EventEmitter {
 
   async getProperties(
     objectId: string,
-    options: { ownProperties?: boolean; accessorPropertiesOnly?: boolean; generatePreview?: boolean } = {}
-  ): Promise<{ result: PropertyDescriptor[] }> {
+    options: { ownProperties?: boolean; accessorPropertiesOnly?: boolean; generatePreview?: boolean; targetId?: string } = {}
+  ): Promise<{ result: PropertyDescriptor[]; internalProperties?: InternalPropertyDescriptor[] }> {
+    // objectIds are only valid on the session that produced them.
     return this.client.send('Runtime.getProperties', {
       objectId,
       ownProperties: options.ownProperties ?? true,
       accessorPropertiesOnly: options.accessorPropertiesOnly ?? false,
       generatePreview: options.generatePreview ?? true,
-    });
+    }, this.sendSessionFor(options.targetId));
   }
 
-  async releaseObject(objectId: string): Promise<void> {
-    await this.client.send('Runtime.releaseObject', { objectId });
+  /**
+   * Walk a RemoteObject into a structured tree (see utils/object-serializer).
+   * targetId is the session that owns the object's objectIds.
+   */
+  async serializeObject(obj: RemoteObject, options: SerializeOptions & { targetId?: string } = {}): Promise<SerializedNode> {
+    const sid = this.sendSessionFor(options.targetId);
+    return serializeRemoteObject(obj, {
+      getProperties: (objectId, props) => this.getProperties(objectId, { ...props, targetId: options.targetId }),
+      callFunctionOn: async (objectId, functionDeclaration, args = [], { returnByValue = false, objectGroup } = {}) => {
+        const result = await this.client.send<{ result: RemoteObject; exceptionDetails?: ExceptionDetails }>('Runtime.callFunctionOn', {
+          objectId,
+          functionDeclaration,
+          arguments: args,
+          returnByValue,
+          objectGroup,
+          generatePreview: true,
+          silent: true,
+        }, sid);
+        if (result.exceptionDetails) {
+          throw new Error(result.exceptionDetails.exception?.description?.split('\n')[0] ?? result.exceptionDetails.text);
+        }
+        return result.result;
+      },
+      releaseObjectGroup: async (objectGroup) => {
+        await this.client.send('Runtime.releaseObjectGroup', { objectGroup }, sid);
+      },
+    }, options);
   }
 
-  async releaseObjectGroup(objectGroup: string): Promise<void> {
-    await this.client.send('Runtime.releaseObjectGroup', { objectGroup });
+  async releaseObject(objectId: string, targetId?: string): Promise<void> {
+    await this.client.send('Runtime.releaseObject', { objectId }, this.sendSessionFor(targetId));
+    this.objectHandles.removeHandle(objectId, targetId ?? this.targetId ?? undefined);
+  }
+
+  /** Release an object group on a target. Returns how many tracked handles it held. */
+  async releaseObjectGroup(objectGroup: string, targetId?: string): Promise<number> {
+    await this.client.send('Runtime.releaseObjectGroup', { objectGroup }, this.sendSessionFor(targetId));
+    return this.objectHandles.removeGroup(objectGroup, targetId ?? this.targetId ?? undefined);
+  }
+
+  /**
+   * The object group a tool call should put its handles in: the caller's
+   * choice, else the pause-scoped group when the call is about a paused
+   * target, else a fresh group for this call.
+   */
+  objectGroupFor(origin: string, options: { objectGroup?: string; pausedTargetId?: string; paused?: boolean } = {}): string {
+    if (options.objectGroup) return options.objectGroup;
+    if (options.paused) return this.objectHandles.pauseGroup(options.pausedTargetId);
+    return this.objectHandles.newGroupName(origin);
+  }
+
+  /** Record an objectId returned by a tool so list_object_handles can show it. */
+  trackObject(obj: RemoteObject | undefined, group: string, origin: string, targetId?: string): void {
+    if (!obj?.objectId) return;
+    this.objectHandles.track(obj.objectId, {
+      group,
+      origin,
+      targetId: targetId ?? this.targetId ?? undefined,
+      description: formatRemoteValue(obj),
+    });
+  }
+
+  // Objects handed out during a pause are only meant for that pause.
+  private releasePauseObjectGroups(targetId: string | undefined, sessionId: string | undefined): void {
+    for (const group of this.objectHandles.getPauseGroups(targetId)) {
+      this.objectHandles.removeGroup(group, targetId);
+      this.client.send('Runtime.releaseObjectGroup', { objectGroup: group }, sessionId).catch((e) => {
+        debug('releasing %s on %s failed: %s', group, targetId, e instanceof Error ? e.message : String(e));
+      });
+    }
   }
 
   // Network domain. Network capture is fanned out to every attached session
@@ -1165,22 +2747,40 @@ export class DebugSession extends EventEmitter {
   }
 
   // Fetch domain
-  async enableFetch(patterns?: Array<{ urlPattern?: string; resourceType?: string; requestStage?: string }>): Promise<void> {
+  // Fetch.enable goes to every attached session (and to sessions that attach
+  // later), so requests from workers and service workers are intercepted too.
+  async enableFetch(patterns?: FetchPattern[], options: { handleAuthRequests?: boolean } = {}): Promise<void> {
     const actualPatterns = patterns ?? this.fetchInterceptor.getCDPPatterns();
-    await this.client.send('Fetch.enable', {
-      patterns: actualPatterns.length > 0 ? actualPatterns : [{ urlPattern: '*', requestStage: 'Request' }],
-    });
+    const effective = actualPatterns.length > 0 ? actualPatterns : [{ urlPattern: '*', requestStage: 'Request' }];
+    // Re-enabling (e.g. after adding rules) keeps auth handling unless told otherwise.
+    const handleAuthRequests = options.handleAuthRequests ?? this.fetchHandleAuth;
+    await this.sendToAllSessions('Fetch.enable', { patterns: effective, handleAuthRequests });
+    this.fetchPatterns = effective;
+    this.fetchHandleAuth = handleAuthRequests;
     this.fetchInterceptor.setEnabled(true);
   }
 
+  isFetchHandlingAuth(): boolean {
+    return this.fetchPatterns !== null && this.fetchHandleAuth;
+  }
+
   async disableFetch(): Promise<void> {
-    await this.client.send('Fetch.disable');
+    this.fetchPatterns = null;
+    this.fetchHandleAuth = false;
+    await this.sendToAllSessions('Fetch.disable');
     this.fetchInterceptor.setEnabled(false);
   }
 
+  /** Session that paused the request: the given target, else the recorded owner. */
+  private fetchSessionFor(requestId: string, targetId?: string): { sessionId?: string; targetId?: string } {
+    const owner = targetId ?? this.fetchInterceptor.getPausedRequest(requestId)?.targetId;
+    return { sessionId: this.sendSessionFor(owner), targetId: owner };
+  }
+
   async continueRequest(
     requestId: string,
-    options: { url?: string; method?: string; postData?: string; headers?: Array<{ name: string; value: string }> } = {}
+    options: { url?: string; method?: string; postData?: string; headers?: Array<{ name: string; value: string }> } = {},
+    targetId?: string
   ): Promise<void> {
     const params: Record<string, unknown> = { requestId };
     if (options.url) params.url = options.url;
@@ -1188,14 +2788,16 @@ export class DebugSession extends EventEmitter {
     if (options.postData) params.postData = options.postData;
     if (options.headers) params.headers = options.headers;
 
-    await this.client.send('Fetch.continueRequest', params);
-    this.fetchInterceptor.removePausedRequest(requestId);
+    const owner = this.fetchSessionFor(requestId, targetId);
+    await this.client.send('Fetch.continueRequest', params, owner.sessionId);
+    this.fetchInterceptor.removePausedRequest(requestId, owner.targetId);
   }
 
   async fulfillRequest(
     requestId: string,
     responseCode: number,
-    options: { responseHeaders?: Array<{ name: string; value: string }>; body?: string; bodyBase64?: string; responsePhrase?: string } = {}
+    options: { responseHeaders?: Array<{ name: string; value: string }>; body?: string; bodyBase64?: string; responsePhrase?: string } = {},
+    targetId?: string
   ): Promise<void> {
     const params: Record<string, unknown> = { requestId, responseCode };
     if (options.responseHeaders) params.responseHeaders = options.responseHeaders;
@@ -1206,13 +2808,110 @@ export class DebugSession extends EventEmitter {
     }
     if (options.responsePhrase) params.responsePhrase = options.responsePhrase;
 
-    await this.client.send('Fetch.fulfillRequest', params);
-    this.fetchInterceptor.removePausedRequest(requestId);
+    const owner = this.fetchSessionFor(requestId, targetId);
+    await this.client.send('Fetch.fulfillRequest', params, owner.sessionId);
+    this.fetchInterceptor.removePausedRequest(requestId, owner.targetId);
+  }
+
+  async failRequest(requestId: string, errorReason: string, targetId?: string): Promise<void> {
+    const owner = this.fetchSessionFor(requestId, targetId);
+    await this.client.send('Fetch.failRequest', { requestId, errorReason }, owner.sessionId);
+    this.fetchInterceptor.removePausedRequest(requestId, owner.targetId);
   }
 
-  async failRequest(requestId: string, errorReason: string): Promise<void> {
-    await this.client.send('Fetch.failRequest', { requestId, errorReason });
-    this.fetchInterceptor.removePausedRequest(requestId);
+  /**
+   * Answer an auth challenge (Fetch.authRequired). 'Default' lets the browser
+   * handle it (usually a failed request in headless), 'CancelAuth' cancels it.
+   */
+  async continueWithAuth(
+    requestId: string,
+    response: 'Default' | 'CancelAuth' | 'ProvideCredentials',
+    credentials?: { username: string; password: string },
+    targetId?: string
+  ): Promise<void> {
+    const owner = targetId ?? this.fetchInterceptor.getAuthChallenge(requestId)?.targetId;
+    await this.client.send(
+      'Fetch.continueWithAuth',
+      { requestId, authChallengeResponse: { response, ...credentials } },
+      this.sendSessionFor(owner)
+    );
+    this.fetchInterceptor.removeAuthChallenge(requestId, owner);
+  }
+
+  // Body of a request paused at the Response stage.
+  async getInterceptedResponseBody(requestId: string, targetId?: string): Promise<{ body: string; base64Encoded: boolean }> {
+    return this.client.send<{ body: string; base64Encoded: boolean }>(
+      'Fetch.getResponseBody',
+      { requestId },
+      this.fetchSessionFor(requestId, targetId).sessionId
+    );
+  }
+
+  /**
+   * Rewrite a request paused at the Response stage: apply status, header and
+   * body edits to the real response and fulfill the request with the result.
+   */
+  async modifyInterceptedResponse(
+    requestId: string,
+    edits: ResponseEdits,
+    targetId?: string
+  ): Promise<{ status: number; bodyModified: boolean }> {
+    const paused = this.fetchInterceptor.getPausedRequest(requestId, targetId);
+    if (!paused || paused.stage !== 'Response') {
+      throw new Error(`Request ${requestId} is not paused at the Response stage`);
+    }
+    if (paused.responseErrorReason) {
+      throw new Error(`Response failed (${paused.responseErrorReason}); nothing to modify`);
+    }
+
+    const { body, base64Encoded } = await this.getInterceptedResponseBody(requestId, paused.targetId);
+    const bodyModified = this.fetchInterceptor.hasBodyEdits(edits);
+    const status = edits.status ?? paused.responseStatusCode ?? 200;
+    const responseHeaders = this.fetchInterceptor.buildEditedResponseHeaders(paused.responseHeaders ?? [], edits);
+
+    if (bodyModified) {
+      const text = this.fetchInterceptor.decodeTextBody(body, base64Encoded, paused.responseHeaders ?? []);
+      await this.fulfillRequest(requestId, status, {
+        responseHeaders,
+        bodyBase64: this.fetchInterceptor.encodeResponseBody(this.fetchInterceptor.rewriteResponseBody(text, edits)),
+      }, paused.targetId);
+    } else {
+      await this.fulfillRequest(requestId, status, {
+        responseHeaders,
+        bodyBase64: base64Encoded ? body : this.fetchInterceptor.encodeResponseBody(body),
+      }, paused.targetId);
+    }
+    return { status, bodyModified };
+  }
+
+  private async applyInterceptRule(request: PausedRequest, rule: InterceptRule): Promise<void> {
+    switch (rule.action) {
+      case 'modify':
+        if (request.stage === 'Response') {
+          await this.modifyInterceptedResponse(request.requestId, rule.responseEdits ?? {}, request.targetId);
+          break;
+        }
+        await this.continueRequest(request.requestId, {
+          url: rule.modifyUrl,
+          headers: rule.modifyHeaders
+            ? this.fetchInterceptor.buildModifiedHeaders(request.headers, rule.modifyHeaders)
+            : undefined,
+        }, request.targetId);
+        break;
+      case 'mock': {
+        const mock = rule.mockResponse ?? { status: 200, body: '' };
+        await this.fulfillRequest(request.requestId, mock.status, {
+          responseHeaders: mock.headers
+            ? this.fetchInterceptor.buildMockResponseHeaders(mock.headers)
+            : undefined,
+          ...(mock.base64Encoded ? { bodyBase64: mock.body } : { body: mock.body }),
+        }, request.targetId);
+        break;
+      }
+      case 'fail':
+        await this.failRequest(request.requestId, rule.failReason ?? 'Failed', request.targetId);
+        break;
+    }
   }
 
   // DOM domain
@@ -1523,6 +3222,38 @@ export class DebugSession extends EventEmitter {
   }
 }
 
+function buildBreakpointByUrlParams(
+  lineNumber: number,
+  url?: string,
+  urlRegex?: string,
+  columnNumber?: number,
+  condition?: string
+): Record<string, unknown> {
+  const params: Record<string, unknown> = { lineNumber };
+  if (url) params.url = url;
+  if (urlRegex) params.urlRegex = urlRegex;
+  if (columnNumber !== undefined) params.columnNumber = columnNumber;
+  if (condition) params.condition = condition;
+  return params;
+}
+
+// Class and message of a Debugger.paused exception / promiseRejection.
+function describeExceptionPause(
+  reason: string,
+  data: Record<string, unknown> | undefined
+): { className?: string; message: string; uncaught: boolean } {
+  const exception = (data ?? {}) as unknown as RemoteObject & { uncaught?: boolean };
+  const message = exception.subtype === 'error'
+    ? (exception.description ?? '').split('\n')[0]
+    : formatRemoteValue(exception);
+  return {
+    className: exception.className,
+    message,
+    // Unhandled rejections are uncaught by definition.
+    uncaught: reason === 'promiseRejection' || exception.uncaught === true,
+  };
+}
+
 function isAttachableWorkerType(type: string): boolean {
   return type === 'service_worker' || type === 'worker' || type === 'shared_worker';
 }
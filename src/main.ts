@@ -8,6 +8,9 @@ import { zodToJsonSchema } from 'zod-to-json-schema';
 import createDebug from 'debug';
 import { DebugSession } from './DebugSession.js';
 import { allTools, error as toolError } from './tools/index.js';
+import { setupEventForwarding } from './notifications.js';
+import { setupResources } from './resources.js';
+import { SERVER_NAME, SERVER_VERSION } from './version.js';
 
 const debug = createDebug('cdp:server');
 
@@ -16,12 +19,14 @@ export async function main(): Promise<void> {
 
   const server = new Server(
     {
-      name: 'chrome-devtools-debug-mcp',
-      version: '0.1.0',
+      name: SERVER_NAME,
+      version: SERVER_VERSION,
     },
     {
       capabilities: {
         tools: {},
+        logging: {},
+        resources: { subscribe: true, listChanged: true },
       },
     }
   );
@@ -64,26 +69,11 @@ export async function main(): Promise<void> {
     }
   });
 
-  // Setup event forwarding as notifications
-  session.on('paused', (data) => {
-    debug('Event: paused %o', data);
-  });
-
-  session.on('resumed', () => {
-    debug('Event: resumed');
-  });
-
-  session.on('scriptParsed', (data) => {
-    debug('Event: scriptParsed %s', data.url || data.scriptId);
-  });
-
-  session.on('consoleMessage', (data) => {
-    debug('Event: console.%s %s', data.type, data.text);
-  });
+  // Forward session events to the client as logging messages / notifications
+  setupEventForwarding(server, session);
 
-  session.on('requestPaused', (data) => {
-    debug('Event: requestPaused %s', data.url);
-  });
+  // Expose collected state (scripts, bodies, console, targets) as resources
+  setupResources(server, session);
 
   // Connect transport
   const transport = new StdioServerTransport();
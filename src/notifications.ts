@@ -0,0 +1,171 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import createDebug from 'debug';
+import type { DebugSession, AttachedSession } from './DebugSession.js';
+import type { EventKind } from './state/index.js';
+import type { CollectedConsoleMessage, CollectedException, PausedRequest, PendingAuthChallenge } from './state/index.js';
+import type { CallFrame } from './utils/types.js';
+
+const debug = createDebug('cdp:notify');
+
+export const CDP_EVENT_NOTIFICATION = 'notifications/cdp/event';
+
+const CONSOLE_TO_LOGGING_LEVEL: Record<string, LoggingLevel> = {
+  debug: 'debug',
+  log: 'info',
+  info: 'info',
+  warning: 'warning',
+  error: 'error',
+};
+
+/**
+ * Push DebugSession events to the MCP client, filtered by the session's
+ * EventSubscriptions. Delivery is an MCP logging message (subject to the
+ * client's logging/setLevel) and/or a custom notifications/cdp/event.
+ */
+export function setupEventForwarding(server: Server, session: DebugSession): void {
+  const forward = (kind: EventKind, level: LoggingLevel, data: Record<string, unknown>): void => {
+    const subscriptions = session.eventSubscriptions;
+    if (!subscriptions.isSubscribed(kind)) return;
+    const payload = { event: kind, ...data };
+    const delivery = subscriptions.getDelivery();
+
+    if (delivery === 'logging' || delivery === 'both') {
+      server.sendLoggingMessage({ level, logger: 'cdp', data: payload }).catch((err) => {
+        debug('sendLoggingMessage(%s) failed: %s', kind, err instanceof Error ? err.message : String(err));
+      });
+    }
+    if (delivery === 'notification' || delivery === 'both') {
+      server.notification({ method: CDP_EVENT_NOTIFICATION, params: payload }).catch((err) => {
+        debug('notification(%s) failed: %s', kind, err instanceof Error ? err.message : String(err));
+      });
+    }
+  };
+
+  session.on('paused', (data: { reason: string; callFrames: CallFrame[]; hitBreakpoints?: string[]; targetId?: string }) => {
+    debug('Event: paused %o', data);
+    const top = data.callFrames[0];
+    forward('pause', 'notice', {
+      targetId: data.targetId,
+      reason: data.reason,
+      hitBreakpoints: data.hitBreakpoints,
+      topFrame: top ? {
+        functionName: top.functionName || '(anonymous)',
+        url: top.url,
+        lineNumber: top.location.lineNumber,
+        columnNumber: top.location.columnNumber,
+      } : undefined,
+    });
+  });
+
+  session.on('resumed', (data: { targetId?: string }) => {
+    debug('Event: resumed');
+    forward('resume', 'info', { targetId: data?.targetId });
+  });
+
+  session.on('scriptParsed', (data: { scriptId: string; url: string; targetId?: string }) => {
+    debug('Event: scriptParsed %s', data.url || data.scriptId);
+    forward('scriptParsed', 'debug', { scriptId: data.scriptId, url: data.url, targetId: data.targetId });
+  });
+
+  session.on('consoleMessage', (data: CollectedConsoleMessage) => {
+    debug('Event: console.%s %s', data.type, data.text);
+    if (!session.eventSubscriptions.shouldForwardConsole(data.level)) return;
+    forward('console', CONSOLE_TO_LOGGING_LEVEL[data.level] ?? 'info', {
+      id: data.id,
+      type: data.type,
+      level: data.level,
+      text: data.text,
+      url: data.url,
+      line: data.line,
+      targetId: data.targetId,
+    });
+  });
+
+  session.on('exceptionThrown', (data: CollectedException) => {
+    debug('Event: exception %s', data.details.text);
+    forward('exception', 'error', {
+      id: data.id,
+      text: data.details.exception?.description ?? data.details.text,
+      url: data.details.url,
+      lineNumber: data.details.lineNumber,
+      columnNumber: data.details.columnNumber,
+    });
+  });
+
+  session.on('requestPaused', (data: PausedRequest) => {
+    debug('Event: requestPaused %s', data.url);
+    forward('requestPaused', 'notice', {
+      requestId: data.requestId,
+      targetId: data.targetId,
+      url: data.url,
+      method: data.method,
+      resourceType: data.resourceType,
+      matchedRuleId: data.matchedRule?.id,
+    });
+  });
+
+  session.on('authRequired', (data: PendingAuthChallenge) => {
+    debug('Event: authRequired %s', data.url);
+    forward('authRequired', 'notice', {
+      requestId: data.requestId,
+      targetId: data.targetId,
+      url: data.url,
+      source: data.challenge.source,
+      origin: data.challenge.origin,
+      scheme: data.challenge.scheme,
+      realm: data.challenge.realm,
+      credentialsRejected: data.credentialsRejected,
+    });
+  });
+
+  session.on('loadingFailed', (data: { requestId: string; errorText: string; canceled?: boolean }, targetId: string) => {
+    const req = session.networkState.getRequest(data.requestId, targetId);
+    forward('requestFailed', 'warning', {
+      requestId: data.requestId,
+      targetId,
+      url: req?.url,
+      method: req?.method,
+      errorText: data.errorText,
+      canceled: data.canceled,
+    });
+  });
+
+  session.on('responseReceived', (data: { requestId: string; response: { url: string; status: number; statusText: string } }, targetId: string) => {
+    if (data.response.status < 400) return;
+    forward('requestFailed', 'warning', {
+      requestId: data.requestId,
+      targetId,
+      url: data.response.url,
+      status: data.response.status,
+      statusText: data.response.statusText,
+    });
+  });
+
+  session.on('logpointHit', (data: { breakpointId?: string; targetId?: string; message: string; callFrames: string[] }) => {
+    forward('logpoint', 'info', {
+      breakpointId: data.breakpointId,
+      targetId: data.targetId,
+      message: data.message,
+      location: data.callFrames[0],
+    });
+  });
+
+  session.on('dialogOpened', (data: { url: string; message: string; type: string; defaultPrompt?: string }) => {
+    debug('Event: dialog %s', data.type);
+    forward('dialog', 'notice', {
+      type: data.type,
+      message: data.message,
+      url: data.url,
+      defaultPrompt: data.defaultPrompt,
+    });
+  });
+
+  session.on('sessionAttached', (data: AttachedSession) => {
+    forward('targetAttached', 'info', { targetId: data.targetId, type: data.type, url: data.url, title: data.title });
+  });
+
+  session.on('sessionDetached', (data: AttachedSession) => {
+    forward('targetDetached', 'info', { targetId: data.targetId, type: data.type, url: data.url });
+  });
+}
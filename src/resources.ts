@@ -0,0 +1,232 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  McpError,
+  ErrorCode,
+  type Resource,
+  type ReadResourceResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import createDebug from 'debug';
+import type { DebugSession } from './DebugSession.js';
+import {
+  CONSOLE_URI,
+  EXCEPTIONS_URI,
+  LOG_URI,
+  TARGETS_URI,
+  NETWORK_URI,
+  SCRIPT_URI_TEMPLATE,
+  RESPONSE_BODY_URI_TEMPLATE,
+  scriptUri,
+  responseBodyUri,
+  parseResourceUri,
+} from './utils/resource-uri.js';
+
+const debug = createDebug('cdp:resources');
+
+// Coalesce bursts of events (script parsing on load, console spam) into a
+// single notification per URI.
+const NOTIFY_DELAY_MS = 100;
+
+const STATIC_RESOURCES: Resource[] = [
+  { uri: CONSOLE_URI, name: 'Console messages', mimeType: 'application/json' },
+  { uri: EXCEPTIONS_URI, name: 'Uncaught exceptions', mimeType: 'application/json' },
+  { uri: LOG_URI, name: 'Browser log entries', mimeType: 'application/json' },
+  { uri: TARGETS_URI, name: 'Attached targets', mimeType: 'application/json' },
+  { uri: NETWORK_URI, name: 'Network requests', mimeType: 'application/json' },
+];
+
+/**
+ * Expose collected session state as MCP resources: console, exceptions, log,
+ * targets and network summaries, plus script sources and response bodies.
+ * Subscribed URIs get notifications/resources/updated when their data
+ * changes; script and request additions trigger resources/list_changed.
+ */
+export function setupResources(server: Server, session: DebugSession): void {
+  const subscriptions = new Set<string>();
+  const pendingUpdates = new Set<string>();
+  let pendingListChanged = false;
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = (): void => {
+    flushTimer = null;
+    for (const uri of pendingUpdates) {
+      server.sendResourceUpdated({ uri }).catch((err) => {
+        debug('sendResourceUpdated(%s) failed: %s', uri, err instanceof Error ? err.message : String(err));
+      });
+    }
+    pendingUpdates.clear();
+    if (pendingListChanged) {
+      pendingListChanged = false;
+      server.sendResourceListChanged().catch((err) => {
+        debug('sendResourceListChanged failed: %s', err instanceof Error ? err.message : String(err));
+      });
+    }
+  };
+
+  const schedule = (): void => {
+    if (flushTimer) return;
+    flushTimer = setTimeout(flush, NOTIFY_DELAY_MS);
+    flushTimer.unref();
+  };
+
+  const updated = (uri: string): void => {
+    if (!subscriptions.has(uri)) return;
+    pendingUpdates.add(uri);
+    schedule();
+  };
+
+  const listChanged = (): void => {
+    pendingListChanged = true;
+    schedule();
+  };
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const resources: Resource[] = [...STATIC_RESOURCES];
+
+    for (const script of session.scriptRegistry.getAllScripts()) {
+      resources.push({
+        uri: scriptUri(script.scriptId, script.targetId),
+        name: script.url || `(anonymous script ${script.scriptId})`,
+        mimeType: 'text/javascript',
+      });
+    }
+
+    for (const req of session.networkState.getAllRequests()) {
+      if (req.isWebSocket || req.failed || req.endTime === undefined) continue;
+      resources.push({
+        uri: responseBodyUri(req.targetId, req.requestId),
+        name: `${req.method} ${req.url}`,
+        mimeType: req.mimeType,
+      });
+    }
+
+    return { resources };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      { uriTemplate: SCRIPT_URI_TEMPLATE, name: 'Script source', mimeType: 'text/javascript' },
+      { uriTemplate: RESPONSE_BODY_URI_TEMPLATE, name: 'Response body' },
+    ],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return readResource(session, request.params.uri);
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (!parseResourceUri(uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+    subscriptions.add(uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  session.on('consoleMessage', () => updated(CONSOLE_URI));
+  session.on('exceptionThrown', () => updated(EXCEPTIONS_URI));
+  session.on('exceptionRevoked', () => updated(EXCEPTIONS_URI));
+  session.on('logEntry', () => updated(LOG_URI));
+  session.on('scriptParsed', () => listChanged());
+  session.on('requestWillBeSent', () => updated(NETWORK_URI));
+  session.on('loadingFinished', () => {
+    updated(NETWORK_URI);
+    listChanged();
+  });
+  session.on('loadingFailed', () => updated(NETWORK_URI));
+  session.on('sessionAttached', () => {
+    updated(TARGETS_URI);
+    listChanged();
+  });
+  session.on('sessionDetached', () => {
+    updated(TARGETS_URI);
+    listChanged();
+  });
+  session.on('disconnected', () => listChanged());
+}
+
+async function readResource(session: DebugSession, uri: string): Promise<ReadResourceResult> {
+  const ref = parseResourceUri(uri);
+  if (!ref) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  }
+
+  const json = (data: unknown): ReadResourceResult => ({
+    contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }],
+  });
+
+  switch (ref.kind) {
+    case 'console':
+      return json(session.consoleState.getMessages());
+
+    case 'exceptions':
+      return json(session.consoleState.getExceptions());
+
+    case 'log':
+      return json(session.getLogEntries());
+
+    case 'targets':
+      return json({
+        currentTargetId: session.getCurrentTargetId(),
+        targets: session.getAttachedSessions().map((s) => ({
+          targetId: s.targetId,
+          type: s.type,
+          url: s.url,
+          title: s.title,
+        })),
+      });
+
+    case 'network':
+      return json(
+        session.networkState.getAllRequests().map((r) => ({
+          requestId: r.requestId,
+          targetId: r.targetId,
+          method: r.method,
+          url: r.url,
+          resourceType: r.resourceType,
+          status: r.status,
+          failed: r.failed,
+          errorText: r.errorText,
+          duration: r.duration,
+          bodyUri: r.isWebSocket || r.failed ? undefined : responseBodyUri(r.targetId, r.requestId),
+        }))
+      );
+
+    case 'script': {
+      const script = session.scriptRegistry.getScript(ref.scriptId, ref.targetId);
+      if (!script) {
+        throw new McpError(ErrorCode.InvalidParams, `Script not found: ${ref.scriptId}`);
+      }
+      const source = await session.getScriptSource(ref.scriptId, script.targetId);
+      return { contents: [{ uri, mimeType: 'text/javascript', text: source }] };
+    }
+
+    case 'responseBody': {
+      const req = session.networkState.getRequest(ref.requestId, ref.targetId);
+      if (!req) {
+        throw new McpError(ErrorCode.InvalidParams, `Request not found: ${ref.requestId}`);
+      }
+      let body = req.responseBody;
+      let base64Encoded = req.responseBodyBase64 ?? false;
+      if (body === undefined) {
+        ({ body, base64Encoded } = await session.getResponseBody(ref.requestId, ref.targetId));
+      }
+      return {
+        contents: [
+          base64Encoded
+            ? { uri, mimeType: req.mimeType, blob: body }
+            : { uri, mimeType: req.mimeType, text: body },
+        ],
+      };
+    }
+  }
+}
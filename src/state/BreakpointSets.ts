@@ -0,0 +1,107 @@
+// Named, connection-independent breakpoint definitions. Unlike DebugState
+// breakpoints these survive disconnects and target switches; sets marked
+// autoApply are re-created whenever the debugger is enabled.
+
+export interface BreakpointDefinition {
+  url?: string;
+  urlRegex?: string;
+  lineNumber: number;
+  columnNumber?: number;
+  condition?: string;
+  // Hit count condition as written by the user ("5", "%3", ">=10").
+  hitCondition?: string;
+  // Present for logpoints: the message template.
+  logMessage?: string;
+  enabled?: boolean;
+}
+
+export interface BreakpointSet {
+  name: string;
+  breakpoints: BreakpointDefinition[];
+  autoApply: boolean;
+}
+
+// On-disk format of save_breakpoint_set / load_breakpoint_sets.
+export interface BreakpointSetFile {
+  version: 1;
+  sets: BreakpointSet[];
+}
+
+export class BreakpointSets {
+  private sets = new Map<string, BreakpointSet>();
+
+  save(name: string, breakpoints: BreakpointDefinition[], autoApply = true): BreakpointSet {
+    const set: BreakpointSet = { name, breakpoints, autoApply };
+    this.sets.set(name, set);
+    return set;
+  }
+
+  get(name: string): BreakpointSet | undefined {
+    return this.sets.get(name);
+  }
+
+  getAll(): BreakpointSet[] {
+    return Array.from(this.sets.values());
+  }
+
+  getAutoApplied(): BreakpointSet[] {
+    return this.getAll().filter((s) => s.autoApply);
+  }
+
+  setAutoApply(name: string, autoApply: boolean): boolean {
+    const set = this.sets.get(name);
+    if (!set) return false;
+    set.autoApply = autoApply;
+    return true;
+  }
+
+  remove(name: string): boolean {
+    return this.sets.delete(name);
+  }
+
+  toFile(names?: string[]): BreakpointSetFile {
+    const sets = names ? names.map((n) => this.requireSet(n)) : this.getAll();
+    return { version: 1, sets };
+  }
+
+  private requireSet(name: string): BreakpointSet {
+    const set = this.sets.get(name);
+    if (!set) {
+      throw new Error(`Breakpoint set ${name} not found`);
+    }
+    return set;
+  }
+}
+
+/** Parse and validate the contents of a breakpoint set file. */
+export function parseBreakpointSetFile(text: string): BreakpointSetFile {
+  const file = JSON.parse(text) as Partial<BreakpointSetFile>;
+  if (file?.version !== 1 || !Array.isArray(file.sets)) {
+    throw new Error('Invalid breakpoint set file: expected { "version": 1, "sets": [...] }');
+  }
+  for (const set of file.sets) {
+    if (typeof set?.name !== 'string' || !Array.isArray(set.breakpoints)) {
+      throw new Error('Invalid breakpoint set file: every set needs a name and a breakpoints array');
+    }
+    for (const bp of set.breakpoints) {
+      if (typeof bp?.lineNumber !== 'number' || (!bp.url && !bp.urlRegex)) {
+        throw new Error(`Invalid breakpoint in set ${set.name}: lineNumber and url or urlRegex are required`);
+      }
+    }
+    set.autoApply = set.autoApply ?? true;
+  }
+  return file as BreakpointSetFile;
+}
+
+// Identity of a definition's location and behavior, for skipping
+// breakpoints that are already set when a set is applied again.
+export function breakpointDefinitionKey(def: BreakpointDefinition): string {
+  return JSON.stringify([
+    def.url ?? null,
+    def.urlRegex ?? null,
+    def.lineNumber,
+    def.columnNumber ?? null,
+    def.condition ?? null,
+    def.logMessage ?? null,
+  ]);
+}
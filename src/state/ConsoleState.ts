@@ -1,4 +1,13 @@
 import type { ConsoleMessage, RemoteObject, StackTrace, ExceptionDetails } from '../utils/types.js';
+import {
+  formatConsoleArgs,
+  consoleTableFromPreview,
+  parseCountMessage,
+  parseTimerMessage,
+  type ConsoleTable,
+} from '../utils/console-format.js';
+import { exceptionFingerprint, exceptionMessage, exceptionTopFrames } from '../utils/exception-fingerprint.js';
+import { urlPatternToRegex } from '../utils/url-pattern.js';
 
 export interface CollectedConsoleMessage {
   id: number;
@@ -12,12 +21,78 @@ export interface CollectedConsoleMessage {
   stackTrace?: StackTrace;
   timestamp: number;
   executionContextId?: number;
+  // Target (page / worker / service worker) whose session logged it.
+  targetId?: string;
+  // console.group nesting level; 0 at top level.
+  groupDepth: number;
+  // console.table data.
+  table?: ConsoleTable;
 }
 
 export interface CollectedException {
   id: number;
   timestamp: number;
   details: ExceptionDetails;
+  targetId?: string;
+  fingerprint: string;
+  // Set by Runtime.exceptionRevoked: a rejection that was handled later.
+  revoked?: boolean;
+}
+
+// Occurrences of one exception fingerprint.
+export interface ExceptionGroup {
+  fingerprint: string;
+  message: string;
+  topFrames: string[];
+  count: number;
+  // Occurrences later revoked (promise rejections that got a handler).
+  revokedCount: number;
+  firstSeen: number;
+  lastSeen: number;
+  targets: string[];
+  // Id of the last sample kept in the exception list. Only the first
+  // MAX_SAMPLES_PER_GROUP occurrences are kept, so this can be older than
+  // lastSeen.
+  lastSampleId: number;
+}
+
+// Occurrences of one fingerprint kept as individual exceptions; the rest
+// only count towards the group, so a loop can't flood the list.
+const MAX_SAMPLES_PER_GROUP = 5;
+// Exceptions that can still be revoked, remembered by CDP exceptionId.
+const MAX_REVOCABLE = 1000;
+
+export interface ConsoleMessageFilter {
+  levels?: string[];
+  types?: string[];
+  // Regex over the message text.
+  textPattern?: string;
+  caseSensitive?: boolean;
+  // Glob or /regex/ over the URL of the logging script.
+  urlPattern?: string;
+  executionContextId?: number;
+  targetId?: string;
+  // Timestamps in ms since the epoch, inclusive.
+  since?: number;
+  until?: number;
+  // Cursor: only messages with a greater id.
+  afterId?: number;
+}
+
+// console.count totals and console.time* statistics, per label.
+export interface ConsoleCounter {
+  label: string;
+  count: number;
+  targetId?: string;
+}
+
+export interface ConsoleTimer {
+  label: string;
+  calls: number;
+  totalMs: number;
+  maxMs: number;
+  lastMs: number;
+  targetId?: string;
 }
 
 export class ConsoleState {
@@ -27,6 +102,13 @@ export class ConsoleState {
   private maxMessages = 1000;
   private messageIdCounter = 0;
   private exceptionIdCounter = 0;
+  // console.group depth per target ('' for the root session).
+  private groupDepths = new Map<string, number>();
+  private counters = new Map<string, ConsoleCounter>();
+  private timers = new Map<string, ConsoleTimer>();
+  private exceptionGroups = new Map<string, ExceptionGroup>();
+  // `${targetId}:${exceptionId}` -> fingerprint (and the stored sample, if any).
+  private revocable = new Map<string, { fingerprint: string; exception?: CollectedException }>();
 
   setEnabled(enabled: boolean): void {
     this.enabled = enabled;
@@ -46,17 +128,9 @@ export class ConsoleState {
     executionContextId: number;
     timestamp: number;
     stackTrace?: StackTrace;
+    targetId?: string;
   }): CollectedConsoleMessage {
-    // Convert args to text
-    const text = params.args
-      .map((arg) => {
-        if (arg.type === 'string') return arg.value as string;
-        if (arg.type === 'undefined') return 'undefined';
-        if (arg.value !== undefined) return String(arg.value);
-        if (arg.description) return arg.description;
-        return `[${arg.type}]`;
-      })
-      .join(' ');
+    const text = formatConsoleArgs(params.args);
 
     const msg: CollectedConsoleMessage = {
       id: ++this.messageIdCounter,
@@ -67,6 +141,8 @@ export class ConsoleState {
       stackTrace: params.stackTrace,
       timestamp: params.timestamp,
       executionContextId: params.executionContextId,
+      targetId: params.targetId,
+      groupDepth: this.trackGroup(params.type, params.targetId),
     };
 
     // Extract location from stack trace
@@ -77,24 +153,111 @@ export class ConsoleState {
       msg.column = frame.columnNumber;
     }
 
+    if (params.type === 'table' && params.args[0]) {
+      msg.table = consoleTableFromPreview(params.args[0], params.args[1]);
+    } else if (params.type === 'count') {
+      this.recordCount(text, params.targetId);
+    } else if (params.type === 'timeEnd' || params.type === 'timeLog') {
+      this.recordTimer(text, params.targetId);
+    }
+
     this.addMessage(msg);
     return msg;
   }
 
+  // Depth of this message; groups nest the messages that follow them.
+  private trackGroup(type: string, targetId?: string): number {
+    const key = targetId ?? '';
+    const depth = this.groupDepths.get(key) ?? 0;
+    if (type === 'startGroup' || type === 'startGroupCollapsed') {
+      this.groupDepths.set(key, depth + 1);
+      return depth;
+    }
+    if (type === 'endGroup') {
+      const closed = Math.max(0, depth - 1);
+      this.groupDepths.set(key, closed);
+      return closed;
+    }
+    return depth;
+  }
+
+  private recordCount(text: string, targetId?: string): void {
+    const parsed = parseCountMessage(text);
+    if (!parsed) return;
+    // The page keeps the running total; the latest value is the count.
+    this.counters.set(`${targetId ?? ''}:${parsed.label}`, { label: parsed.label, count: parsed.count, targetId });
+  }
+
+  private recordTimer(text: string, targetId?: string): void {
+    const parsed = parseTimerMessage(text);
+    if (!parsed) return;
+    const key = `${targetId ?? ''}:${parsed.label}`;
+    const timer = this.timers.get(key) ?? { label: parsed.label, calls: 0, totalMs: 0, maxMs: 0, lastMs: 0, targetId };
+    timer.calls++;
+    timer.totalMs += parsed.ms;
+    timer.maxMs = Math.max(timer.maxMs, parsed.ms);
+    timer.lastMs = parsed.ms;
+    this.timers.set(key, timer);
+  }
+
   onExceptionThrown(params: {
     timestamp: number;
     exceptionDetails: ExceptionDetails;
+    targetId?: string;
   }): CollectedException {
+    const fingerprint = exceptionFingerprint(params.exceptionDetails);
     const exc: CollectedException = {
       id: ++this.exceptionIdCounter,
       timestamp: params.timestamp,
       details: params.exceptionDetails,
+      targetId: params.targetId,
+      fingerprint,
     };
 
-    this.addException(exc);
+    let group = this.exceptionGroups.get(fingerprint);
+    if (!group) {
+      group = {
+        fingerprint,
+        message: exceptionMessage(params.exceptionDetails),
+        topFrames: exceptionTopFrames(params.exceptionDetails),
+        count: 0,
+        revokedCount: 0,
+        firstSeen: params.timestamp,
+        lastSeen: params.timestamp,
+        targets: [],
+        lastSampleId: exc.id,
+      };
+      this.exceptionGroups.set(fingerprint, group);
+    }
+    group.count++;
+    group.lastSeen = params.timestamp;
+    const target = params.targetId ?? '';
+    if (!group.targets.includes(target)) group.targets.push(target);
+
+    const stored = group.count <= MAX_SAMPLES_PER_GROUP;
+    if (stored) {
+      group.lastSampleId = exc.id;
+      this.addException(exc);
+    }
+    this.revocable.set(`${target}:${params.exceptionDetails.exceptionId}`, { fingerprint, exception: stored ? exc : undefined });
+    if (this.revocable.size > MAX_REVOCABLE) {
+      this.revocable.delete(this.revocable.keys().next().value!);
+    }
     return exc;
   }
 
+  /** Runtime.exceptionRevoked: an unhandled rejection got handled after all. */
+  onExceptionRevoked(params: { exceptionId: number; reason?: string; targetId?: string }): CollectedException | undefined {
+    const key = `${params.targetId ?? ''}:${params.exceptionId}`;
+    const entry = this.revocable.get(key);
+    if (!entry) return undefined;
+    this.revocable.delete(key);
+    const group = this.exceptionGroups.get(entry.fingerprint);
+    if (group) group.revokedCount++;
+    if (entry.exception) entry.exception.revoked = true;
+    return entry.exception;
+  }
+
   private typeToLevel(type: string): string {
     switch (type) {
       case 'error':
@@ -140,6 +303,35 @@ export class ConsoleState {
     return this.messages.filter((m) => m.type === type);
   }
 
+  /** Messages matching every given criterion, oldest first. */
+  queryMessages(filter: ConsoleMessageFilter = {}): CollectedConsoleMessage[] {
+    const text = filter.textPattern !== undefined ? new RegExp(filter.textPattern, filter.caseSensitive ? '' : 'i') : undefined;
+    const url = filter.urlPattern !== undefined ? urlPatternToRegex(filter.urlPattern) : undefined;
+    return this.messages.filter((m) =>
+      (filter.afterId === undefined || m.id > filter.afterId) &&
+      (!filter.levels?.length || filter.levels.includes(m.level)) &&
+      (!filter.types?.length || filter.types.includes(m.type)) &&
+      (!text || text.test(m.text)) &&
+      (!url || (m.url !== undefined && url.test(m.url))) &&
+      (filter.executionContextId === undefined || m.executionContextId === filter.executionContextId) &&
+      (filter.targetId === undefined || m.targetId === filter.targetId) &&
+      (filter.since === undefined || m.timestamp >= filter.since) &&
+      (filter.until === undefined || m.timestamp <= filter.until)
+    );
+  }
+
+  getLastMessageId(): number {
+    return this.messageIdCounter;
+  }
+
+  getCounters(): ConsoleCounter[] {
+    return Array.from(this.counters.values());
+  }
+
+  getTimers(): ConsoleTimer[] {
+    return Array.from(this.timers.values());
+  }
+
   getErrors(): CollectedConsoleMessage[] {
     return this.getMessagesByLevel('error');
   }
@@ -152,6 +344,13 @@ export class ConsoleState {
     return [...this.exceptions];
   }
 
+  /** Exception groups, most frequent first. */
+  getExceptionGroups(): ExceptionGroup[] {
+    return Array.from(this.exceptionGroups.values())
+      .map((g) => ({ ...g, targets: [...g.targets] }))
+      .sort((a, b) => b.count - a.count || b.lastSeen - a.lastSeen);
+  }
+
   getMessageCount(): number {
     return this.messages.length;
   }
@@ -163,6 +362,11 @@ export class ConsoleState {
   clear(): void {
     this.messages = [];
     this.exceptions = [];
+    this.groupDepths.clear();
+    this.counters.clear();
+    this.timers.clear();
+    this.exceptionGroups.clear();
+    this.revocable.clear();
   }
 
   setMaxMessages(max: number): void {
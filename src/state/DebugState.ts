@@ -1,7 +1,10 @@
-import type { CallFrame, Location, BreakpointInfo, ExceptionDetails } from '../utils/types.js';
+import type { CallFrame, Location, BreakpointInfo } from '../utils/types.js';
+import { urlPatternToRegex } from '../utils/url-pattern.js';
 
 export interface PauseState {
   isPaused: boolean;
+  // Target (page / worker / service worker) whose thread is paused.
+  targetId?: string;
   reason?: string;
   callFrames?: CallFrame[];
   data?: Record<string, unknown>;
@@ -18,18 +21,130 @@ export interface ManagedBreakpoint {
   columnNumber?: number;
   condition?: string;
   locations: Location[];
+  // Disabled breakpoints are removed from CDP; targetBreakpointIds keeps the
+  // IDs they last had.
   enabled: boolean;
+  // Times the breakpoint paused execution (its condition held), including
+  // pauses skipped by the hit condition.
+  hitCount?: number;
+  hitCondition?: HitCondition;
+  // CDP breakpointId per targetId for breakpoints fanned out to attached
+  // sessions. The managed `id` is the one returned by the first session.
+  targetBreakpointIds?: Record<string, string>;
+  // Set for Debugger.setBreakpointOnFunctionCall breakpoints: the expression
+  // that evaluated to the function. lineNumber is then the function's start.
+  functionExpression?: string;
+  // Set when the breakpoint was placed through a source map.
+  originalLocation?: { source: string; lineNumber: number; columnNumber?: number };
 }
 
 export type PauseOnExceptionsState = 'none' | 'uncaught' | 'all';
 
+// Narrows exception pauses: a pause stands when any filter matches (or none
+// are set). Every field given must match. Class and message are regexes; the
+// URL of the throwing script is a glob or /regex/ like other URL patterns.
+export interface ExceptionFilter {
+  classPattern?: string;
+  messagePattern?: string;
+  urlPattern?: string;
+  caught?: 'caught' | 'uncaught' | 'any';
+}
+
+// What an exception pause is matched against.
+export interface ExceptionCandidate {
+  className?: string;
+  message: string;
+  url?: string;
+  uncaught: boolean;
+}
+
+// An exception that paused execution, kept in a bounded history.
+export interface CapturedException extends ExceptionCandidate {
+  id: number;
+  timestamp: number;
+  targetId?: string;
+  // 'exception' or 'promiseRejection'.
+  reason: string;
+  // False when the filters resumed the pause.
+  paused: boolean;
+  frames: Array<{ functionName: string; url: string; lineNumber: number; columnNumber: number }>;
+  // Locals of the top frame, filled in after the pause is recorded.
+  variables?: Record<string, string>;
+}
+
+const DEFAULT_MAX_EXCEPTION_HISTORY = 50;
+
+/** Validate an exception filter's patterns, throwing on a bad regex. */
+export function validateExceptionFilter(filter: ExceptionFilter): void {
+  if (filter.classPattern !== undefined) new RegExp(filter.classPattern);
+  if (filter.messagePattern !== undefined) new RegExp(filter.messagePattern);
+  if (filter.urlPattern !== undefined) urlPatternToRegex(filter.urlPattern);
+}
+
+export function exceptionMatchesFilter(filter: ExceptionFilter, exception: ExceptionCandidate): boolean {
+  if (filter.caught === 'caught' && exception.uncaught) return false;
+  if (filter.caught === 'uncaught' && !exception.uncaught) return false;
+  if (filter.classPattern !== undefined && !new RegExp(filter.classPattern).test(exception.className ?? '')) return false;
+  if (filter.messagePattern !== undefined && !new RegExp(filter.messagePattern).test(exception.message)) return false;
+  if (filter.urlPattern !== undefined && !urlPatternToRegex(filter.urlPattern).test(exception.url ?? '')) return false;
+  return true;
+}
+
+// Pause on the Nth hit ('=='), every Nth hit ('%'), or once more than /
+// at least N hits happened ('>', '>=').
+export interface HitCondition {
+  op: '==' | '%' | '>' | '>=';
+  count: number;
+}
+
+/** Parse a hit condition like `5`, `==5`, `%3`, `>10` or `>=10`. */
+export function parseHitCondition(expression: string): HitCondition {
+  const match = /^\s*(==|%|>=|>)?\s*(\d+)\s*$/.exec(expression);
+  if (!match) {
+    throw new Error(`Invalid hit condition: ${expression} (expected N, ==N, %N, >N or >=N)`);
+  }
+  const count = Number(match[2]);
+  const op = (match[1] ?? '==') as HitCondition['op'];
+  if (op === '%' && count === 0) {
+    throw new Error('Hit condition %0 is not allowed');
+  }
+  return { op, count };
+}
+
+export function formatHitCondition(condition: HitCondition): string {
+  return `${condition.op}${condition.count}`;
+}
+
+function hitConditionMet(condition: HitCondition | undefined, hitCount: number): boolean {
+  if (!condition) return true;
+  switch (condition.op) {
+    case '==':
+      return hitCount === condition.count;
+    case '%':
+      return hitCount % condition.count === 0;
+    case '>':
+      return hitCount > condition.count;
+    case '>=':
+      return hitCount >= condition.count;
+  }
+}
+
 export class DebugState {
-  private pauseState: PauseState = { isPaused: false };
+  // Pause state per targetId. Insertion order is kept so the last entry is
+  // the most recently paused target, which is the default for queries that
+  // don't name a target. Unnamed targets (raw connect) use the '' key.
+  private pauseStates = new Map<string, PauseState>();
   private breakpoints = new Map<string, ManagedBreakpoint>();
   private pauseOnExceptions: PauseOnExceptionsState = 'none';
   private enabled = false;
+  // Debugger.setBreakpointsActive; false skips every breakpoint.
+  private breakpointsActive = true;
   private asyncStackTraceDepth = 0;
-  private lastException: ExceptionDetails | null = null;
+  private exceptionFilters: ExceptionFilter[] = [];
+  // Oldest first; the last entry is the most recent exception.
+  private exceptionHistory: CapturedException[] = [];
+  private maxExceptionHistory = DEFAULT_MAX_EXCEPTION_HISTORY;
+  private nextExceptionId = 1;
 
   // Pause state management
   setPaused(
@@ -37,44 +152,68 @@ export class DebugState {
     callFrames: CallFrame[],
     data?: Record<string, unknown>,
     asyncStackTrace?: unknown,
-    hitBreakpoints?: string[]
+    hitBreakpoints?: string[],
+    targetId?: string
   ): void {
-    this.pauseState = {
+    const key = targetId ?? '';
+    this.pauseStates.delete(key);
+    this.pauseStates.set(key, {
       isPaused: true,
+      targetId,
       reason,
       callFrames,
       data,
       asyncStackTrace,
       hitBreakpoints,
-    };
+    });
   }
 
-  setResumed(): void {
-    this.pauseState = { isPaused: false };
+  // Without a targetId every target is considered resumed.
+  setResumed(targetId?: string): void {
+    if (targetId === undefined) {
+      this.pauseStates.clear();
+      return;
+    }
+    this.pauseStates.delete(targetId);
   }
 
-  getPauseState(): PauseState {
-    return { ...this.pauseState };
+  getPauseState(targetId?: string): PauseState {
+    const state = this.findPauseState(targetId);
+    return state ? { ...state } : { isPaused: false, targetId };
   }
 
-  isPaused(): boolean {
-    return this.pauseState.isPaused;
+  isPaused(targetId?: string): boolean {
+    return this.findPauseState(targetId) !== undefined;
   }
 
-  getCallFrames(): CallFrame[] {
-    return this.pauseState.callFrames ?? [];
+  getPausedTargets(): PauseState[] {
+    return Array.from(this.pauseStates.values()).map((s) => ({ ...s }));
   }
 
-  getCallFrame(index: number): CallFrame | undefined {
-    return this.pauseState.callFrames?.[index];
+  getCallFrames(targetId?: string): CallFrame[] {
+    return this.findPauseState(targetId)?.callFrames ?? [];
   }
 
-  getTopCallFrame(): CallFrame | undefined {
-    return this.pauseState.callFrames?.[0];
+  getCallFrame(index: number, targetId?: string): CallFrame | undefined {
+    return this.findPauseState(targetId)?.callFrames?.[index];
+  }
+
+  getTopCallFrame(targetId?: string): CallFrame | undefined {
+    return this.findPauseState(targetId)?.callFrames?.[0];
+  }
+
+  private findPauseState(targetId?: string): PauseState | undefined {
+    if (targetId !== undefined) {
+      return this.pauseStates.get(targetId);
+    }
+    let last: PauseState | undefined;
+    for (const state of this.pauseStates.values()) last = state;
+    return last;
   }
 
   // Breakpoint management
   addBreakpoint(breakpoint: ManagedBreakpoint): void {
+    breakpoint.hitCount ??= 0;
     this.breakpoints.set(breakpoint.id, breakpoint);
   }
 
@@ -97,6 +236,25 @@ export class DebugState {
     }
   }
 
+  // Find the managed breakpoint that owns a CDP breakpointId on a given target.
+  findBreakpointForTarget(targetId: string, cdpBreakpointId: string): ManagedBreakpoint | undefined {
+    for (const bp of this.breakpoints.values()) {
+      if (bp.targetBreakpointIds?.[targetId] === cdpBreakpointId) return bp;
+    }
+    return this.breakpoints.get(cdpBreakpointId);
+  }
+
+  // Record a breakpoint resolved on one target without dropping the locations
+  // already resolved on the others.
+  addBreakpointLocation(breakpointId: string, location: Location): void {
+    const bp = this.breakpoints.get(breakpointId);
+    if (!bp) return;
+    const exists = bp.locations.some(
+      (l) => l.scriptId === location.scriptId && l.lineNumber === location.lineNumber && l.columnNumber === location.columnNumber
+    );
+    if (!exists) bp.locations.push(location);
+  }
+
   findBreakpointByLocation(scriptId: string, lineNumber: number, columnNumber?: number): ManagedBreakpoint | undefined {
     for (const bp of this.breakpoints.values()) {
       for (const loc of bp.locations) {
@@ -110,10 +268,60 @@ export class DebugState {
     return undefined;
   }
 
+  setBreakpointEnabled(breakpointId: string, enabled: boolean): boolean {
+    const bp = this.breakpoints.get(breakpointId);
+    if (!bp) return false;
+    bp.enabled = enabled;
+    return true;
+  }
+
+  setHitCondition(breakpointId: string, condition: HitCondition | undefined): boolean {
+    const bp = this.breakpoints.get(breakpointId);
+    if (!bp) return false;
+    bp.hitCondition = condition;
+    return true;
+  }
+
+  resetHitCount(breakpointId?: string): void {
+    const targets = breakpointId ? [this.breakpoints.get(breakpointId)] : this.breakpoints.values();
+    for (const bp of targets) {
+      if (bp) bp.hitCount = 0;
+    }
+  }
+
+  /**
+   * Count a pause on the given CDP breakpoint IDs and decide whether it should
+   * stand. Returns false only when every hit breakpoint is known and either
+   * disabled or fails its hit condition. Disabled breakpoints are not counted.
+   */
+  recordBreakpointHits(hitBreakpoints: string[], targetId?: string): boolean {
+    if (hitBreakpoints.length === 0) return true;
+    let shouldPause = false;
+    for (const cdpId of hitBreakpoints) {
+      const bp = targetId ? this.findBreakpointForTarget(targetId, cdpId) : this.breakpoints.get(cdpId);
+      if (!bp) {
+        shouldPause = true;
+        continue;
+      }
+      if (!bp.enabled) continue;
+      bp.hitCount = (bp.hitCount ?? 0) + 1;
+      if (hitConditionMet(bp.hitCondition, bp.hitCount)) shouldPause = true;
+    }
+    return shouldPause;
+  }
+
   clearBreakpoints(): void {
     this.breakpoints.clear();
   }
 
+  setBreakpointsActive(active: boolean): void {
+    this.breakpointsActive = active;
+  }
+
+  areBreakpointsActive(): boolean {
+    return this.breakpointsActive;
+  }
+
   // Exception handling
   setPauseOnExceptions(state: PauseOnExceptionsState): void {
     this.pauseOnExceptions = state;
@@ -123,12 +331,49 @@ export class DebugState {
     return this.pauseOnExceptions;
   }
 
-  setLastException(exception: ExceptionDetails | null): void {
-    this.lastException = exception;
+  setExceptionFilters(filters: ExceptionFilter[]): void {
+    filters.forEach(validateExceptionFilter);
+    this.exceptionFilters = [...filters];
+  }
+
+  getExceptionFilters(): ExceptionFilter[] {
+    return [...this.exceptionFilters];
   }
 
-  getLastException(): ExceptionDetails | null {
-    return this.lastException;
+  /** Whether an exception pause should stand under the current filters. */
+  shouldPauseOnException(exception: ExceptionCandidate): boolean {
+    if (this.exceptionFilters.length === 0) return true;
+    return this.exceptionFilters.some((f) => exceptionMatchesFilter(f, exception));
+  }
+
+  recordException(exception: Omit<CapturedException, 'id' | 'timestamp'>): CapturedException {
+    const captured: CapturedException = { ...exception, id: this.nextExceptionId++, timestamp: Date.now() };
+    this.exceptionHistory.push(captured);
+    if (this.exceptionHistory.length > this.maxExceptionHistory) {
+      this.exceptionHistory.splice(0, this.exceptionHistory.length - this.maxExceptionHistory);
+    }
+    return captured;
+  }
+
+  getLastException(): CapturedException | null {
+    return this.exceptionHistory[this.exceptionHistory.length - 1] ?? null;
+  }
+
+  // Newest first.
+  getExceptionHistory(limit?: number): CapturedException[] {
+    const newestFirst = [...this.exceptionHistory].reverse();
+    return limit === undefined ? newestFirst : newestFirst.slice(0, limit);
+  }
+
+  clearExceptionHistory(): void {
+    this.exceptionHistory = [];
+  }
+
+  setMaxExceptionHistory(max: number): void {
+    this.maxExceptionHistory = Math.max(1, max);
+    if (this.exceptionHistory.length > this.maxExceptionHistory) {
+      this.exceptionHistory.splice(0, this.exceptionHistory.length - this.maxExceptionHistory);
+    }
   }
 
   // Enable state
@@ -154,20 +399,23 @@ export class DebugState {
 
   // Reset state
   reset(): void {
-    this.pauseState = { isPaused: false };
+    this.pauseStates.clear();
     this.breakpoints.clear();
+    this.breakpointsActive = true;
     this.pauseOnExceptions = 'none';
     this.asyncStackTraceDepth = 0;
-    this.lastException = null;
+    this.exceptionFilters = [];
+    this.exceptionHistory = [];
   }
 
   // Serialize state for debugging
   toJSON(): object {
+    const pauseState = this.getPauseState();
     return {
       enabled: this.enabled,
-      isPaused: this.pauseState.isPaused,
-      pauseReason: this.pauseState.reason,
-      callFrameCount: this.pauseState.callFrames?.length ?? 0,
+      isPaused: pauseState.isPaused,
+      pauseReason: pauseState.reason,
+      callFrameCount: pauseState.callFrames?.length ?? 0,
       breakpointCount: this.breakpoints.size,
       pauseOnExceptions: this.pauseOnExceptions,
       asyncStackTraceDepth: this.asyncStackTraceDepth,
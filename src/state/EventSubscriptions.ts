@@ -0,0 +1,95 @@
+// Which DebugSession events get pushed to the MCP client, and how.
+
+export const EVENT_KINDS = [
+  'pause',
+  'resume',
+  'exception',
+  'console',
+  'logpoint',
+  'requestFailed',
+  'requestPaused',
+  'authRequired',
+  'dialog',
+  'targetAttached',
+  'targetDetached',
+  'scriptParsed',
+] as const;
+
+export type EventKind = typeof EVENT_KINDS[number];
+
+export type ConsoleLevel = 'debug' | 'log' | 'info' | 'warning' | 'error';
+
+// 'logging' sends notifications/message (honors the client's logging/setLevel),
+// 'notification' sends the custom notifications/cdp/event.
+export type EventDelivery = 'logging' | 'notification' | 'both';
+
+const CONSOLE_LEVEL_ORDER: ConsoleLevel[] = ['debug', 'log', 'info', 'warning', 'error'];
+
+const DEFAULT_KINDS: EventKind[] = [
+  'pause',
+  'resume',
+  'exception',
+  'console',
+  'logpoint',
+  'requestPaused',
+  'authRequired',
+  'dialog',
+  'targetAttached',
+];
+
+export class EventSubscriptions {
+  private kinds = new Set<EventKind>(DEFAULT_KINDS);
+  // Minimum console level forwarded when 'console' is subscribed.
+  private consoleLevel: ConsoleLevel = 'error';
+  private delivery: EventDelivery = 'logging';
+
+  subscribe(kinds: EventKind[], options: { consoleLevel?: ConsoleLevel; delivery?: EventDelivery } = {}): void {
+    for (const kind of kinds) {
+      this.kinds.add(kind);
+    }
+    if (options.consoleLevel) this.consoleLevel = options.consoleLevel;
+    if (options.delivery) this.delivery = options.delivery;
+  }
+
+  unsubscribe(kinds: EventKind[]): void {
+    for (const kind of kinds) {
+      this.kinds.delete(kind);
+    }
+  }
+
+  isSubscribed(kind: EventKind): boolean {
+    return this.kinds.has(kind);
+  }
+
+  shouldForwardConsole(level: string): boolean {
+    if (!this.kinds.has('console')) return false;
+    const index = CONSOLE_LEVEL_ORDER.indexOf(level as ConsoleLevel);
+    return index >= CONSOLE_LEVEL_ORDER.indexOf(this.consoleLevel);
+  }
+
+  getSubscribed(): EventKind[] {
+    return EVENT_KINDS.filter((k) => this.kinds.has(k));
+  }
+
+  getConsoleLevel(): ConsoleLevel {
+    return this.consoleLevel;
+  }
+
+  getDelivery(): EventDelivery {
+    return this.delivery;
+  }
+
+  reset(): void {
+    this.kinds = new Set(DEFAULT_KINDS);
+    this.consoleLevel = 'error';
+    this.delivery = 'logging';
+  }
+
+  toJSON(): object {
+    return {
+      subscribed: this.getSubscribed(),
+      consoleLevel: this.consoleLevel,
+      delivery: this.delivery,
+    };
+  }
+}
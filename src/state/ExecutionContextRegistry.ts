@@ -0,0 +1,90 @@
+import type { ExecutionContextDescription } from '../utils/types.js';
+
+export interface ExecutionContextInfo extends ExecutionContextDescription {
+  // The target (page / worker / service worker) whose session reported the
+  // context. Context ids are only unique within one session.
+  targetId?: string;
+}
+
+export interface ExecutionContextQuery {
+  contextId?: number;
+  frameId?: string;
+  // Isolated world name; '' (or omitted with frameId) is the page's own world.
+  worldName?: string;
+  targetId?: string;
+}
+
+// Live execution contexts per session, from Runtime.executionContextCreated /
+// executionContextDestroyed / executionContextsCleared.
+export class ExecutionContextRegistry {
+  private contexts = new Map<string, ExecutionContextInfo>();
+
+  add(context: ExecutionContextDescription, targetId?: string): void {
+    this.contexts.set(this.key(context.id, targetId), { ...context, targetId });
+  }
+
+  remove(contextId: number, targetId?: string): void {
+    this.contexts.delete(this.key(contextId, targetId));
+  }
+
+  // Runtime.executionContextsCleared: the target navigated.
+  removeTarget(targetId?: string): void {
+    for (const [key, context] of this.contexts) {
+      if (context.targetId === targetId) this.contexts.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.contexts.clear();
+  }
+
+  getAll(targetId?: string): ExecutionContextInfo[] {
+    const all = Array.from(this.contexts.values());
+    return targetId === undefined ? all : all.filter((c) => c.targetId === targetId);
+  }
+
+  /**
+   * Resolve the context to evaluate in. A contextId is taken as-is if known;
+   * otherwise contexts of the target are narrowed by frame and world name.
+   * Without a frame, the world's context in the target's main frame (whose id
+   * equals the page's targetId) is preferred. Throws if nothing matches.
+   */
+  resolve(query: ExecutionContextQuery): ExecutionContextInfo {
+    // Strict match: an undefined targetId is the root session of a raw connect.
+    const candidates = Array.from(this.contexts.values()).filter((c) => c.targetId === query.targetId);
+    if (query.contextId !== undefined) {
+      const context = candidates.find((c) => c.id === query.contextId);
+      if (!context) {
+        throw new Error(`Execution context ${query.contextId} not found${query.targetId ? ` on target ${query.targetId}` : ''}. See list_execution_contexts.`);
+      }
+      return context;
+    }
+
+    let matches = candidates;
+    if (query.frameId !== undefined) {
+      matches = matches.filter((c) => c.auxData?.frameId === query.frameId);
+    }
+    if (query.worldName) {
+      matches = matches.filter((c) => c.name === query.worldName);
+    } else {
+      matches = matches.filter((c) => c.auxData?.isDefault !== false);
+    }
+    if (matches.length === 0) {
+      const what = [
+        query.frameId !== undefined ? `frame ${query.frameId}` : undefined,
+        query.worldName ? `world "${query.worldName}"` : undefined,
+      ].filter(Boolean).join(', ');
+      throw new Error(`No execution context for ${what || 'the default world'}. See list_execution_contexts.`);
+    }
+    const mainFrame = matches.find((c) => c.auxData?.frameId !== undefined && c.auxData.frameId === query.targetId);
+    return mainFrame ?? matches[0];
+  }
+
+  getCount(): number {
+    return this.contexts.size;
+  }
+
+  private key(contextId: number, targetId?: string): string {
+    return `${targetId ?? ''}:${contextId}`;
+  }
+}
@@ -1,11 +1,36 @@
-import type { ResourceType, FetchRequestPaused, HeaderEntry } from '../utils/types.js';
+import type { ResourceType, FetchRequestPaused, FetchAuthRequired, AuthChallenge, HeaderEntry } from '../utils/types.js';
+import { applyJsonPatch, type JsonPatchOperation } from '../utils/json-patch.js';
 
 export type InterceptAction = 'pause' | 'modify' | 'mock' | 'fail';
 
+// Request: before the request is sent. Response: after response headers are
+// received, before the page sees the response.
+export type InterceptStage = 'Request' | 'Response';
+
+export interface BodyReplacement {
+  search: string;
+  replace: string;
+  // Treat search as a regular expression; replace may use $1 etc.
+  regex?: boolean;
+  // Regex flags; defaults to 'g'.
+  flags?: string;
+}
+
+// Edits applied to the real server response by a Response-stage modify rule.
+export interface ResponseEdits {
+  status?: number;
+  setHeaders?: Record<string, string>;
+  removeHeaders?: string[];
+  replacements?: BodyReplacement[];
+  jsonPatch?: JsonPatchOperation[];
+}
+
 export interface InterceptRule {
   id: string;
   pattern: string;
   resourceTypes?: ResourceType[];
+  // Defaults to 'Request'.
+  stage?: InterceptStage;
   action: InterceptAction;
   modifyHeaders?: Record<string, string>;
   modifyUrl?: string;
@@ -13,13 +38,20 @@ export interface InterceptRule {
     status: number;
     headers?: Record<string, string>;
     body: string;
+    // body is base64 (binary content, e.g. from a HAR import)
+    base64Encoded?: boolean;
   };
   failReason?: string;
+  responseEdits?: ResponseEdits;
   enabled: boolean;
+  // Number of paused requests this rule matched.
+  hitCount: number;
 }
 
 export interface PausedRequest {
   requestId: string;
+  // Target (page / worker / service worker) whose session paused the request.
+  targetId?: string;
   url: string;
   method: string;
   resourceType: ResourceType;
@@ -27,18 +59,60 @@ export interface PausedRequest {
   postData?: string;
   timestamp: number;
   matchedRule?: InterceptRule;
+  stage: InterceptStage;
+  // Response stage only
+  responseStatusCode?: number;
+  responseStatusText?: string;
+  responseHeaders?: HeaderEntry[];
+  responseErrorReason?: string;
+}
+
+// Stored credentials answered automatically to matching auth challenges.
+export interface AuthCredential {
+  id: string;
+  // Origin pattern (glob or /regex/), e.g. https://*.example.com
+  origin: string;
+  // Realm pattern; matches any realm when omitted.
+  realm?: string;
+  // Restrict to server or proxy challenges; matches both when omitted.
+  source?: 'Server' | 'Proxy';
+  username: string;
+  password: string;
+}
+
+export interface PendingAuthChallenge {
+  requestId: string;
+  targetId?: string;
+  url: string;
+  method: string;
+  resourceType: ResourceType;
+  challenge: AuthChallenge;
+  timestamp: number;
+  // Set when stored credentials were already tried for this request and
+  // rejected, so the challenge was left for a manual answer.
+  credentialsRejected?: boolean;
 }
 
 export class FetchInterceptor {
   private rules = new Map<string, InterceptRule>();
+  // Keyed by `${targetId}:${requestId}`; requestIds are only unique per session.
   private pausedRequests = new Map<string, PausedRequest>();
   private enabled = false;
   private ruleIdCounter = 0;
+  private credentials = new Map<string, AuthCredential>();
+  private credentialIdCounter = 0;
+  // Keyed like pausedRequests.
+  private authChallenges = new Map<string, PendingAuthChallenge>();
+  // Requests already answered with stored credentials; a repeat challenge
+  // means they were rejected and must not be retried in a loop.
+  private autoAnsweredAuth = new Set<string>();
 
   setEnabled(enabled: boolean): void {
     this.enabled = enabled;
     if (!enabled) {
       this.pausedRequests.clear();
+      this.authChallenges.clear();
+      this.autoAnsweredAuth.clear();
     }
   }
 
@@ -47,9 +121,9 @@ export class FetchInterceptor {
   }
 
   // Rule management
-  addRule(rule: Omit<InterceptRule, 'id'>): string {
+  addRule(rule: Omit<InterceptRule, 'id' | 'hitCount'>): string {
     const id = `rule-${++this.ruleIdCounter}`;
-    this.rules.set(id, { ...rule, id, enabled: rule.enabled ?? true });
+    this.rules.set(id, { ...rule, id, enabled: rule.enabled ?? true, hitCount: 0 });
     return id;
   }
 
@@ -65,7 +139,7 @@ export class FetchInterceptor {
     return Array.from(this.rules.values());
   }
 
-  updateRule(ruleId: string, updates: Partial<Omit<InterceptRule, 'id'>>): boolean {
+  updateRule(ruleId: string, updates: Partial<Omit<InterceptRule, 'id' | 'hitCount'>>): boolean {
     const rule = this.rules.get(ruleId);
     if (!rule) return false;
     Object.assign(rule, updates);
@@ -108,9 +182,10 @@ export class FetchInterceptor {
     return regex.test(url);
   }
 
-  findMatchingRule(url: string, resourceType: ResourceType): InterceptRule | undefined {
+  findMatchingRule(url: string, resourceType: ResourceType, stage: InterceptStage = 'Request'): InterceptRule | undefined {
     for (const rule of this.rules.values()) {
       if (!rule.enabled) continue;
+      if ((rule.stage ?? 'Request') !== stage) continue;
 
       // Check resource type filter
       if (rule.resourceTypes && rule.resourceTypes.length > 0) {
@@ -126,37 +201,148 @@ export class FetchInterceptor {
   }
 
   // Paused request management
-  onRequestPaused(event: FetchRequestPaused): PausedRequest {
+  onRequestPaused(event: FetchRequestPaused, targetId?: string): PausedRequest {
     const headers: Record<string, string> = {};
     if (event.request.headers) {
       Object.assign(headers, event.request.headers);
     }
 
+    // CDP only sets response fields when paused at the Response stage.
+    const stage: InterceptStage =
+      event.responseStatusCode !== undefined || event.responseErrorReason !== undefined ? 'Response' : 'Request';
+    const matchedRule = this.findMatchingRule(event.request.url, event.resourceType, stage);
+    if (matchedRule) {
+      matchedRule.hitCount++;
+    }
+
     const pausedReq: PausedRequest = {
       requestId: event.requestId,
+      targetId,
       url: event.request.url,
       method: event.request.method,
       resourceType: event.resourceType,
       headers,
       postData: event.request.postData,
       timestamp: Date.now(),
-      matchedRule: this.findMatchingRule(event.request.url, event.resourceType),
+      matchedRule,
+      stage,
+      responseStatusCode: event.responseStatusCode,
+      responseStatusText: event.responseStatusText,
+      responseHeaders: event.responseHeaders,
+      responseErrorReason: event.responseErrorReason,
     };
 
-    this.pausedRequests.set(event.requestId, pausedReq);
+    this.pausedRequests.set(this.key(event.requestId, targetId), pausedReq);
     return pausedReq;
   }
 
-  getPausedRequest(requestId: string): PausedRequest | undefined {
-    return this.pausedRequests.get(requestId);
+  // Without a targetId, returns the first paused request with that id.
+  getPausedRequest(requestId: string, targetId?: string): PausedRequest | undefined {
+    if (targetId !== undefined) {
+      return this.pausedRequests.get(this.key(requestId, targetId));
+    }
+    for (const req of this.pausedRequests.values()) {
+      if (req.requestId === requestId) return req;
+    }
+    return undefined;
+  }
+
+  getAllPausedRequests(targetId?: string): PausedRequest[] {
+    const all = Array.from(this.pausedRequests.values());
+    return targetId ? all.filter((r) => r.targetId === targetId) : all;
+  }
+
+  removePausedRequest(requestId: string, targetId?: string): void {
+    const req = this.getPausedRequest(requestId, targetId);
+    if (req) {
+      this.pausedRequests.delete(this.key(req.requestId, req.targetId));
+    }
+  }
+
+  // Drop requests paused on a session that went away.
+  removeTarget(targetId: string): void {
+    for (const [key, req] of this.pausedRequests) {
+      if (req.targetId === targetId) this.pausedRequests.delete(key);
+    }
+    for (const [key, challenge] of this.authChallenges) {
+      if (challenge.targetId === targetId) this.authChallenges.delete(key);
+    }
+  }
+
+  // Auth credentials
+  addCredential(credential: Omit<AuthCredential, 'id'>): string {
+    const id = `cred-${++this.credentialIdCounter}`;
+    this.credentials.set(id, { ...credential, id });
+    return id;
+  }
+
+  removeCredential(credentialId: string): boolean {
+    return this.credentials.delete(credentialId);
+  }
+
+  getAllCredentials(): AuthCredential[] {
+    return Array.from(this.credentials.values());
+  }
+
+  findCredential(challenge: AuthChallenge): AuthCredential | undefined {
+    for (const credential of this.credentials.values()) {
+      if (credential.source && challenge.source && credential.source !== challenge.source) continue;
+      if (!this.matchesPattern(challenge.origin, credential.origin)) continue;
+      if (credential.realm !== undefined && !this.matchesPattern(challenge.realm, credential.realm)) continue;
+      return credential;
+    }
+    return undefined;
+  }
+
+  // Auth challenges
+  onAuthRequired(event: FetchAuthRequired, targetId?: string): PendingAuthChallenge {
+    const key = this.key(event.requestId, targetId);
+    const challenge: PendingAuthChallenge = {
+      requestId: event.requestId,
+      targetId,
+      url: event.request.url,
+      method: event.request.method,
+      resourceType: event.resourceType,
+      challenge: event.authChallenge,
+      timestamp: Date.now(),
+      credentialsRejected: this.autoAnsweredAuth.has(key) || undefined,
+    };
+    this.authChallenges.set(key, challenge);
+    return challenge;
+  }
+
+  /**
+   * Stored credentials to answer a challenge with, unless they were already
+   * tried for this request. Marks the request as auto-answered.
+   */
+  takeCredentialFor(challenge: PendingAuthChallenge): AuthCredential | undefined {
+    const key = this.key(challenge.requestId, challenge.targetId);
+    if (this.autoAnsweredAuth.has(key)) return undefined;
+    const credential = this.findCredential(challenge.challenge);
+    if (credential) this.autoAnsweredAuth.add(key);
+    return credential;
   }
 
-  getAllPausedRequests(): PausedRequest[] {
-    return Array.from(this.pausedRequests.values());
+  getAuthChallenge(requestId: string, targetId?: string): PendingAuthChallenge | undefined {
+    if (targetId !== undefined) {
+      return this.authChallenges.get(this.key(requestId, targetId));
+    }
+    for (const challenge of this.authChallenges.values()) {
+      if (challenge.requestId === requestId) return challenge;
+    }
+    return undefined;
+  }
+
+  getAllAuthChallenges(targetId?: string): PendingAuthChallenge[] {
+    const all = Array.from(this.authChallenges.values());
+    return targetId ? all.filter((c) => c.targetId === targetId) : all;
   }
 
-  removePausedRequest(requestId: string): void {
-    this.pausedRequests.delete(requestId);
+  removeAuthChallenge(requestId: string, targetId?: string): void {
+    const challenge = this.getAuthChallenge(requestId, targetId);
+    if (challenge) {
+      this.authChallenges.delete(this.key(challenge.requestId, challenge.targetId));
+    }
   }
 
   clearPausedRequests(): void {
@@ -170,25 +356,27 @@ export class FetchInterceptor {
 
     for (const rule of this.rules.values()) {
       if (!rule.enabled) continue;
+      const stage = rule.stage ?? 'Request';
 
       if (rule.resourceTypes && rule.resourceTypes.length > 0) {
         for (const type of rule.resourceTypes) {
-          const key = `${rule.pattern}:${type}`;
+          const key = `${rule.pattern}:${type}:${stage}`;
           if (!seenPatterns.has(key)) {
             seenPatterns.add(key);
             patterns.push({
               urlPattern: rule.pattern,
               resourceType: type,
-              requestStage: 'Request',
+              requestStage: stage,
             });
           }
         }
       } else {
-        if (!seenPatterns.has(rule.pattern)) {
-          seenPatterns.add(rule.pattern);
+        const key = `${rule.pattern}:${stage}`;
+        if (!seenPatterns.has(key)) {
+          seenPatterns.add(key);
           patterns.push({
             urlPattern: rule.pattern,
-            requestStage: 'Request',
+            requestStage: stage,
           });
         }
       }
@@ -206,15 +394,89 @@ export class FetchInterceptor {
     return Object.entries(merged).map(([name, value]) => ({ name, value }));
   }
 
+  // Mock headers keep repeated values (e.g. Set-Cookie from a HAR) joined
+  // with newlines; Fetch.fulfillRequest wants one entry per value.
+  buildMockResponseHeaders(headers: Record<string, string>): HeaderEntry[] {
+    const result: HeaderEntry[] = [];
+    for (const [name, value] of Object.entries(headers)) {
+      for (const part of String(value).split('\n')) {
+        result.push({ name, value: part });
+      }
+    }
+    return result;
+  }
+
   // Encode response body
   encodeResponseBody(body: string): string {
     return Buffer.from(body).toString('base64');
   }
 
+  // Apply header edits to a real response. Content-Length and
+  // Content-Encoding are dropped since the body is re-sent decoded.
+  buildEditedResponseHeaders(originalHeaders: HeaderEntry[], edits: ResponseEdits): HeaderEntry[] {
+    const removed = new Set(['content-length', 'content-encoding']);
+    for (const name of edits.removeHeaders ?? []) removed.add(name.toLowerCase());
+    for (const name of Object.keys(edits.setHeaders ?? {})) removed.add(name.toLowerCase());
+
+    const headers = originalHeaders.filter((h) => !removed.has(h.name.toLowerCase()));
+    for (const [name, value] of Object.entries(edits.setHeaders ?? {})) {
+      headers.push({ name, value });
+    }
+    return headers;
+  }
+
+  hasBodyEdits(edits: ResponseEdits): boolean {
+    return (edits.replacements?.length ?? 0) > 0 || (edits.jsonPatch?.length ?? 0) > 0;
+  }
+
+  // Response body as text for editing. Refuses bodies that aren't UTF-8 text
+  // (binary, or another charset): re-encoding them would corrupt them.
+  decodeTextBody(body: string, base64Encoded: boolean, headers: HeaderEntry[]): string {
+    const contentType = headers.find((h) => h.name.toLowerCase() === 'content-type')?.value ?? '';
+    const charset = /charset\s*=\s*"?([^";\s]+)/i.exec(contentType)?.[1].toLowerCase();
+    if (charset && charset !== 'utf-8' && charset !== 'utf8' && charset !== 'us-ascii') {
+      throw new Error(`Cannot edit a ${charset} response body as text`);
+    }
+    if (!base64Encoded) return body;
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(Buffer.from(body, 'base64'));
+    } catch {
+      throw new Error(`Cannot edit a binary response body as text${contentType ? ` (${contentType})` : ''}`);
+    }
+  }
+
+  // Apply string/regex replacements, then the JSON patch.
+  rewriteResponseBody(body: string, edits: ResponseEdits): string {
+    let result = body;
+    for (const r of edits.replacements ?? []) {
+      result = r.regex
+        ? result.replace(new RegExp(r.search, r.flags ?? 'g'), r.replace)
+        : result.split(r.search).join(r.replace);
+    }
+    if (edits.jsonPatch && edits.jsonPatch.length > 0) {
+      let json: unknown;
+      try {
+        json = JSON.parse(result);
+      } catch {
+        throw new Error('Response body is not valid JSON; cannot apply JSON patch');
+      }
+      result = JSON.stringify(applyJsonPatch(json, edits.jsonPatch));
+    }
+    return result;
+  }
+
+  private key(requestId: string, targetId?: string): string {
+    return `${targetId ?? ''}:${requestId}`;
+  }
+
   reset(): void {
     this.rules.clear();
     this.pausedRequests.clear();
     this.ruleIdCounter = 0;
+    this.credentials.clear();
+    this.credentialIdCounter = 0;
+    this.authChallenges.clear();
+    this.autoAnsweredAuth.clear();
   }
 
   // Summary for debugging
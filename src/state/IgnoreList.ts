@@ -0,0 +1,59 @@
+import { urlPatternSource } from '../utils/url-pattern.js';
+
+// Scripts the debugger should step over and hide: URL patterns sent to
+// Debugger.setBlackboxPatterns, plus (optionally) the sources source maps mark
+// as ignored. Survives reconnects, like breakpoint sets.
+export class IgnoreList {
+  // As given by the user: globs (`*` / `?`) or /regex/.
+  private patterns: string[] = [];
+  private useSourceMaps = false;
+
+  add(patterns: string[]): string[] {
+    const added: string[] = [];
+    for (const pattern of patterns) {
+      if (this.patterns.includes(pattern)) continue;
+      // Validate before storing so a bad regex fails the tool call.
+      urlPatternSource(pattern);
+      this.patterns.push(pattern);
+      added.push(pattern);
+    }
+    return added;
+  }
+
+  remove(patterns: string[]): string[] {
+    const removed = this.patterns.filter((p) => patterns.includes(p));
+    this.patterns = this.patterns.filter((p) => !patterns.includes(p));
+    return removed;
+  }
+
+  clear(): void {
+    this.patterns = [];
+  }
+
+  getPatterns(): string[] {
+    return [...this.patterns];
+  }
+
+  /** Patterns as the regular expressions Debugger.setBlackboxPatterns takes. */
+  getCdpPatterns(): string[] {
+    return this.patterns.map(urlPatternSource);
+  }
+
+  matches(url: string): boolean {
+    if (!url) return false;
+    return this.getCdpPatterns().some((source) => new RegExp(source).test(url));
+  }
+
+  setUseSourceMaps(enabled: boolean): void {
+    this.useSourceMaps = enabled;
+  }
+
+  usesSourceMaps(): boolean {
+    return this.useSourceMaps;
+  }
+
+  isEmpty(): boolean {
+    return this.patterns.length === 0 && !this.useSourceMaps;
+  }
+}
+
@@ -0,0 +1,112 @@
+import type { TemplatePart } from '../utils/logpoint.js';
+import { formatLogMessage, summarizeLogpointStack } from '../utils/logpoint.js';
+
+export interface LogpointHit {
+  timestamp: number;
+  targetId?: string;
+  message: string;
+  values: string[];
+  // Top call frames ("fn (url:line:col)") at the time of the hit.
+  callFrames: string[];
+}
+
+export interface Logpoint {
+  // Breakpoint ID of the underlying conditional breakpoint.
+  breakpointId: string;
+  // Identifies the logpoint in binding payloads (the breakpoint ID is not
+  // known when the condition is built).
+  token: string;
+  template: string;
+  parts: TemplatePart[];
+  condition?: string;
+  location: { url?: string; urlRegex?: string; scriptId?: string; lineNumber: number; columnNumber?: number };
+  hitCount: number;
+  hits: LogpointHit[];
+  // Hits evicted from the bounded log.
+  hitsDropped: number;
+}
+
+// Logpoint definitions and their hit logs, kept apart from ConsoleState so
+// logpoint output never mixes with the page's own console messages.
+export class LogpointRegistry {
+  private logpoints = new Map<string, Logpoint>();
+  private tokenCounter = 0;
+  private maxHitsPerLogpoint = 200;
+
+  nextToken(): string {
+    return `lp-${++this.tokenCounter}`;
+  }
+
+  add(logpoint: Omit<Logpoint, 'hitCount' | 'hits' | 'hitsDropped'>): Logpoint {
+    const entry: Logpoint = { ...logpoint, hitCount: 0, hits: [], hitsDropped: 0 };
+    this.logpoints.set(logpoint.breakpointId, entry);
+    return entry;
+  }
+
+  remove(breakpointId: string): boolean {
+    return this.logpoints.delete(breakpointId);
+  }
+
+  get(breakpointId: string): Logpoint | undefined {
+    return this.logpoints.get(breakpointId);
+  }
+
+  getAll(): Logpoint[] {
+    return Array.from(this.logpoints.values());
+  }
+
+  findByToken(token: string): Logpoint | undefined {
+    for (const lp of this.logpoints.values()) {
+      if (lp.token === token) return lp;
+    }
+    return undefined;
+  }
+
+  /** Record a hit reported by the binding. Unknown tokens are ignored. */
+  recordHit(
+    token: string,
+    values: string[],
+    stack: string | undefined,
+    targetId?: string,
+    timestamp = Date.now()
+  ): LogpointHit | undefined {
+    const lp = this.findByToken(token);
+    if (!lp) return undefined;
+    const hit: LogpointHit = {
+      timestamp,
+      targetId,
+      message: formatLogMessage(lp.parts, values),
+      values,
+      callFrames: summarizeLogpointStack(stack),
+    };
+    lp.hitCount++;
+    lp.hits.push(hit);
+    if (lp.hits.length > this.maxHitsPerLogpoint) {
+      lp.hits.shift();
+      lp.hitsDropped++;
+    }
+    return hit;
+  }
+
+  clearHits(breakpointId?: string): void {
+    const targets = breakpointId ? [this.logpoints.get(breakpointId)] : this.logpoints.values();
+    for (const lp of targets) {
+      if (!lp) continue;
+      lp.hits = [];
+      lp.hitCount = 0;
+      lp.hitsDropped = 0;
+    }
+  }
+
+  setMaxHitsPerLogpoint(max: number): void {
+    this.maxHitsPerLogpoint = max;
+  }
+
+  getCount(): number {
+    return this.logpoints.size;
+  }
+
+  clear(): void {
+    this.logpoints.clear();
+  }
+}
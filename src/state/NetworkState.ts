@@ -21,6 +21,8 @@ export interface CollectedRequest {
   statusText?: string;
   mimeType?: string;
   startTime: number;
+  // Wall-clock start (seconds since epoch); startTime is CDP monotonic time.
+  wallTime?: number;
   endTime?: number;
   duration?: number;
   encodedDataLength?: number;
@@ -84,6 +86,7 @@ export class NetworkState {
       method: params.request.method,
       resourceType: params.type,
       startTime: params.timestamp,
+      wallTime: params.wallTime,
       request: params.request,
     });
   }
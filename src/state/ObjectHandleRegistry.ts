@@ -0,0 +1,116 @@
+// RemoteObject handles handed out by tools, by object group. Tools put the
+// objectIds they return into a named group (one per tool call, or one per
+// pause for calls made while paused) so they can be released together:
+// explicitly with release_object_group, or on Debugger.resumed for
+// pause-scoped groups.
+
+export interface ObjectHandle {
+  objectId: string;
+  group: string;
+  // Tool that returned the handle.
+  origin: string;
+  targetId?: string;
+  description?: string;
+  createdAt: number;
+}
+
+export interface ObjectGroupInfo {
+  name: string;
+  origin: string;
+  targetId?: string;
+  // Released automatically when the target resumes.
+  pauseScoped: boolean;
+  createdAt: number;
+  handleCount: number;
+}
+
+export class ObjectHandleRegistry {
+  // Keyed by `${targetId}:${objectId}` / `${targetId}:${group}`: objectIds and
+  // groups are per session.
+  private handles = new Map<string, ObjectHandle>();
+  private groups = new Map<string, Omit<ObjectGroupInfo, 'handleCount'>>();
+  private nextGroupId = 1;
+
+  /** A fresh group name for one tool call. The group exists once it holds a handle. */
+  newGroupName(origin: string): string {
+    return `${origin}-${this.nextGroupId++}`;
+  }
+
+  /** The pause-scoped group of a paused target, created on first use. */
+  pauseGroup(targetId?: string): string {
+    for (const group of this.groups.values()) {
+      if (group.pauseScoped && group.targetId === targetId) return group.name;
+    }
+    const name = `pause-${this.nextGroupId++}`;
+    this.groups.set(this.key(name, targetId), { name, origin: 'pause', targetId, pauseScoped: true, createdAt: Date.now() });
+    return name;
+  }
+
+  track(objectId: string, handle: { group: string; origin: string; targetId?: string; description?: string }): void {
+    const groupKey = this.key(handle.group, handle.targetId);
+    if (!this.groups.has(groupKey)) {
+      this.groups.set(groupKey, { name: handle.group, origin: handle.origin, targetId: handle.targetId, pauseScoped: false, createdAt: Date.now() });
+    }
+    this.handles.set(this.key(objectId, handle.targetId), { objectId, ...handle, createdAt: Date.now() });
+  }
+
+  getHandle(objectId: string, targetId?: string): ObjectHandle | undefined {
+    return this.handles.get(this.key(objectId, targetId));
+  }
+
+  getHandles(filter: { group?: string; targetId?: string } = {}): ObjectHandle[] {
+    return Array.from(this.handles.values()).filter((h) =>
+      (filter.group === undefined || h.group === filter.group) &&
+      (filter.targetId === undefined || h.targetId === filter.targetId)
+    );
+  }
+
+  getGroups(): ObjectGroupInfo[] {
+    return Array.from(this.groups.values()).map((group) => ({
+      ...group,
+      handleCount: this.getHandles({ group: group.name }).filter((h) => h.targetId === group.targetId).length,
+    }));
+  }
+
+  getPauseGroups(targetId?: string): string[] {
+    return Array.from(this.groups.values())
+      .filter((g) => g.pauseScoped && g.targetId === targetId)
+      .map((g) => g.name);
+  }
+
+  /** Forget a group and its handles. Returns how many handles it held. */
+  removeGroup(name: string, targetId?: string): number {
+    this.groups.delete(this.key(name, targetId));
+    let removed = 0;
+    for (const [key, handle] of this.handles) {
+      if (handle.group === name && handle.targetId === targetId) {
+        this.handles.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  removeHandle(objectId: string, targetId?: string): boolean {
+    return this.handles.delete(this.key(objectId, targetId));
+  }
+
+  // Handles die with their session.
+  removeTarget(targetId: string): void {
+    for (const [key, handle] of this.handles) {
+      if (handle.targetId === targetId) this.handles.delete(key);
+    }
+    for (const [key, group] of this.groups) {
+      if (group.targetId === targetId) this.groups.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.handles.clear();
+    this.groups.clear();
+  }
+
+  private key(id: string, targetId?: string): string {
+    return `${targetId ?? ''}:${id}`;
+  }
+}
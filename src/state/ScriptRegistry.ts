@@ -1,12 +1,16 @@
 import type { ScriptInfo } from '../utils/types.js';
+import { urlPatternToRegex } from '../utils/url-pattern.js';
 
+// Scripts are keyed by `${targetId}:${scriptId}` because scriptIds are only
+// unique within one isolate: a page and its workers routinely reuse them.
 export class ScriptRegistry {
   private scripts = new Map<string, ScriptInfo>();
   private urlToScriptIds = new Map<string, Set<string>>();
   private sourceCache = new Map<string, string>();
 
   addScript(script: ScriptInfo): void {
-    this.scripts.set(script.scriptId, script);
+    const key = this.key(script.scriptId, script.targetId);
+    this.scripts.set(key, script);
 
     if (script.url) {
       let ids = this.urlToScriptIds.get(script.url);
@@ -14,12 +18,13 @@ export class ScriptRegistry {
         ids = new Set();
         this.urlToScriptIds.set(script.url, ids);
       }
-      ids.add(script.scriptId);
+      ids.add(key);
     }
   }
 
-  getScript(scriptId: string): ScriptInfo | undefined {
-    return this.scripts.get(scriptId);
+  // targetId is optional: if omitted, the first script with this scriptId wins.
+  getScript(scriptId: string, targetId?: string): ScriptInfo | undefined {
+    return this.scripts.get(this.resolveKey(scriptId, targetId));
   }
 
   getScriptsByUrl(url: string): ScriptInfo[] {
@@ -32,7 +37,7 @@ export class ScriptRegistry {
 
   findScriptsByUrlPattern(pattern: string): ScriptInfo[] {
     const results: ScriptInfo[] = [];
-    const regex = this.patternToRegex(pattern);
+    const regex = urlPatternToRegex(pattern);
 
     for (const script of this.scripts.values()) {
       if (script.url && regex.test(script.url)) {
@@ -43,8 +48,9 @@ export class ScriptRegistry {
     return results;
   }
 
-  getAllScripts(): ScriptInfo[] {
-    return Array.from(this.scripts.values());
+  getAllScripts(targetId?: string): ScriptInfo[] {
+    const all = Array.from(this.scripts.values());
+    return targetId ? all.filter((s) => s.targetId === targetId) : all;
   }
 
   getScriptCount(): number {
@@ -52,38 +58,21 @@ export class ScriptRegistry {
   }
 
   // Source caching
-  setSource(scriptId: string, source: string): void {
-    this.sourceCache.set(scriptId, source);
+  setSource(scriptId: string, source: string, targetId?: string): void {
+    this.sourceCache.set(this.resolveKey(scriptId, targetId), source);
   }
 
-  getSource(scriptId: string): string | undefined {
-    return this.sourceCache.get(scriptId);
+  getSource(scriptId: string, targetId?: string): string | undefined {
+    return this.sourceCache.get(this.resolveKey(scriptId, targetId));
   }
 
-  hasSource(scriptId: string): boolean {
-    return this.sourceCache.has(scriptId);
+  hasSource(scriptId: string, targetId?: string): boolean {
+    return this.sourceCache.has(this.resolveKey(scriptId, targetId));
   }
 
   // URL matching utilities
   matchesUrl(url: string, pattern: string): boolean {
-    const regex = this.patternToRegex(pattern);
-    return regex.test(url);
-  }
-
-  private patternToRegex(pattern: string): RegExp {
-    // Support glob-like patterns and exact matches
-    if (pattern.startsWith('/') && pattern.endsWith('/')) {
-      // Already a regex
-      return new RegExp(pattern.slice(1, -1));
-    }
-
-    // Convert glob pattern to regex
-    const escaped = pattern
-      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
-      .replace(/\*/g, '.*')
-      .replace(/\?/g, '.');
-
-    return new RegExp(`^${escaped}$`);
+    return urlPatternToRegex(pattern).test(url);
   }
 
   // Find script ID for a URL and line
@@ -102,6 +91,28 @@ export class ScriptRegistry {
     return scripts[0];
   }
 
+  private key(scriptId: string, targetId?: string): string {
+    return `${targetId ?? ''}:${scriptId}`;
+  }
+
+  private resolveKey(scriptId: string, targetId?: string): string {
+    if (targetId !== undefined) return this.key(scriptId, targetId);
+    for (const [key, script] of this.scripts) {
+      if (script.scriptId === scriptId) return key;
+    }
+    return this.key(scriptId);
+  }
+
+  // Drop every script parsed by a target (e.g. a worker that went away).
+  removeTarget(targetId: string): void {
+    for (const [key, script] of this.scripts) {
+      if (script.targetId !== targetId) continue;
+      this.scripts.delete(key);
+      this.sourceCache.delete(key);
+      if (script.url) this.urlToScriptIds.get(script.url)?.delete(key);
+    }
+  }
+
   clear(): void {
     this.scripts.clear();
     this.urlToScriptIds.clear();
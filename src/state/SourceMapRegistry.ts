@@ -0,0 +1,115 @@
+import type { SourceMap, OriginalPosition } from '../utils/source-map.js';
+
+export interface OriginalSourceInfo {
+  source: string;
+  scriptId: string;
+  targetId?: string;
+  hasContent: boolean;
+}
+
+// Parsed source maps per script. Keyed like ScriptRegistry, by
+// `${targetId}:${scriptId}`, since scriptIds are only unique per target.
+export class SourceMapRegistry {
+  private maps = new Map<string, { scriptId: string; targetId?: string; map: SourceMap }>();
+  private errors = new Map<string, string>();
+
+  setSourceMap(scriptId: string, map: SourceMap, targetId?: string): void {
+    const key = this.key(scriptId, targetId);
+    this.maps.set(key, { scriptId, targetId, map });
+    this.errors.delete(key);
+  }
+
+  // Remember failed loads so they are not retried on every lookup.
+  setError(scriptId: string, message: string, targetId?: string): void {
+    this.errors.set(this.key(scriptId, targetId), message);
+  }
+
+  getSourceMap(scriptId: string, targetId?: string): SourceMap | undefined {
+    return this.maps.get(this.resolveKey(scriptId, targetId))?.map;
+  }
+
+  getError(scriptId: string, targetId?: string): string | undefined {
+    return this.errors.get(this.key(scriptId, targetId));
+  }
+
+  // True once a load was attempted, successful or not.
+  isResolved(scriptId: string, targetId?: string): boolean {
+    const key = this.key(scriptId, targetId);
+    return this.maps.has(key) || this.errors.has(key);
+  }
+
+  toOriginal(scriptId: string, lineNumber: number, columnNumber: number, targetId?: string): OriginalPosition | undefined {
+    return this.getSourceMap(scriptId, targetId)?.originalPositionFor(lineNumber, columnNumber);
+  }
+
+  // Every original source across all loaded maps, one entry per script that
+  // includes it.
+  getAllSources(): OriginalSourceInfo[] {
+    const result: OriginalSourceInfo[] = [];
+    for (const { scriptId, targetId, map } of this.maps.values()) {
+      for (const source of map.sources) {
+        result.push({ source, scriptId, targetId, hasContent: map.hasSourceContent(source) });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Find the scripts whose map includes `source`. Matches the resolved source
+   * URL exactly, or by path suffix (e.g. `src/App.tsx` matches
+   * `webpack://app/src/App.tsx`).
+   */
+  findScriptsForSource(source: string): Array<{ scriptId: string; targetId?: string; source: string; map: SourceMap }> {
+    const exact: Array<{ scriptId: string; targetId?: string; source: string; map: SourceMap }> = [];
+    const suffix: Array<{ scriptId: string; targetId?: string; source: string; map: SourceMap }> = [];
+    const needle = source.replace(/^\.?\//, '');
+    for (const { scriptId, targetId, map } of this.maps.values()) {
+      for (const s of map.sources) {
+        if (s === source) {
+          exact.push({ scriptId, targetId, source: s, map });
+        } else if (s.endsWith(`/${needle}`)) {
+          suffix.push({ scriptId, targetId, source: s, map });
+        }
+      }
+    }
+    return exact.length > 0 ? exact : suffix;
+  }
+
+  getSourceContent(source: string): string | undefined {
+    for (const match of this.findScriptsForSource(source)) {
+      const content = match.map.getSourceContent(match.source);
+      if (content !== undefined) return content;
+    }
+    return undefined;
+  }
+
+  removeTarget(targetId: string): void {
+    for (const [key, entry] of this.maps) {
+      if (entry.targetId === targetId) this.maps.delete(key);
+    }
+    for (const key of this.errors.keys()) {
+      if (key.startsWith(`${targetId}:`)) this.errors.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.maps.clear();
+    this.errors.clear();
+  }
+
+  getCount(): number {
+    return this.maps.size;
+  }
+
+  private key(scriptId: string, targetId?: string): string {
+    return `${targetId ?? ''}:${scriptId}`;
+  }
+
+  private resolveKey(scriptId: string, targetId?: string): string {
+    if (targetId !== undefined) return this.key(scriptId, targetId);
+    for (const [key, entry] of this.maps) {
+      if (entry.scriptId === scriptId) return key;
+    }
+    return this.key(scriptId);
+  }
+}
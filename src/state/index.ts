@@ -1,5 +1,54 @@
-export { DebugState, type PauseState, type ManagedBreakpoint, type PauseOnExceptionsState } from './DebugState.js';
+export {
+  DebugState,
+  parseHitCondition,
+  formatHitCondition,
+  validateExceptionFilter,
+  exceptionMatchesFilter,
+  type PauseState,
+  type ManagedBreakpoint,
+  type PauseOnExceptionsState,
+  type HitCondition,
+  type ExceptionFilter,
+  type ExceptionCandidate,
+  type CapturedException,
+} from './DebugState.js';
 export { ScriptRegistry } from './ScriptRegistry.js';
 export { NetworkState, type CollectedRequest } from './NetworkState.js';
-export { FetchInterceptor, type InterceptRule, type InterceptAction, type PausedRequest } from './FetchInterceptor.js';
-export { ConsoleState, type CollectedConsoleMessage, type CollectedException } from './ConsoleState.js';
+export {
+  FetchInterceptor,
+  type InterceptRule,
+  type InterceptAction,
+  type InterceptStage,
+  type PausedRequest,
+  type ResponseEdits,
+  type BodyReplacement,
+  type AuthCredential,
+  type PendingAuthChallenge,
+} from './FetchInterceptor.js';
+export {
+  ConsoleState,
+  type CollectedConsoleMessage,
+  type CollectedException,
+  type ExceptionGroup,
+  type ConsoleMessageFilter,
+  type ConsoleCounter,
+  type ConsoleTimer,
+} from './ConsoleState.js';
+export { SourceMapRegistry, type OriginalSourceInfo } from './SourceMapRegistry.js';
+export { EventSubscriptions, EVENT_KINDS, type EventKind, type ConsoleLevel, type EventDelivery } from './EventSubscriptions.js';
+export { LogpointRegistry, type Logpoint, type LogpointHit } from './LogpointRegistry.js';
+export {
+  BreakpointSets,
+  parseBreakpointSetFile,
+  breakpointDefinitionKey,
+  type BreakpointDefinition,
+  type BreakpointSet,
+  type BreakpointSetFile,
+} from './BreakpointSets.js';
+export { IgnoreList } from './IgnoreList.js';
+export {
+  ExecutionContextRegistry,
+  type ExecutionContextInfo,
+  type ExecutionContextQuery,
+} from './ExecutionContextRegistry.js';
+export { ObjectHandleRegistry, type ObjectHandle, type ObjectGroupInfo } from './ObjectHandleRegistry.js';
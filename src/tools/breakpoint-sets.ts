@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { readFile, writeFile } from 'node:fs/promises';
+import type { ToolDefinition } from './types.js';
+import { success, error, formatObject } from './types.js';
+import { parseBreakpointSetFile } from '../state/index.js';
+
+export const saveBreakpointSet: ToolDefinition = {
+  name: 'save_breakpoint_set',
+  description: `Save the current URL breakpoints and logpoints (or a chosen subset) as a named breakpoint set.
+Sets survive disconnects and target switches; with autoApply they are re-created whenever the debugger is enabled. Breakpoints set by scriptId are not included.`,
+  inputSchema: z.object({
+    name: z.string().describe('Set name. An existing set with this name is replaced.'),
+    breakpointIds: z.array(z.string()).optional().describe('Breakpoints to include (default: all URL breakpoints and logpoints)'),
+    autoApply: z.boolean().optional().default(true).describe('Re-apply the set whenever the debugger is enabled'),
+    filePath: z.string().optional().describe('Also write the set to this JSON file'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof saveBreakpointSet.inputSchema>;
+    try {
+      const definitions = session.captureBreakpointDefinitions(p.breakpointIds);
+      const set = session.breakpointSets.save(p.name, definitions, p.autoApply);
+      if (p.filePath) {
+        await writeFile(p.filePath, JSON.stringify(session.breakpointSets.toFile([set.name]), null, 2));
+      }
+      return success(formatObject({
+        name: set.name,
+        breakpoints: set.breakpoints.length,
+        autoApply: set.autoApply,
+        filePath: p.filePath,
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const loadBreakpointSets: ToolDefinition = {
+  name: 'load_breakpoint_sets',
+  description: 'Load breakpoint sets from a JSON file written by save_breakpoint_set. Sets with the same name are replaced. When the debugger is enabled, auto-applied sets are created right away.',
+  inputSchema: z.object({
+    filePath: z.string().describe('Path of the breakpoint set file'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof loadBreakpointSets.inputSchema>;
+    try {
+      const file = parseBreakpointSetFile(await readFile(p.filePath, 'utf8'));
+      const debuggerEnabled = session.debugState.isEnabled();
+      const sets = [];
+      for (const loaded of file.sets) {
+        const set = session.breakpointSets.save(loaded.name, loaded.breakpoints, loaded.autoApply);
+        const result = debuggerEnabled && set.autoApply ? await session.applyBreakpointSet(set) : undefined;
+        sets.push({
+          name: set.name,
+          breakpoints: set.breakpoints.length,
+          autoApply: set.autoApply,
+          applied: result?.applied.length,
+          errors: result?.errors.length ? result.errors : undefined,
+        });
+      }
+      return success(formatObject({
+        filePath: p.filePath,
+        sets,
+        note: debuggerEnabled ? undefined : 'Debugger not enabled; auto-applied sets will be created on debugger_enable',
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const applyBreakpointSet: ToolDefinition = {
+  name: 'apply_breakpoint_set',
+  description: 'Create the breakpoints and logpoints of a saved set now. Breakpoints that are already set are skipped.',
+  inputSchema: z.object({
+    name: z.string().describe('Set name'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof applyBreakpointSet.inputSchema>;
+    try {
+      const set = session.breakpointSets.get(p.name);
+      if (!set) {
+        return error(`Breakpoint set ${p.name} not found`);
+      }
+      if (!session.debugState.isEnabled()) {
+        return error('Debugger not enabled. Call debugger_enable first.');
+      }
+      const result = await session.applyBreakpointSet(set);
+      return success(formatObject({
+        name: set.name,
+        breakpointIds: result.applied,
+        skipped: result.skipped,
+        errors: result.errors.length ? result.errors : undefined,
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const setBreakpointSetAutoApply: ToolDefinition = {
+  name: 'set_breakpoint_set_auto_apply',
+  description: 'Turn automatic re-application of a breakpoint set on or off.',
+  inputSchema: z.object({
+    name: z.string().describe('Set name'),
+    autoApply: z.boolean().describe('Re-apply the set whenever the debugger is enabled'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof setBreakpointSetAutoApply.inputSchema>;
+    try {
+      if (!session.breakpointSets.setAutoApply(p.name, p.autoApply)) {
+        return error(`Breakpoint set ${p.name} not found`);
+      }
+      return success(`Breakpoint set ${p.name} ${p.autoApply ? 'will' : 'will not'} be applied automatically`);
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const listBreakpointSets: ToolDefinition = {
+  name: 'list_breakpoint_sets',
+  description: 'List saved breakpoint sets with their definitions.',
+  inputSchema: z.object({}),
+  handler: async (session) => {
+    try {
+      return success(formatObject(session.breakpointSets.getAll()));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const removeBreakpointSet: ToolDefinition = {
+  name: 'remove_breakpoint_set',
+  description: 'Delete a saved breakpoint set. Breakpoints it already created stay set.',
+  inputSchema: z.object({
+    name: z.string().describe('Set name'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof removeBreakpointSet.inputSchema>;
+    try {
+      if (!session.breakpointSets.remove(p.name)) {
+        return error(`Breakpoint set ${p.name} not found`);
+      }
+      return success(`Breakpoint set ${p.name} removed`);
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const breakpointSetTools: ToolDefinition[] = [
+  saveBreakpointSet,
+  loadBreakpointSets,
+  applyBreakpointSet,
+  setBreakpointSetAutoApply,
+  listBreakpointSets,
+  removeBreakpointSet,
+];
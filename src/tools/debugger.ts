@@ -1,6 +1,14 @@
 import { z } from 'zod';
-import type { ToolDefinition } from './types.js';
+import type { ToolDefinition, ToolResult } from './types.js';
 import { success, error, formatObject } from './types.js';
+import { parseHitCondition, type PauseState } from '../state/index.js';
+import type { DebugSession, StepKind } from '../DebugSession.js';
+import type { ValueInput } from '../utils/value-input.js';
+import { formatRemoteValue } from '../utils/pause-context.js';
+import { applyLineRangePatch, applyUnifiedDiff } from '../utils/source-patch.js';
+import { serializationShape, renderRemoteObject } from './serialization.js';
+
+const hitConditionSchema = z.string().optional().describe('Hit count condition: "5" or "==5" pauses on the 5th hit only, "%3" on every 3rd hit, ">10" / ">=10" after that many hits');
 
 export const debuggerEnable: ToolDefinition = {
   name: 'debugger_enable',
@@ -36,19 +44,42 @@ export const debuggerDisable: ToolDefinition = {
 
 export const setBreakpoint: ToolDefinition = {
   name: 'set_breakpoint',
-  description: 'Set a breakpoint by URL pattern and line number. Works even before script is loaded.',
+  description: 'Set a breakpoint by URL pattern and line number. Works even before script is loaded. Applied to the page and every attached worker / service worker, including ones that attach later. With originalSource, the line refers to an original (source-mapped) file instead.',
   inputSchema: z.object({
     lineNumber: z.number().describe('Line number (0-based)'),
     url: z.string().optional().describe('Exact URL of the script'),
     urlRegex: z.string().optional().describe('Regex pattern to match script URL'),
+    originalSource: z.string().optional().describe('Original source file from list_original_sources (full URL or path suffix like src/App.tsx). lineNumber/columnNumber are then original positions.'),
     columnNumber: z.number().optional().describe('Column number (0-based)'),
     condition: z.string().optional().describe('Breakpoint condition expression'),
+    hitCondition: hitConditionSchema,
   }),
   handler: async (session, params) => {
     const p = params as z.infer<typeof setBreakpoint.inputSchema>;
     try {
+      const hitCondition = p.hitCondition ? parseHitCondition(p.hitCondition) : undefined;
+      if (p.originalSource) {
+        const results = await session.setBreakpointInOriginalSource(
+          p.originalSource,
+          p.lineNumber,
+          p.columnNumber,
+          p.condition
+        );
+        for (const r of results) {
+          session.debugState.setHitCondition(r.breakpointId, hitCondition);
+        }
+        return success(formatObject({
+          breakpoints: results.map((r) => ({
+            breakpointId: r.breakpointId,
+            originalSource: r.source,
+            scriptUrl: r.scriptUrl,
+            generatedLocation: r.generated,
+            locations: r.locations,
+          })),
+        }));
+      }
       if (!p.url && !p.urlRegex) {
-        return error('Either url or urlRegex must be specified');
+        return error('Either url, urlRegex or originalSource must be specified');
       }
       const result = await session.setBreakpointByUrl(
         p.lineNumber,
@@ -57,6 +88,7 @@ export const setBreakpoint: ToolDefinition = {
         p.columnNumber,
         p.condition
       );
+      session.debugState.setHitCondition(result.breakpointId, hitCondition);
       return success(formatObject({
         breakpointId: result.breakpointId,
         locations: result.locations,
@@ -75,14 +107,19 @@ export const setBreakpointById: ToolDefinition = {
     lineNumber: z.number().describe('Line number (0-based)'),
     columnNumber: z.number().optional().describe('Column number (0-based)'),
     condition: z.string().optional().describe('Breakpoint condition expression'),
+    hitCondition: hitConditionSchema,
+    targetId: z.string().optional().describe('Target that parsed the script. Resolved from list_scripts when omitted.'),
   }),
   handler: async (session, params) => {
     const p = params as z.infer<typeof setBreakpointById.inputSchema>;
     try {
+      const hitCondition = p.hitCondition ? parseHitCondition(p.hitCondition) : undefined;
       const result = await session.setBreakpoint(
         { scriptId: p.scriptId, lineNumber: p.lineNumber, columnNumber: p.columnNumber },
-        p.condition
+        p.condition,
+        p.targetId
       );
+      session.debugState.setHitCondition(result.breakpointId, hitCondition);
       return success(formatObject({
         breakpointId: result.breakpointId,
         actualLocation: result.actualLocation,
@@ -93,6 +130,92 @@ export const setBreakpointById: ToolDefinition = {
   },
 };
 
+export const setFunctionBreakpoint: ToolDefinition = {
+  name: 'set_function_breakpoint',
+  description: 'Break whenever a function is called, wherever it is defined. The expression (e.g. "submitOrder", "app.cart.checkout") is evaluated in the global scope of the target and must yield a function.',
+  inputSchema: z.object({
+    expression: z.string().describe('Expression that evaluates to the function'),
+    condition: z.string().optional().describe('Breakpoint condition expression, evaluated in the function\'s scope'),
+    hitCondition: hitConditionSchema,
+    targetId: z.string().optional().describe('Target to evaluate in (default: the page)'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof setFunctionBreakpoint.inputSchema>;
+    try {
+      const hitCondition = p.hitCondition ? parseHitCondition(p.hitCondition) : undefined;
+      const result = await session.setFunctionBreakpoint(p.expression, p.condition, p.targetId);
+      session.debugState.setHitCondition(result.breakpointId, hitCondition);
+      const script = result.location ? session.scriptRegistry.getScript(result.location.scriptId, p.targetId) : undefined;
+      return success(formatObject({
+        breakpointId: result.breakpointId,
+        function: result.description,
+        location: result.location,
+        url: script?.url,
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const setBreakpointByName: ToolDefinition = {
+  name: 'set_breakpoint_by_name',
+  description: `Set a breakpoint at the first statement of a function found by name in the loaded scripts.
+Recognizes function declarations, function and arrow expressions assigned to a name or property, and class/object methods. Scripts with a URL get a URL breakpoint, so it survives reloads.`,
+  inputSchema: z.object({
+    name: z.string().describe('Function name, e.g. submitOrder'),
+    urlPattern: z.string().optional().describe('Only search scripts whose URL matches this pattern'),
+    targetId: z.string().optional().describe('Only search scripts of this target'),
+    condition: z.string().optional().describe('Breakpoint condition expression'),
+    hitCondition: hitConditionSchema,
+    all: z.boolean().optional().default(false).describe('Set a breakpoint on every match instead of failing when the name is ambiguous'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof setBreakpointByName.inputSchema>;
+    try {
+      const hitCondition = p.hitCondition ? parseHitCondition(p.hitCondition) : undefined;
+      const found = await session.findFunctionsByName(p.name, { urlPattern: p.urlPattern, targetId: p.targetId });
+
+      // The same script loaded by several targets is covered by one URL breakpoint.
+      const seen = new Set<string>();
+      const matches = found.filter((m) => {
+        const key = m.url ? `${m.url}:${m.bodyLineNumber}:${m.bodyColumnNumber}` : `${m.targetId}:${m.scriptId}:${m.bodyLineNumber}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      if (matches.length === 0) {
+        return error(`No definition of ${p.name} found in ${session.scriptRegistry.getScriptCount()} loaded scripts`);
+      }
+      if (matches.length > 1 && !p.all) {
+        return error(`${p.name} is defined ${matches.length} times; narrow with urlPattern or pass all: true.\n${formatObject(
+          matches.map((m) => ({ url: m.url || `(script ${m.scriptId})`, lineNumber: m.lineNumber, kind: m.kind }))
+        )}`);
+      }
+
+      const breakpoints = [];
+      for (const m of matches) {
+        if (m.url) {
+          const result = await session.setBreakpointByUrl(m.bodyLineNumber, m.url, undefined, m.bodyColumnNumber, p.condition);
+          session.debugState.setHitCondition(result.breakpointId, hitCondition);
+          breakpoints.push({ breakpointId: result.breakpointId, url: m.url, kind: m.kind, definedAt: m.lineNumber, locations: result.locations });
+        } else {
+          const result = await session.setBreakpoint(
+            { scriptId: m.scriptId, lineNumber: m.bodyLineNumber, columnNumber: m.bodyColumnNumber },
+            p.condition,
+            m.targetId
+          );
+          session.debugState.setHitCondition(result.breakpointId, hitCondition);
+          breakpoints.push({ breakpointId: result.breakpointId, scriptId: m.scriptId, kind: m.kind, definedAt: m.lineNumber, locations: [result.actualLocation] });
+        }
+      }
+      return success(formatObject({ name: p.name, breakpoints }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
 export const removeBreakpoint: ToolDefinition = {
   name: 'remove_breakpoint',
   description: 'Remove a breakpoint by its ID.',
@@ -112,7 +235,7 @@ export const removeBreakpoint: ToolDefinition = {
 
 export const listBreakpoints: ToolDefinition = {
   name: 'list_breakpoints',
-  description: 'List all active breakpoints.',
+  description: 'List all breakpoints with their enabled state, hit condition and hit count.',
   inputSchema: z.object({}),
   handler: async (session) => {
     try {
@@ -124,13 +247,187 @@ export const listBreakpoints: ToolDefinition = {
   },
 };
 
+export const toggleBreakpoint: ToolDefinition = {
+  name: 'toggle_breakpoint',
+  description: 'Enable or disable a breakpoint without forgetting it. A disabled breakpoint is removed from the browser until re-enabled, keeping its ID, condition and hit count.',
+  inputSchema: z.object({
+    breakpointId: z.string().describe('Breakpoint ID'),
+    enabled: z.boolean().optional().describe('New state (default: flip the current state)'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof toggleBreakpoint.inputSchema>;
+    try {
+      const bp = session.debugState.getBreakpoint(p.breakpointId);
+      if (!bp) {
+        return error(`Breakpoint ${p.breakpointId} not found`);
+      }
+      const enabled = p.enabled ?? !bp.enabled;
+      await session.setBreakpointEnabled(p.breakpointId, enabled);
+      return success(`Breakpoint ${p.breakpointId} ${enabled ? 'enabled' : 'disabled'}`);
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const setBreakpointHitCondition: ToolDefinition = {
+  name: 'set_breakpoint_hit_condition',
+  description: 'Set or clear the hit count condition of an existing breakpoint, optionally resetting its hit count.',
+  inputSchema: z.object({
+    breakpointId: z.string().describe('Breakpoint ID'),
+    hitCondition: z.string().optional().describe('Hit count condition ("5", "==5", "%3", ">10", ">=10"). Omit to clear.'),
+    resetHitCount: z.boolean().optional().default(false).describe('Start counting hits from zero again'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof setBreakpointHitCondition.inputSchema>;
+    try {
+      const hitCondition = p.hitCondition ? parseHitCondition(p.hitCondition) : undefined;
+      if (!session.debugState.setHitCondition(p.breakpointId, hitCondition)) {
+        return error(`Breakpoint ${p.breakpointId} not found`);
+      }
+      if (p.resetHitCount) {
+        session.debugState.resetHitCount(p.breakpointId);
+      }
+      const bp = session.debugState.getBreakpoint(p.breakpointId);
+      return success(formatObject({
+        breakpointId: p.breakpointId,
+        hitCondition: bp?.hitCondition,
+        hitCount: bp?.hitCount,
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const setBreakpointsActive: ToolDefinition = {
+  name: 'set_breakpoints_active',
+  description: 'Activate or deactivate all breakpoints at once (Debugger.setBreakpointsActive). Breakpoint definitions are kept.',
+  inputSchema: z.object({
+    active: z.boolean().describe('false skips every breakpoint until reactivated'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof setBreakpointsActive.inputSchema>;
+    try {
+      await session.setBreakpointsActive(p.active);
+      return success(`Breakpoints ${p.active ? 'activated' : 'deactivated'}`);
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const setLogpoint: ToolDefinition = {
+  name: 'set_logpoint',
+  description: 'Set a logpoint: logs a message at a line without pausing. Placeholders like {user.id} in the message are evaluated in the frame at that line ({{ and }} for literal braces). Hits are collected per logpoint (get_logpoint_hits) and forwarded as "logpoint" events. Removed with remove_breakpoint.',
+  inputSchema: z.object({
+    lineNumber: z.number().describe('Line number (0-based)'),
+    message: z.string().describe('Message template, e.g. "saving {item.id} with {JSON.stringify(opts)}"'),
+    url: z.string().optional().describe('Exact URL of the script'),
+    urlRegex: z.string().optional().describe('Regex pattern to match script URL'),
+    scriptId: z.string().optional().describe('Script ID from list_scripts (instead of url/urlRegex)'),
+    columnNumber: z.number().optional().describe('Column number (0-based)'),
+    condition: z.string().optional().describe('Only log when this expression is truthy'),
+    targetId: z.string().optional().describe('Target that parsed the script (with scriptId). Resolved from list_scripts when omitted.'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof setLogpoint.inputSchema>;
+    try {
+      if (!p.scriptId && !p.url && !p.urlRegex) {
+        return error('Either url, urlRegex or scriptId must be specified');
+      }
+      const { logpoint, locations } = await session.setLogpoint(
+        {
+          lineNumber: p.lineNumber,
+          url: p.url,
+          urlRegex: p.urlRegex,
+          scriptId: p.scriptId,
+          columnNumber: p.columnNumber,
+          targetId: p.targetId,
+        },
+        p.message,
+        p.condition
+      );
+      return success(formatObject({
+        breakpointId: logpoint.breakpointId,
+        message: logpoint.template,
+        condition: logpoint.condition,
+        locations,
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const listLogpoints: ToolDefinition = {
+  name: 'list_logpoints',
+  description: 'List logpoints with their location, message template and hit count.',
+  inputSchema: z.object({}),
+  handler: async (session) => {
+    try {
+      const logpoints = session.logpoints.getAll().map((lp) => ({
+        breakpointId: lp.breakpointId,
+        message: lp.template,
+        condition: lp.condition,
+        location: lp.location,
+        hitCount: lp.hitCount,
+        lastHit: lp.hits[lp.hits.length - 1]?.message,
+      }));
+      return success(formatObject({ count: logpoints.length, logpoints }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const getLogpointHits: ToolDefinition = {
+  name: 'get_logpoint_hits',
+  description: 'Get the messages logged by logpoints, newest last. Each hit has the formatted message, the raw values, the target and the top call frames.',
+  inputSchema: z.object({
+    breakpointId: z.string().optional().describe('Only hits of this logpoint (default: all logpoints)'),
+    limit: z.number().optional().default(50).describe('Maximum hits to return (most recent)'),
+    clear: z.boolean().optional().default(false).describe('Clear the returned logpoints\' hit logs afterwards'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof getLogpointHits.inputSchema>;
+    try {
+      let logpoints = session.logpoints.getAll();
+      if (p.breakpointId) {
+        const lp = session.logpoints.get(p.breakpointId);
+        if (!lp) {
+          return error(`Logpoint ${p.breakpointId} not found`);
+        }
+        logpoints = [lp];
+      }
+      const hits = logpoints
+        .flatMap((lp) => lp.hits.map((hit) => ({ breakpointId: lp.breakpointId, ...hit })))
+        .sort((a, b) => a.timestamp - b.timestamp);
+      const dropped = logpoints.reduce((sum, lp) => sum + lp.hitsDropped, 0);
+      if (p.clear) {
+        session.logpoints.clearHits(p.breakpointId);
+      }
+      return success(formatObject({
+        total: hits.length,
+        dropped: dropped || undefined,
+        hits: hits.slice(-p.limit),
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
 export const pause: ToolDefinition = {
   name: 'pause',
   description: 'Pause JavaScript execution.',
-  inputSchema: z.object({}),
-  handler: async (session) => {
+  inputSchema: z.object({
+    targetId: z.string().optional().describe('Target to pause (page / worker / service worker). Default: the page. See list_attached_sessions.'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof pause.inputSchema>;
     try {
-      await session.pause();
+      await session.pause(p.targetId);
       return success('Pause requested. Execution will pause at next statement.');
     } catch (e) {
       return error(e instanceof Error ? e.message : String(e));
@@ -141,10 +438,13 @@ export const pause: ToolDefinition = {
 export const resume: ToolDefinition = {
   name: 'resume',
   description: 'Resume JavaScript execution.',
-  inputSchema: z.object({}),
-  handler: async (session) => {
+  inputSchema: z.object({
+    targetId: z.string().optional().describe('Paused target (page / worker / service worker). Default: the most recently paused target'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof resume.inputSchema>;
     try {
-      await session.resume();
+      await session.resume(p.targetId);
       return success('Execution resumed');
     } catch (e) {
       return error(e instanceof Error ? e.message : String(e));
@@ -152,17 +452,58 @@ export const resume: ToolDefinition = {
   },
 };
 
+const stepInputSchema = z.object({
+  targetId: z.string().optional().describe('Paused target (page / worker / service worker). Default: the most recently paused target'),
+  wait: z.boolean().optional().default(true).describe('Wait for the next pause and return the new location (default: true)'),
+  timeout: z.number().optional().default(5000).describe('How long to wait for the next pause in ms'),
+});
+
+// Top frame, location and source excerpt of a pause, as returned by the
+// stepping tools.
+async function describePause(session: DebugSession, pause: PauseState | null, timeout: number): Promise<Record<string, unknown>> {
+  if (!pause?.isPaused) {
+    return { paused: false, message: `Execution did not pause again within ${timeout}ms; the target is running` };
+  }
+  const top = pause.callFrames?.[0];
+  return {
+    paused: true,
+    targetId: pause.targetId,
+    reason: pause.reason,
+    hitBreakpoints: pause.hitBreakpoints?.length ? pause.hitBreakpoints : undefined,
+    functionName: top ? top.functionName || '(anonymous)' : undefined,
+    url: top?.url,
+    location: top?.location,
+    originalLocation: top ? await session.getOriginalLocation(top.location, pause.targetId) : undefined,
+    source: top ? await session.getSourceExcerpt(top.location, pause.targetId) : undefined,
+  };
+}
+
+async function runStep(
+  session: DebugSession,
+  kind: StepKind,
+  p: z.infer<typeof stepInputSchema>,
+  done: string
+): Promise<ToolResult> {
+  if (!session.debugState.isPaused(p.targetId)) {
+    return error('Not paused. Use pause first or wait for a breakpoint.');
+  }
+  if (!p.wait) {
+    if (kind === 'over') await session.stepOver(p.targetId);
+    else if (kind === 'into') await session.stepInto(p.targetId);
+    else await session.stepOut(p.targetId);
+    return success(done);
+  }
+  const pause = await session.stepAndWait(kind, { targetId: p.targetId, timeout: p.timeout });
+  return success(formatObject(await describePause(session, pause, p.timeout)));
+}
+
 export const stepOver: ToolDefinition = {
   name: 'step_over',
-  description: 'Step to the next line, stepping over function calls.',
-  inputSchema: z.object({}),
-  handler: async (session) => {
+  description: 'Step to the next line, stepping over function calls. Waits for the next pause and returns the new top frame, location and source excerpt.',
+  inputSchema: stepInputSchema,
+  handler: async (session, params) => {
     try {
-      if (!session.debugState.isPaused()) {
-        return error('Not paused. Use pause first or wait for a breakpoint.');
-      }
-      await session.stepOver();
-      return success('Stepped over');
+      return await runStep(session, 'over', params as z.infer<typeof stepInputSchema>, 'Stepped over');
     } catch (e) {
       return error(e instanceof Error ? e.message : String(e));
     }
@@ -171,15 +512,11 @@ export const stepOver: ToolDefinition = {
 
 export const stepInto: ToolDefinition = {
   name: 'step_into',
-  description: 'Step into a function call.',
-  inputSchema: z.object({}),
-  handler: async (session) => {
+  description: 'Step into a function call. Waits for the next pause and returns the new top frame, location and source excerpt.',
+  inputSchema: stepInputSchema,
+  handler: async (session, params) => {
     try {
-      if (!session.debugState.isPaused()) {
-        return error('Not paused. Use pause first or wait for a breakpoint.');
-      }
-      await session.stepInto();
-      return success('Stepped into');
+      return await runStep(session, 'into', params as z.infer<typeof stepInputSchema>, 'Stepped into');
     } catch (e) {
       return error(e instanceof Error ? e.message : String(e));
     }
@@ -188,15 +525,92 @@ export const stepInto: ToolDefinition = {
 
 export const stepOut: ToolDefinition = {
   name: 'step_out',
-  description: 'Step out of the current function.',
-  inputSchema: z.object({}),
-  handler: async (session) => {
+  description: 'Step out of the current function. Waits for the next pause and returns the new top frame, location and source excerpt.',
+  inputSchema: stepInputSchema,
+  handler: async (session, params) => {
     try {
-      if (!session.debugState.isPaused()) {
+      return await runStep(session, 'out', params as z.infer<typeof stepInputSchema>, 'Stepped out');
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const stepUntil: ToolDefinition = {
+  name: 'step_until',
+  description: `Step repeatedly until an expression is true in the top frame, the top frame's script URL changes, or maxSteps is reached.
+Also stops on breakpoints and exceptions, and when the target runs without pausing again. Returns why it stopped and where.`,
+  inputSchema: z.object({
+    kind: z.enum(['over', 'into', 'out']).optional().default('over').describe('Step command to repeat'),
+    expression: z.string().optional().describe('Stop once this is truthy in the top frame, e.g. "i === 10" or "order.total > 0". Evaluation errors count as false.'),
+    untilUrlChange: z.boolean().optional().default(false).describe('Stop when the top frame is in a different script than where stepping started'),
+    maxSteps: z.number().optional().default(100).describe('Give up after this many steps'),
+    timeout: z.number().optional().default(5000).describe('How long to wait for each pause in ms'),
+    targetId: z.string().optional().describe('Paused target (page / worker / service worker). Default: the most recently paused target'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof stepUntil.inputSchema>;
+    try {
+      if (!session.debugState.isPaused(p.targetId)) {
         return error('Not paused. Use pause first or wait for a breakpoint.');
       }
-      await session.stepOut();
-      return success('Stepped out');
+      if (!p.expression && !p.untilUrlChange) {
+        return error('Specify expression and/or untilUrlChange');
+      }
+      const result = await session.stepUntil({
+        kind: p.kind,
+        expression: p.expression,
+        untilUrlChange: p.untilUrlChange,
+        maxSteps: p.maxSteps,
+        timeout: p.timeout,
+        targetId: p.targetId,
+      });
+      return success(formatObject({
+        steps: result.steps,
+        stopReason: result.stopReason,
+        ...await describePause(session, result.pause, p.timeout),
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const continueToLocation: ToolDefinition = {
+  name: 'continue_to_location',
+  description: 'Resume until execution reaches a location (a temporary one-shot breakpoint), then return the new top frame, location and source excerpt.',
+  inputSchema: z.object({
+    lineNumber: z.number().describe('Line number (0-based)'),
+    columnNumber: z.number().optional().describe('Column number (0-based)'),
+    scriptId: z.string().optional().describe('Script ID from list_scripts'),
+    url: z.string().optional().describe('Exact script URL (instead of scriptId)'),
+    targetCallFrames: z.enum(['any', 'current']).optional().default('any').describe('"current" only stops in the current frame, not in other calls reaching the location'),
+    targetId: z.string().optional().describe('Paused target (page / worker / service worker). Default: the most recently paused target'),
+    timeout: z.number().optional().default(5000).describe('How long to wait for the pause in ms'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof continueToLocation.inputSchema>;
+    try {
+      const pauseState = session.debugState.getPauseState(p.targetId);
+      if (!pauseState.isPaused) {
+        return error('Not paused. Use pause first or wait for a breakpoint.');
+      }
+      let scriptId = p.scriptId;
+      if (!scriptId && p.url) {
+        const scripts = session.scriptRegistry.getScriptsByUrl(p.url);
+        scriptId = (scripts.find((s) => s.targetId === pauseState.targetId) ?? scripts[0])?.scriptId;
+        if (!scriptId) {
+          return error(`No loaded script with URL ${p.url}`);
+        }
+      }
+      if (!scriptId) {
+        return error('Either scriptId or url must be specified');
+      }
+      const pause = await session.continueToLocation(
+        { scriptId, lineNumber: p.lineNumber, columnNumber: p.columnNumber },
+        { targetId: p.targetId, targetCallFrames: p.targetCallFrames, timeout: p.timeout }
+      );
+      return success(formatObject(await describePause(session, pause, p.timeout)));
     } catch (e) {
       return error(e instanceof Error ? e.message : String(e));
     }
@@ -205,24 +619,117 @@ export const stepOut: ToolDefinition = {
 
 export const getCallFrames: ToolDefinition = {
   name: 'get_call_frames',
-  description: 'Get the current call stack when paused.',
-  inputSchema: z.object({}),
-  handler: async (session) => {
+  description: 'Get the current call stack when paused. With hideIgnored, frames in ignore-listed scripts (see add_ignore_patterns) are left out.',
+  inputSchema: z.object({
+    targetId: z.string().optional().describe('Paused target (page / worker / service worker). Default: the most recently paused target'),
+    hideIgnored: z.boolean().optional().default(false).describe('Leave out frames in ignore-listed scripts. Frames keep their index in the full stack.'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof getCallFrames.inputSchema>;
     try {
-      const pauseState = session.debugState.getPauseState();
+      const pauseState = session.debugState.getPauseState(p.targetId);
       if (!pauseState.isPaused) {
         return error('Not paused');
       }
-      return success(formatObject({
-        reason: pauseState.reason,
-        hitBreakpoints: pauseState.hitBreakpoints,
-        callFrames: pauseState.callFrames?.map((f) => ({
+      const frames = pauseState.callFrames ?? [];
+      const ignored = p.hideIgnored
+        ? await Promise.all(frames.map((f) => session.isFrameIgnored(f, pauseState.targetId)))
+        : [];
+      const callFrames = await Promise.all(frames
+        .map((f, index) => ({ f, index }))
+        .filter(({ index }) => !ignored[index])
+        .map(async ({ f, index }) => ({
+          index: p.hideIgnored ? index : undefined,
           callFrameId: f.callFrameId,
           functionName: f.functionName || '(anonymous)',
           url: f.url,
           location: f.location,
+          originalLocation: await session.getOriginalLocation(f.location, pauseState.targetId),
           scopeCount: f.scopeChain.length,
-        })),
+        })));
+      return success(formatObject({
+        targetId: pauseState.targetId,
+        reason: pauseState.reason,
+        hitBreakpoints: pauseState.hitBreakpoints,
+        hiddenFrames: p.hideIgnored ? frames.length - callFrames.length : undefined,
+        callFrames,
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const addIgnorePatterns: ToolDefinition = {
+  name: 'add_ignore_patterns',
+  description: `Ignore-list (blackbox) scripts by URL so stepping skips them, e.g. "*/node_modules/*", "*react-dom*" or "/zone(\\.min)?\\.js$/".
+Applied to every attached target and kept across reconnects and target switches.`,
+  inputSchema: z.object({
+    patterns: z.array(z.string()).describe('URL patterns: globs (* and ?) matching the whole URL, or /regex/'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof addIgnorePatterns.inputSchema>;
+    try {
+      const added = await session.addIgnorePatterns(p.patterns);
+      return success(formatObject({ added, patterns: session.ignoreList.getPatterns() }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const removeIgnorePatterns: ToolDefinition = {
+  name: 'remove_ignore_patterns',
+  description: 'Remove URL patterns from the ignore list.',
+  inputSchema: z.object({
+    patterns: z.array(z.string()).optional().describe('Patterns to remove (default: all)'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof removeIgnorePatterns.inputSchema>;
+    try {
+      const removed = await session.removeIgnorePatterns(p.patterns ?? session.ignoreList.getPatterns());
+      return success(formatObject({ removed, patterns: session.ignoreList.getPatterns() }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const setSourceMapIgnoreList: ToolDefinition = {
+  name: 'set_source_map_ignore_list',
+  description: 'Honor the ignoreList / x_google_ignoreList of source maps: code mapped to sources a bundler marked as third-party is skipped when stepping and can be hidden from call frames.',
+  inputSchema: z.object({
+    enabled: z.boolean().describe('Whether to honor source-map ignore lists'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof setSourceMapIgnoreList.inputSchema>;
+    try {
+      await session.setSourceMapIgnoreList(p.enabled);
+      return success(formatObject({
+        enabled: p.enabled,
+        scriptsWithIgnoredRanges: session.getIgnoredRangeScriptCount(),
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const listIgnorePatterns: ToolDefinition = {
+  name: 'list_ignore_patterns',
+  description: 'Show the ignore list: URL patterns, whether source-map ignore lists are honored, and which loaded scripts are ignored.',
+  inputSchema: z.object({}),
+  handler: async (session) => {
+    try {
+      const ignoredScripts = session.scriptRegistry
+        .getAllScripts()
+        .filter((s) => session.ignoreList.matches(s.url))
+        .map((s) => s.url);
+      return success(formatObject({
+        patterns: session.ignoreList.getPatterns(),
+        sourceMapIgnoreList: session.ignoreList.usesSourceMaps(),
+        scriptsWithIgnoredRanges: session.getIgnoredRangeScriptCount(),
+        ignoredScripts: Array.from(new Set(ignoredScripts)),
       }));
     } catch (e) {
       return error(e instanceof Error ? e.message : String(e));
@@ -236,15 +743,18 @@ export const getScopeVariables: ToolDefinition = {
   inputSchema: z.object({
     callFrameIndex: z.number().optional().describe('Call frame index (0 = top). Default: 0'),
     scopeIndex: z.number().optional().describe('Scope index in the scope chain. Default: 0 (local scope)'),
+    targetId: z.string().optional().describe('Paused target (page / worker / service worker). Default: the most recently paused target'),
+    ...serializationShape,
   }),
   handler: async (session, params) => {
     const p = params as z.infer<typeof getScopeVariables.inputSchema>;
     try {
-      if (!session.debugState.isPaused()) {
+      const pauseState = session.debugState.getPauseState(p.targetId);
+      if (!pauseState.isPaused) {
         return error('Not paused');
       }
 
-      const frame = session.debugState.getCallFrame(p.callFrameIndex ?? 0);
+      const frame = session.debugState.getCallFrame(p.callFrameIndex ?? 0, pauseState.targetId);
       if (!frame) {
         return error('Call frame not found');
       }
@@ -261,13 +771,15 @@ export const getScopeVariables: ToolDefinition = {
         }));
       }
 
-      const props = await session.getProperties(scope.object.objectId);
-      const variables = props.result.map((p) => ({
-        name: p.name,
-        type: p.value?.type,
-        subtype: p.value?.subtype,
-        value: p.value?.value ?? p.value?.description,
-      }));
+      const props = await session.getProperties(scope.object.objectId, { targetId: pauseState.targetId });
+      const variables = await Promise.all(props.result.map(async (prop) => ({
+        name: prop.name,
+        type: prop.value?.type,
+        subtype: prop.value?.subtype,
+        value: p.depth !== undefined && prop.value
+          ? await renderRemoteObject(session, prop.value, p, pauseState.targetId)
+          : prop.value?.value ?? prop.value?.description,
+      })));
 
       return success(formatObject({
         scopeType: scope.type,
@@ -287,21 +799,32 @@ export const evaluateOnFrame: ToolDefinition = {
     expression: z.string().describe('JavaScript expression to evaluate'),
     callFrameIndex: z.number().optional().describe('Call frame index (0 = top). Default: 0'),
     returnByValue: z.boolean().optional().describe('Return result by value (for serializable results). Default: false'),
+    targetId: z.string().optional().describe('Paused target (page / worker / service worker). Default: the most recently paused target'),
+    objectGroup: z.string().optional().describe('Object group for the returned objectId. Default: the current pause\'s group, released on resume'),
+    ...serializationShape,
   }),
   handler: async (session, params) => {
     const p = params as z.infer<typeof evaluateOnFrame.inputSchema>;
     try {
-      if (!session.debugState.isPaused()) {
+      const pauseState = session.debugState.getPauseState(p.targetId);
+      if (!pauseState.isPaused) {
         return error('Not paused. Cannot evaluate on frame when not paused.');
       }
 
-      const frame = session.debugState.getCallFrame(p.callFrameIndex ?? 0);
+      const frame = session.debugState.getCallFrame(p.callFrameIndex ?? 0, pauseState.targetId);
       if (!frame) {
         return error('Call frame not found');
       }
 
+      const objectGroup = session.objectGroupFor('evaluate_on_frame', {
+        objectGroup: p.objectGroup,
+        paused: true,
+        pausedTargetId: pauseState.targetId,
+      });
       const result = await session.evaluateOnCallFrame(frame.callFrameId, p.expression, {
+        objectGroup,
         returnByValue: p.returnByValue,
+        targetId: pauseState.targetId,
       });
 
       if (result.paused) {
@@ -320,11 +843,15 @@ export const evaluateOnFrame: ToolDefinition = {
         }));
       }
 
+      session.trackObject(result.result, objectGroup, 'evaluate_on_frame', pauseState.targetId);
       return success(formatObject({
         type: result.result.type,
         subtype: result.result.subtype,
-        value: result.result.value ?? result.result.description,
+        value: p.depth !== undefined
+          ? await renderRemoteObject(session, result.result, p, pauseState.targetId)
+          : result.result.value ?? result.result.description,
         objectId: result.result.objectId,
+        objectGroup: result.result.objectId ? objectGroup : undefined,
       }));
     } catch (e) {
       return error(e instanceof Error ? e.message : String(e));
@@ -332,17 +859,139 @@ export const evaluateOnFrame: ToolDefinition = {
   },
 };
 
+const newValueShape = {
+  value: z.string().optional().describe('New value as a JSON literal: 42, "text", true, null, {"a":1}, [1,2]; also undefined, NaN, Infinity, 10n'),
+  expression: z.string().optional().describe('New value as an expression evaluated in the frame, e.g. "items.slice(1)" or "new Date()"'),
+};
+
+function toValueInput(p: { value?: string; expression?: string }): ValueInput {
+  if ((p.value === undefined) === (p.expression === undefined)) {
+    throw new Error('Specify exactly one of value or expression');
+  }
+  return p.value !== undefined ? { json: p.value } : { expression: p.expression as string };
+}
+
+export const setVariable: ToolDefinition = {
+  name: 'set_variable',
+  description: 'Change the value of a variable in a paused frame. Use get_pause_context or get_call_frames / get_scope_variables to find frame and scope indexes.',
+  inputSchema: z.object({
+    name: z.string().describe('Variable name'),
+    ...newValueShape,
+    callFrameIndex: z.number().optional().default(0).describe('Call frame index (0 = top)'),
+    scopeIndex: z.number().optional().default(0).describe('Scope index in the frame\'s scope chain (0 = innermost; local, closure and catch scopes can be changed)'),
+    targetId: z.string().optional().describe('Paused target (page / worker / service worker). Default: the most recently paused target'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof setVariable.inputSchema>;
+    try {
+      const value = await session.setVariable(p.callFrameIndex, p.scopeIndex, p.name, toValueInput(p), p.targetId);
+      return success(`${p.name} = ${formatRemoteValue(value)}`);
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const setReturnValue: ToolDefinition = {
+  name: 'set_return_value',
+  description: 'Replace the value the current function is about to return. Only works when paused at the function\'s return (step_over onto its closing line).',
+  inputSchema: z.object({
+    ...newValueShape,
+    targetId: z.string().optional().describe('Paused target (page / worker / service worker). Default: the most recently paused target'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof setReturnValue.inputSchema>;
+    try {
+      const value = await session.setReturnValue(toValueInput(p), p.targetId);
+      return success(`Return value set to ${formatRemoteValue(value)}`);
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const restartFrame: ToolDefinition = {
+  name: 'restart_frame',
+  description: 'Restart a call frame: execution goes back to the start of its function and pauses there. Side effects already performed are not undone. Returns the new location.',
+  inputSchema: z.object({
+    callFrameIndex: z.number().optional().default(0).describe('Call frame index (0 = top)'),
+    targetId: z.string().optional().describe('Paused target (page / worker / service worker). Default: the most recently paused target'),
+    timeout: z.number().optional().default(5000).describe('How long to wait for the pause in ms'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof restartFrame.inputSchema>;
+    try {
+      const pause = await session.restartFrame(p.callFrameIndex, { targetId: p.targetId, timeout: p.timeout });
+      return success(formatObject(await describePause(session, pause, p.timeout)));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
 export const setPauseOnExceptions: ToolDefinition = {
   name: 'set_pause_on_exceptions',
-  description: 'Configure when to pause on exceptions.',
+  description: 'Configure when to pause on exceptions. Filters narrow the pauses: an exception pause that matches none of them is resumed automatically. Every exception pause is recorded in the exception history (see get_exception_history).',
   inputSchema: z.object({
     state: z.enum(['none', 'uncaught', 'all']).describe('When to pause: none, uncaught, or all exceptions'),
+    filters: z.array(z.object({
+      classPattern: z.string().optional().describe('Regex the exception class must match, e.g. "^TypeError$"'),
+      messagePattern: z.string().optional().describe('Regex the message (or thrown value) must match'),
+      urlPattern: z.string().optional().describe('URL pattern (glob or /regex/) of the script that threw'),
+      caught: z.enum(['caught', 'uncaught', 'any']).optional().describe('Only caught or only uncaught exceptions'),
+    })).optional().describe('Pause only on exceptions matching any of these filters. Replaces the current filters; omit to clear them.'),
   }),
   handler: async (session, params) => {
     const p = params as z.infer<typeof setPauseOnExceptions.inputSchema>;
     try {
-      await session.setPauseOnExceptions(p.state);
-      return success(`Pause on exceptions set to: ${p.state}`);
+      await session.setPauseOnExceptions(p.state, p.filters ?? []);
+      const filters = p.filters?.length ? ` with ${p.filters.length} filter(s)` : '';
+      return success(`Pause on exceptions set to: ${p.state}${filters}`);
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const getExceptionHistory: ToolDefinition = {
+  name: 'get_exception_history',
+  description: 'List recent exceptions that paused execution (newest first): class, message, throwing location, whether it was uncaught, whether the exception filters resumed it, the top frames and a snapshot of the top frame\'s local variables.',
+  inputSchema: z.object({
+    limit: z.number().optional().default(10).describe('Maximum exceptions to return'),
+    includeResumed: z.boolean().optional().default(true).describe('Include exceptions the filters resumed automatically'),
+    maxHistory: z.number().optional().describe('Change how many exceptions are kept (default 50)'),
+    clear: z.boolean().optional().default(false).describe('Clear the history after returning it'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof getExceptionHistory.inputSchema>;
+    try {
+      if (p.maxHistory !== undefined) {
+        session.debugState.setMaxExceptionHistory(p.maxHistory);
+      }
+      const exceptions = session.debugState.getExceptionHistory()
+        .filter((e) => p.includeResumed || e.paused)
+        .slice(0, p.limit);
+      if (p.clear) {
+        session.debugState.clearExceptionHistory();
+      }
+
+      return success(formatObject({
+        count: exceptions.length,
+        filters: session.debugState.getExceptionFilters(),
+        exceptions: exceptions.map((e) => ({
+          id: e.id,
+          time: new Date(e.timestamp).toISOString(),
+          targetId: e.targetId,
+          reason: e.reason,
+          className: e.className,
+          message: e.message,
+          uncaught: e.uncaught,
+          paused: e.paused,
+          url: e.url,
+          frames: e.frames.map((f) => `${f.functionName || '(anonymous)'} (${f.url || 'unknown'}:${f.lineNumber + 1}:${f.columnNumber + 1})`),
+          variables: e.variables,
+        })),
+      }));
     } catch (e) {
       return error(e instanceof Error ? e.message : String(e));
     }
@@ -368,9 +1017,10 @@ export const setAsyncStackTraceDepth: ToolDefinition = {
 
 export const listScripts: ToolDefinition = {
   name: 'list_scripts',
-  description: 'List all parsed scripts.',
+  description: 'List all parsed scripts, from the page and every attached worker / service worker.',
   inputSchema: z.object({
     urlPattern: z.string().optional().describe('Filter scripts by URL pattern'),
+    targetId: z.string().optional().describe('Filter by the target that parsed the script. See list_attached_sessions.'),
   }),
   handler: async (session, params) => {
     const p = params as z.infer<typeof listScripts.inputSchema>;
@@ -379,9 +1029,13 @@ export const listScripts: ToolDefinition = {
       if (p.urlPattern) {
         scripts = session.scriptRegistry.findScriptsByUrlPattern(p.urlPattern);
       }
+      if (p.targetId) {
+        scripts = scripts.filter((s) => s.targetId === p.targetId);
+      }
 
       const formatted = scripts.map((s) => ({
         scriptId: s.scriptId,
+        targetId: s.targetId,
         url: s.url || '(inline)',
         startLine: s.startLine,
         endLine: s.endLine,
@@ -399,6 +1053,57 @@ export const listScripts: ToolDefinition = {
   },
 };
 
+export const searchScripts: ToolDefinition = {
+  name: 'search_scripts',
+  description: 'Search the source of every parsed script (or those matching urlPattern) for a string or regex. Returns scriptId, URL, line and column of each match with surrounding lines. Sources of scripts with matches are cached, so repeated searches are fast.',
+  inputSchema: z.object({
+    query: z.string().describe('Text to search for'),
+    isRegex: z.boolean().optional().default(false).describe('Treat query as a regular expression'),
+    caseSensitive: z.boolean().optional().default(false).describe('Match case'),
+    urlPattern: z.string().optional().describe('Only search scripts whose URL matches this pattern (glob or /regex/)'),
+    targetId: z.string().optional().describe('Only search scripts parsed by this target'),
+    includeEval: z.boolean().optional().default(false).describe('Also search scripts without a URL (eval, injected code)'),
+    contextLines: z.number().optional().default(1).describe('Lines of context before and after each match'),
+    maxResults: z.number().optional().default(50).describe('Maximum matches to return'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof searchScripts.inputSchema>;
+    try {
+      if (p.isRegex) {
+        // Fail on a bad pattern here rather than once per script.
+        new RegExp(p.query);
+      }
+      const result = await session.searchScripts(p.query, {
+        isRegex: p.isRegex,
+        caseSensitive: p.caseSensitive,
+        urlPattern: p.urlPattern,
+        targetId: p.targetId,
+        includeEval: p.includeEval,
+        contextLines: p.contextLines,
+        maxMatches: p.maxResults,
+      });
+
+      return success(formatObject({
+        scriptsSearched: result.scriptsSearched,
+        count: result.matches.length,
+        truncated: result.truncated || undefined,
+        matches: result.matches.map((m) => ({
+          scriptId: m.scriptId,
+          targetId: m.targetId,
+          url: m.url || '(eval)',
+          lineNumber: m.lineNumber,
+          columnNumber: m.columnNumber,
+          lineContent: m.lineContent,
+          before: m.before.length > 0 ? m.before : undefined,
+          after: m.after.length > 0 ? m.after : undefined,
+        })),
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
 export const getScriptSource: ToolDefinition = {
   name: 'get_script_source',
   description: 'Get the source code of a script.',
@@ -406,11 +1111,135 @@ export const getScriptSource: ToolDefinition = {
     scriptId: z.string().describe('Script ID'),
     startLine: z.number().optional().describe('Starting line to return (0-based)'),
     endLine: z.number().optional().describe('Ending line to return (exclusive)'),
+    targetId: z.string().optional().describe('Target that parsed the script. Resolved from list_scripts when omitted.'),
   }),
   handler: async (session, params) => {
     const p = params as z.infer<typeof getScriptSource.inputSchema>;
     try {
-      let source = await session.getScriptSource(p.scriptId);
+      let source = await session.getScriptSource(p.scriptId, p.targetId);
+
+      if (p.startLine !== undefined || p.endLine !== undefined) {
+        const lines = source.split('\n');
+        const start = p.startLine ?? 0;
+        const end = p.endLine ?? lines.length;
+        source = lines.slice(start, end).join('\n');
+      }
+
+      return success(source);
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const setScriptSource: ToolDefinition = {
+  name: 'set_script_source',
+  description: 'Live-edit a script: replace its source in the running page. Give exactly one of source (full replacement), diff (unified diff against the current source) or lineRange. Functions already on the stack keep running the old code unless allowTopFrameEditing restarts the paused top frame.',
+  inputSchema: z.object({
+    scriptId: z.string().describe('Script ID'),
+    source: z.string().optional().describe('Full replacement source'),
+    diff: z.string().optional().describe('Unified diff (diff -u / git diff) against the current source'),
+    lineRange: z.object({
+      startLine: z.number().describe('First line to replace (0-based)'),
+      endLine: z.number().describe('Line after the last one to replace (exclusive); equal to startLine to insert'),
+      text: z.string().describe('Replacement text; empty to delete the lines'),
+    }).optional().describe('Replace a range of lines of the current source'),
+    dryRun: z.boolean().optional().default(false).describe('Only check that the new source compiles'),
+    allowTopFrameEditing: z.boolean().optional().default(false).describe('Allow editing the function of the paused top frame; it is restarted'),
+    targetId: z.string().optional().describe('Target that parsed the script. Resolved from list_scripts when omitted.'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof setScriptSource.inputSchema>;
+    try {
+      const given = [p.source, p.diff, p.lineRange].filter((v) => v !== undefined).length;
+      if (given !== 1) {
+        return error('Provide exactly one of source, diff or lineRange');
+      }
+
+      let source: string;
+      if (p.source !== undefined) {
+        source = p.source;
+      } else {
+        const current = await session.getScriptSource(p.scriptId, p.targetId);
+        source = p.diff !== undefined ? applyUnifiedDiff(current, p.diff) : applyLineRangePatch(current, p.lineRange!);
+      }
+
+      const result = await session.setScriptSource(p.scriptId, source, {
+        dryRun: p.dryRun,
+        allowTopFrameEditing: p.allowTopFrameEditing,
+        targetId: p.targetId,
+      });
+      if (result.status === 'CompileError') {
+        const details = result.exceptionDetails;
+        const where = details ? ` at line ${details.lineNumber + 1}, column ${details.columnNumber + 1}` : '';
+        return error(`Compile error${where}: ${details?.exception?.description ?? details?.text ?? 'unknown'}`);
+      }
+      if (result.status !== 'Ok') {
+        return error(`Live edit rejected: ${result.status}`);
+      }
+
+      return success(formatObject({
+        scriptId: p.scriptId,
+        status: result.status,
+        dryRun: p.dryRun,
+        lines: source.split('\n').length,
+        stackChanged: result.stackChanged,
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const listOriginalSources: ToolDefinition = {
+  name: 'list_original_sources',
+  description: 'List original (pre-bundling) source files known from the source maps of parsed scripts. Loads any source maps not fetched yet.',
+  inputSchema: z.object({
+    pattern: z.string().optional().describe('Only sources whose URL contains this substring'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof listOriginalSources.inputSchema>;
+    try {
+      await session.loadAllSourceMaps();
+      let sources = session.sourceMaps.getAllSources();
+      if (p.pattern) {
+        sources = sources.filter((s) => s.source.includes(p.pattern as string));
+      }
+
+      const failedMaps = session.scriptRegistry
+        .getAllScripts()
+        .map((s) => ({ scriptId: s.scriptId, url: s.url, error: session.sourceMaps.getError(s.scriptId, s.targetId) }))
+        .filter((s) => s.error !== undefined);
+
+      return success(formatObject({
+        count: sources.length,
+        sources: sources.map((s) => ({
+          source: s.source,
+          scriptId: s.scriptId,
+          targetId: s.targetId,
+          scriptUrl: session.scriptRegistry.getScript(s.scriptId, s.targetId)?.url,
+          hasContent: s.hasContent,
+        })),
+        ...(failedMaps.length > 0 ? { failedMaps } : {}),
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const getOriginalSource: ToolDefinition = {
+  name: 'get_original_source',
+  description: 'Get the content of an original (source-mapped) file. Line numbers match set_breakpoint with originalSource.',
+  inputSchema: z.object({
+    source: z.string().describe('Original source from list_original_sources (full URL or path suffix)'),
+    startLine: z.number().optional().describe('Starting line to return (0-based)'),
+    endLine: z.number().optional().describe('Ending line to return (exclusive)'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof getOriginalSource.inputSchema>;
+    try {
+      let source = await session.getOriginalSource(p.source);
 
       if (p.startLine !== undefined || p.endLine !== undefined) {
         const lines = source.split('\n');
@@ -428,16 +1257,25 @@ export const getScriptSource: ToolDefinition = {
 
 export const getPauseState: ToolDefinition = {
   name: 'get_pause_state',
-  description: 'Get current pause state of the debugger.',
-  inputSchema: z.object({}),
-  handler: async (session) => {
+  description: 'Get current pause state of the debugger, including every paused target (page, workers, service workers).',
+  inputSchema: z.object({
+    targetId: z.string().optional().describe('Paused target (page / worker / service worker). Default: the most recently paused target'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof getPauseState.inputSchema>;
     try {
-      const state = session.debugState.getPauseState();
+      const state = session.debugState.getPauseState(p.targetId);
       return success(formatObject({
         isPaused: state.isPaused,
+        targetId: state.targetId,
         reason: state.reason,
         callFrameCount: state.callFrames?.length ?? 0,
         hitBreakpoints: state.hitBreakpoints,
+        pausedTargets: session.debugState.getPausedTargets().map((t) => ({
+          targetId: t.targetId,
+          reason: t.reason,
+          topFrame: t.callFrames?.[0]?.functionName || '(anonymous)',
+        })),
       }));
     } catch (e) {
       return error(e instanceof Error ? e.message : String(e));
@@ -445,24 +1283,80 @@ export const getPauseState: ToolDefinition = {
   },
 };
 
+export const getPauseContext: ToolDefinition = {
+  name: 'get_pause_context',
+  description: `Snapshot of the current pause in one call: the reason with decoded data (exception, DOM mutation, XHR URL, event), the top frames with surrounding source, their local and closure variables, and the async stack trace.
+Use this first after a pause instead of get_pause_state + get_call_frames + get_scope_variables.`,
+  inputSchema: z.object({
+    targetId: z.string().optional().describe('Paused target (page / worker / service worker). Default: the most recently paused target'),
+    frameCount: z.number().optional().default(3).describe('Number of top frames to include'),
+    contextLines: z.number().optional().default(2).describe('Source lines shown above and below each frame location'),
+    depth: z.number().optional().default(1).describe('Levels of object properties to expand in variables (0 = one-line previews)'),
+    maxProperties: z.number().optional().default(20).describe('Maximum properties listed per object'),
+    includeClosures: z.boolean().optional().default(true).describe('Include closure scopes, not only local and block scopes'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof getPauseContext.inputSchema>;
+    try {
+      if (!session.debugState.isPaused(p.targetId)) {
+        return error('Not paused');
+      }
+      const context = await session.getPauseContext({
+        targetId: p.targetId,
+        frameCount: p.frameCount,
+        contextLines: p.contextLines,
+        depth: p.depth,
+        maxProperties: p.maxProperties,
+        includeClosures: p.includeClosures,
+      });
+      return success(formatObject(context));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
 export const debuggerTools: ToolDefinition[] = [
   debuggerEnable,
   debuggerDisable,
   setBreakpoint,
   setBreakpointById,
+  setFunctionBreakpoint,
+  setBreakpointByName,
   removeBreakpoint,
   listBreakpoints,
+  toggleBreakpoint,
+  setBreakpointHitCondition,
+  setBreakpointsActive,
+  setLogpoint,
+  listLogpoints,
+  getLogpointHits,
   pause,
   resume,
   stepOver,
   stepInto,
   stepOut,
+  stepUntil,
+  continueToLocation,
   getCallFrames,
   getScopeVariables,
   evaluateOnFrame,
+  setVariable,
+  setReturnValue,
+  restartFrame,
   setPauseOnExceptions,
+  getExceptionHistory,
   setAsyncStackTraceDepth,
   listScripts,
+  searchScripts,
   getScriptSource,
+  setScriptSource,
+  listOriginalSources,
+  getOriginalSource,
   getPauseState,
+  getPauseContext,
+  addIgnorePatterns,
+  removeIgnorePatterns,
+  setSourceMapIgnoreList,
+  listIgnorePatterns,
 ];
@@ -118,13 +118,20 @@ export const getEventListeners: ToolDefinition = {
   handler: async (session, params) => {
     const p = params as z.infer<typeof getEventListeners.inputSchema>;
     try {
-      // First resolve the node to get objectId
-      const obj = await session.resolveNode(p.nodeId);
+      // First resolve the node to get objectId. The handle is only needed
+      // for this call, so its group is released right after.
+      const objectGroup = session.objectGroupFor('get_event_listeners');
+      const obj = await session.resolveNode(p.nodeId, objectGroup);
       if (!obj.objectId) {
         return error('Could not resolve node to object');
       }
 
-      const listeners = await session.getEventListeners(obj.objectId, p.depth);
+      let listeners: Awaited<ReturnType<typeof session.getEventListeners>>;
+      try {
+        listeners = await session.getEventListeners(obj.objectId, p.depth);
+      } finally {
+        await session.releaseObjectGroup(objectGroup).catch(() => {});
+      }
 
       const formatted = listeners.map((l) => ({
         type: l.type,
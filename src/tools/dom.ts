@@ -192,17 +192,21 @@ export const resolveNode: ToolDefinition = {
   description: 'Get a JavaScript object reference for a DOM node.',
   inputSchema: z.object({
     nodeId: z.number().describe('Node ID from querySelector'),
+    objectGroup: z.string().optional().describe('Object group for the returned objectId. Default: a new group for this call (see release_object_group)'),
   }),
   handler: async (session, params) => {
     const p = params as z.infer<typeof resolveNode.inputSchema>;
     try {
-      const obj = await session.resolveNode(p.nodeId);
+      const objectGroup = session.objectGroupFor('resolve_node', { objectGroup: p.objectGroup });
+      const obj = await session.resolveNode(p.nodeId, objectGroup);
+      session.trackObject(obj, objectGroup, 'resolve_node');
       return success(formatObject({
         type: obj.type,
         subtype: obj.subtype,
         className: obj.className,
         description: obj.description,
         objectId: obj.objectId,
+        objectGroup: obj.objectId ? objectGroup : undefined,
       }));
     } catch (e) {
       return error(e instanceof Error ? e.message : String(e));
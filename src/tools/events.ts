@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import type { ToolDefinition } from './types.js';
+import { success, error, formatObject } from './types.js';
+import { EVENT_KINDS } from '../state/index.js';
+
+export const subscribeEvents: ToolDefinition = {
+  name: 'subscribe_events',
+  description: `Choose which debugger events are pushed to the client as they happen, instead of polling.
+Events: ${EVENT_KINDS.join(', ')}.
+Delivery "logging" sends MCP log messages (filtered by the client's logging level), "notification" sends notifications/cdp/event, "both" sends both.
+Subscriptions are added to the current set; returns the resulting configuration.`,
+  inputSchema: z.object({
+    events: z.array(z.enum(EVENT_KINDS)).optional().describe('Event kinds to subscribe to'),
+    consoleLevel: z.enum(['debug', 'log', 'info', 'warning', 'error']).optional().describe('Minimum console level forwarded for "console" events (default: error)'),
+    delivery: z.enum(['logging', 'notification', 'both']).optional().describe('How events are delivered (default: logging)'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof subscribeEvents.inputSchema>;
+    try {
+      session.eventSubscriptions.subscribe(p.events ?? [], {
+        consoleLevel: p.consoleLevel,
+        delivery: p.delivery,
+      });
+      return success(formatObject(session.eventSubscriptions.toJSON()));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const unsubscribeEvents: ToolDefinition = {
+  name: 'unsubscribe_events',
+  description: 'Stop pushing the given event kinds to the client. Omit events to unsubscribe from everything.',
+  inputSchema: z.object({
+    events: z.array(z.enum(EVENT_KINDS)).optional().describe('Event kinds to unsubscribe from'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof unsubscribeEvents.inputSchema>;
+    try {
+      session.eventSubscriptions.unsubscribe(p.events ?? [...EVENT_KINDS]);
+      return success(formatObject(session.eventSubscriptions.toJSON()));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const eventTools: ToolDefinition[] = [
+  subscribeEvents,
+  unsubscribeEvents,
+];
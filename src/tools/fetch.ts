@@ -3,8 +3,10 @@ import { readFile } from 'node:fs/promises';
 import { extname } from 'node:path';
 import type { ToolDefinition } from './types.js';
 import { success, error, formatObject } from './types.js';
-import type { InterceptAction } from '../state/FetchInterceptor.js';
+import type { InterceptAction, ResponseEdits, BodyReplacement } from '../state/FetchInterceptor.js';
+import type { JsonPatchOperation } from '../utils/json-patch.js';
 import type { ResourceType } from '../utils/types.js';
+import { parseHar, harToInterceptRules } from '../utils/har.js';
 
 const mimeTypes: Record<string, string> = {
   '.html': 'text/html',
@@ -38,26 +40,66 @@ function getMimeType(filePath: string): string {
   return mimeTypes[ext] ?? 'application/octet-stream';
 }
 
+// Shared by add_intercept_rule (Response-stage modify rules) and
+// modify_intercepted_response.
+const responseEditsShape = {
+  responseStatus: z.number().optional().describe('Replace the response status code'),
+  setResponseHeaders: z.record(z.string()).optional().describe('Response headers to add or overwrite'),
+  removeResponseHeaders: z.array(z.string()).optional().describe('Response header names to remove'),
+  bodyReplacements: z.array(z.object({
+    search: z.string().describe('Text to find (or a regex source when regex=true)'),
+    replace: z.string().describe('Replacement text; $1 etc. refer to regex groups'),
+    regex: z.boolean().optional().describe('Treat search as a regular expression'),
+    flags: z.string().optional().describe('Regex flags (default: g)'),
+  })).optional().describe('String/regex replacements applied to the response body, in order. The body must be UTF-8 text'),
+  jsonPatch: z.array(z.object({
+    op: z.enum(['add', 'remove', 'replace', 'move', 'copy', 'test']),
+    path: z.string().describe('JSON pointer, e.g. /items/0/price'),
+    value: z.unknown().optional(),
+    from: z.string().optional().describe('Source pointer for move/copy'),
+  })).optional().describe('JSON Patch (RFC 6902) operations applied to the response body after replacements'),
+};
+
+function toResponseEdits(p: {
+  responseStatus?: number;
+  setResponseHeaders?: Record<string, string>;
+  removeResponseHeaders?: string[];
+  bodyReplacements?: BodyReplacement[];
+  jsonPatch?: JsonPatchOperation[];
+}): ResponseEdits {
+  return {
+    status: p.responseStatus,
+    setHeaders: p.setResponseHeaders,
+    removeHeaders: p.removeResponseHeaders,
+    replacements: p.bodyReplacements,
+    jsonPatch: p.jsonPatch,
+  };
+}
+
 export const fetchEnable: ToolDefinition = {
   name: 'fetch_enable',
-  description: 'Enable request interception. Requests matching rules will be paused.',
+  description: 'Enable request interception on the page and all attached workers/service workers. Requests matching modify/mock/fail rules are handled automatically; requests matching pause rules, or no rule, are paused.',
   inputSchema: z.object({
     patterns: z.array(z.object({
       urlPattern: z.string().optional().describe('URL pattern to intercept (glob or regex)'),
       resourceType: z.string().optional().describe('Resource type to intercept'),
-    })).optional().describe('Patterns to intercept. If empty, intercepts all requests.'),
+      requestStage: z.enum(['Request', 'Response']).optional().describe('Pause before the request is sent (Request, default) or once the response headers arrive (Response)'),
+    })).optional().describe('Patterns to intercept. If omitted, patterns are built from the intercept rules; with no rules, all requests are intercepted.'),
+    handleAuthRequests: z.boolean().optional().describe('Intercept HTTP/proxy auth challenges. Matching stored credentials (add_auth_credentials) are sent automatically; others wait in list_auth_challenges.'),
   }),
   handler: async (session, params) => {
     const p = params as z.infer<typeof fetchEnable.inputSchema>;
     try {
-      const patterns = p.patterns?.map((pat: { urlPattern?: string; resourceType?: string }) => ({
+      const patterns = p.patterns?.map((pat: { urlPattern?: string; resourceType?: string; requestStage?: 'Request' | 'Response' }) => ({
         urlPattern: pat.urlPattern ?? '*',
         resourceType: pat.resourceType,
-        requestStage: 'Request' as const,
+        requestStage: pat.requestStage ?? 'Request',
       }));
 
-      await session.enableFetch(patterns);
-      return success('Fetch interception enabled');
+      await session.enableFetch(patterns, { handleAuthRequests: p.handleAuthRequests });
+      return success(session.isFetchHandlingAuth()
+        ? 'Fetch interception enabled (handling auth challenges)'
+        : 'Fetch interception enabled');
     } catch (e) {
       return error(e instanceof Error ? e.message : String(e));
     }
@@ -80,23 +122,28 @@ export const fetchDisable: ToolDefinition = {
 
 export const addInterceptRule: ToolDefinition = {
   name: 'add_intercept_rule',
-  description: 'Add a rule for how to handle intercepted requests.',
+  description: `Add a rule for how to handle intercepted requests.
+modify, mock and fail rules are applied automatically as requests arrive; pause rules leave the request in list_paused_requests.
+With stage=Response the rule runs on the real server response: modify rewrites its status, headers and body (replacements, JSON patch) before the page sees it.`,
   inputSchema: z.object({
     pattern: z.string().describe('URL pattern to match (glob or /regex/)'),
     action: z.enum(['pause', 'modify', 'mock', 'fail']).describe('Action to take'),
+    stage: z.enum(['Request', 'Response']).optional().describe('Interception stage (default: Request)'),
     resourceTypes: z.array(z.string()).optional().describe('Resource types to match'),
-    modifyHeaders: z.record(z.string()).optional().describe('Headers to add/modify (for action=modify)'),
-    modifyUrl: z.string().optional().describe('New URL (for action=modify)'),
+    modifyHeaders: z.record(z.string()).optional().describe('Request headers to add/modify (for action=modify, stage=Request)'),
+    modifyUrl: z.string().optional().describe('New URL (for action=modify, stage=Request)'),
     mockStatus: z.number().optional().describe('Response status (for action=mock)'),
     mockHeaders: z.record(z.string()).optional().describe('Response headers (for action=mock)'),
     mockBody: z.string().optional().describe('Response body (for action=mock)'),
     failReason: z.string().optional().describe('Error reason (for action=fail)'),
+    ...responseEditsShape,
   }),
   handler: async (session, params) => {
     const p = params as z.infer<typeof addInterceptRule.inputSchema>;
     try {
       const ruleId = session.fetchInterceptor.addRule({
         pattern: p.pattern,
+        stage: p.stage,
         action: p.action as InterceptAction,
         resourceTypes: p.resourceTypes as ResourceType[] | undefined,
         modifyHeaders: p.modifyHeaders,
@@ -107,6 +154,7 @@ export const addInterceptRule: ToolDefinition = {
           body: p.mockBody ?? '',
         } : undefined,
         failReason: p.failReason,
+        responseEdits: p.action === 'modify' && p.stage === 'Response' ? toResponseEdits(p) : undefined,
         enabled: true,
       });
 
@@ -142,7 +190,7 @@ export const removeInterceptRule: ToolDefinition = {
 
 export const listInterceptRules: ToolDefinition = {
   name: 'list_intercept_rules',
-  description: 'List all intercept rules.',
+  description: 'List all intercept rules, with how many requests each has matched (hitCount).',
   inputSchema: z.object({}),
   handler: async (session) => {
     try {
@@ -156,18 +204,25 @@ export const listInterceptRules: ToolDefinition = {
 
 export const listPausedRequests: ToolDefinition = {
   name: 'list_paused_requests',
-  description: 'List requests that are paused waiting for a decision.',
-  inputSchema: z.object({}),
-  handler: async (session) => {
+  description: 'List requests that are paused waiting for a decision (matched a pause rule, or no rule). Includes requests from workers and service workers.',
+  inputSchema: z.object({
+    targetId: z.string().optional().describe('Only list requests paused by this target (page/worker/SW). See list_attached_sessions.'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof listPausedRequests.inputSchema>;
     try {
-      const paused = session.fetchInterceptor.getAllPausedRequests();
+      const paused = session.fetchInterceptor.getAllPausedRequests(p.targetId);
       return success(formatObject({
         count: paused.length,
         requests: paused.map((r) => ({
           requestId: r.requestId,
+          targetId: r.targetId,
           url: r.url,
           method: r.method,
           resourceType: r.resourceType,
+          stage: r.stage,
+          responseStatusCode: r.responseStatusCode,
+          responseErrorReason: r.responseErrorReason,
           matchedRuleId: r.matchedRule?.id,
           timestamp: r.timestamp,
         })),
@@ -180,9 +235,10 @@ export const listPausedRequests: ToolDefinition = {
 
 export const continueRequest: ToolDefinition = {
   name: 'continue_request',
-  description: 'Continue a paused request, optionally modifying it.',
+  description: 'Continue a paused request, optionally modifying it. Requests paused at the Response stage can only be continued unmodified; use modify_intercepted_response to change them.',
   inputSchema: z.object({
     requestId: z.string().describe('Request ID from list_paused_requests'),
+    targetId: z.string().optional().describe('Target that paused the request. Optional; resolved automatically when omitted.'),
     url: z.string().optional().describe('Override URL'),
     method: z.string().optional().describe('Override method'),
     postData: z.string().optional().describe('Override POST data'),
@@ -191,7 +247,7 @@ export const continueRequest: ToolDefinition = {
   handler: async (session, params) => {
     const p = params as z.infer<typeof continueRequest.inputSchema>;
     try {
-      const paused = session.fetchInterceptor.getPausedRequest(p.requestId);
+      const paused = session.fetchInterceptor.getPausedRequest(p.requestId, p.targetId);
       if (!paused) {
         return error('Request not found in paused requests');
       }
@@ -205,7 +261,7 @@ export const continueRequest: ToolDefinition = {
         method: p.method,
         postData: p.postData,
         headers,
-      });
+      }, paused.targetId);
 
       return success('Request continued');
     } catch (e) {
@@ -219,6 +275,7 @@ export const fulfillRequest: ToolDefinition = {
   description: 'Respond to a paused request with a mock response.',
   inputSchema: z.object({
     requestId: z.string().describe('Request ID from list_paused_requests'),
+    targetId: z.string().optional().describe('Target that paused the request. Optional; resolved automatically when omitted.'),
     status: z.number().describe('HTTP status code'),
     statusText: z.string().optional().describe('HTTP status text'),
     headers: z.record(z.string()).optional().describe('Response headers'),
@@ -227,7 +284,7 @@ export const fulfillRequest: ToolDefinition = {
   handler: async (session, params) => {
     const p = params as z.infer<typeof fulfillRequest.inputSchema>;
     try {
-      const paused = session.fetchInterceptor.getPausedRequest(p.requestId);
+      const paused = session.fetchInterceptor.getPausedRequest(p.requestId, p.targetId);
       if (!paused) {
         return error('Request not found in paused requests');
       }
@@ -240,7 +297,7 @@ export const fulfillRequest: ToolDefinition = {
         responsePhrase: p.statusText,
         responseHeaders: headers,
         body: p.body,
-      });
+      }, paused.targetId);
 
       return success('Request fulfilled with mock response');
     } catch (e) {
@@ -254,6 +311,7 @@ export const fulfillRequestWithFile: ToolDefinition = {
   description: 'Respond to a paused request with file contents. Automatically detects Content-Type from file extension.',
   inputSchema: z.object({
     requestId: z.string().describe('Request ID from list_paused_requests'),
+    targetId: z.string().optional().describe('Target that paused the request. Optional; resolved automatically when omitted.'),
     filePath: z.string().describe('Path to the file to serve as response body'),
     status: z.number().optional().default(200).describe('HTTP status code (default: 200)'),
     statusText: z.string().optional().describe('HTTP status text'),
@@ -263,7 +321,7 @@ export const fulfillRequestWithFile: ToolDefinition = {
   handler: async (session, params) => {
     const p = params as z.infer<typeof fulfillRequestWithFile.inputSchema>;
     try {
-      const paused = session.fetchInterceptor.getPausedRequest(p.requestId);
+      const paused = session.fetchInterceptor.getPausedRequest(p.requestId, p.targetId);
       if (!paused) {
         return error('Request not found in paused requests');
       }
@@ -290,7 +348,7 @@ export const fulfillRequestWithFile: ToolDefinition = {
         responsePhrase: p.statusText,
         responseHeaders: headerEntries,
         bodyBase64: fileContent.toString('base64'),
-      });
+      }, paused.targetId);
 
       return success(formatObject({
         message: 'Request fulfilled with file contents',
@@ -309,6 +367,7 @@ export const failRequest: ToolDefinition = {
   description: 'Fail a paused request with an error.',
   inputSchema: z.object({
     requestId: z.string().describe('Request ID from list_paused_requests'),
+    targetId: z.string().optional().describe('Target that paused the request. Optional; resolved automatically when omitted.'),
     reason: z.enum([
       'Failed', 'Aborted', 'TimedOut', 'AccessDenied', 'ConnectionClosed',
       'ConnectionReset', 'ConnectionRefused', 'ConnectionAborted', 'ConnectionFailed',
@@ -319,12 +378,12 @@ export const failRequest: ToolDefinition = {
   handler: async (session, params) => {
     const p = params as z.infer<typeof failRequest.inputSchema>;
     try {
-      const paused = session.fetchInterceptor.getPausedRequest(p.requestId);
+      const paused = session.fetchInterceptor.getPausedRequest(p.requestId, p.targetId);
       if (!paused) {
         return error('Request not found in paused requests');
       }
 
-      await session.failRequest(p.requestId, p.reason);
+      await session.failRequest(p.requestId, p.reason, paused.targetId);
       return success('Request failed');
     } catch (e) {
       return error(e instanceof Error ? e.message : String(e));
@@ -332,6 +391,233 @@ export const failRequest: ToolDefinition = {
   },
 };
 
+export const getInterceptedResponse: ToolDefinition = {
+  name: 'get_intercepted_response',
+  description: 'Get the status, headers and body of a request paused at the Response stage.',
+  inputSchema: z.object({
+    requestId: z.string().describe('Request ID from list_paused_requests'),
+    targetId: z.string().optional().describe('Target that paused the request. Optional; resolved automatically when omitted.'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof getInterceptedResponse.inputSchema>;
+    try {
+      const paused = session.fetchInterceptor.getPausedRequest(p.requestId, p.targetId);
+      if (!paused) {
+        return error('Request not found in paused requests');
+      }
+      if (paused.stage !== 'Response') {
+        return error('Request is paused at the Request stage; there is no response yet');
+      }
+      if (paused.responseErrorReason) {
+        return success(formatObject({ requestId: p.requestId, url: paused.url, responseErrorReason: paused.responseErrorReason }));
+      }
+
+      const result = await session.getInterceptedResponseBody(p.requestId, paused.targetId);
+      return success(formatObject({
+        requestId: p.requestId,
+        url: paused.url,
+        status: paused.responseStatusCode,
+        statusText: paused.responseStatusText,
+        headers: paused.responseHeaders,
+        base64Encoded: result.base64Encoded,
+        body: result.base64Encoded ? `[Base64 encoded, ${result.body.length} chars]` : result.body,
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const modifyInterceptedResponse: ToolDefinition = {
+  name: 'modify_intercepted_response',
+  description: 'Rewrite the real response of a request paused at the Response stage (status, headers, body replacements, JSON patch) and deliver it to the page.',
+  inputSchema: z.object({
+    requestId: z.string().describe('Request ID from list_paused_requests'),
+    targetId: z.string().optional().describe('Target that paused the request. Optional; resolved automatically when omitted.'),
+    ...responseEditsShape,
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof modifyInterceptedResponse.inputSchema>;
+    try {
+      const result = await session.modifyInterceptedResponse(p.requestId, toResponseEdits(p), p.targetId);
+      return success(formatObject({
+        message: 'Response modified and delivered',
+        ...result,
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const addAuthCredentials: ToolDefinition = {
+  name: 'add_auth_credentials',
+  description: 'Store credentials answered automatically to matching HTTP (Basic/Digest) or proxy auth challenges. Requires fetch_enable with handleAuthRequests.',
+  inputSchema: z.object({
+    origin: z.string().describe('Origin pattern (glob or /regex/), e.g. https://intranet.example.com or https://*.example.com'),
+    realm: z.string().optional().describe('Realm pattern; matches any realm when omitted'),
+    source: z.enum(['Server', 'Proxy']).optional().describe('Only answer server or proxy challenges; both when omitted'),
+    username: z.string().describe('Username'),
+    password: z.string().describe('Password'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof addAuthCredentials.inputSchema>;
+    try {
+      const credentialId = session.fetchInterceptor.addCredential({
+        origin: p.origin,
+        realm: p.realm,
+        source: p.source,
+        username: p.username,
+        password: p.password,
+      });
+      return success(formatObject({
+        credentialId,
+        handlingAuth: session.isFetchHandlingAuth(),
+        ...(session.isFetchHandlingAuth() ? {} : { note: 'Call fetch_enable with handleAuthRequests=true to receive auth challenges.' }),
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const removeAuthCredentials: ToolDefinition = {
+  name: 'remove_auth_credentials',
+  description: 'Remove stored auth credentials.',
+  inputSchema: z.object({
+    credentialId: z.string().describe('Credential ID from add_auth_credentials'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof removeAuthCredentials.inputSchema>;
+    try {
+      if (!session.fetchInterceptor.removeCredential(p.credentialId)) {
+        return error('Credentials not found');
+      }
+      return success(`Credentials ${p.credentialId} removed`);
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const listAuthCredentials: ToolDefinition = {
+  name: 'list_auth_credentials',
+  description: 'List stored auth credentials (passwords are not shown).',
+  inputSchema: z.object({}),
+  handler: async (session) => {
+    try {
+      const credentials = session.fetchInterceptor.getAllCredentials();
+      return success(formatObject(credentials.map(({ password: _password, ...rest }) => rest)));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const listAuthChallenges: ToolDefinition = {
+  name: 'list_auth_challenges',
+  description: 'List pending auth challenges waiting for an answer (no stored credentials matched, or they were rejected).',
+  inputSchema: z.object({
+    targetId: z.string().optional().describe('Only list challenges from this target'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof listAuthChallenges.inputSchema>;
+    try {
+      const challenges = session.fetchInterceptor.getAllAuthChallenges(p.targetId);
+      return success(formatObject({
+        count: challenges.length,
+        challenges: challenges.map((c) => ({
+          requestId: c.requestId,
+          targetId: c.targetId,
+          url: c.url,
+          method: c.method,
+          source: c.challenge.source,
+          origin: c.challenge.origin,
+          scheme: c.challenge.scheme,
+          realm: c.challenge.realm,
+          credentialsRejected: c.credentialsRejected,
+          timestamp: c.timestamp,
+        })),
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const respondToAuthChallenge: ToolDefinition = {
+  name: 'respond_to_auth_challenge',
+  description: 'Answer a pending auth challenge: provide credentials, cancel, or let the browser handle it (Default).',
+  inputSchema: z.object({
+    requestId: z.string().describe('Request ID from list_auth_challenges'),
+    targetId: z.string().optional().describe('Target that raised the challenge. Optional; resolved automatically when omitted.'),
+    response: z.enum(['ProvideCredentials', 'CancelAuth', 'Default']).describe('How to answer'),
+    username: z.string().optional().describe('Username (for ProvideCredentials)'),
+    password: z.string().optional().describe('Password (for ProvideCredentials)'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof respondToAuthChallenge.inputSchema>;
+    try {
+      const challenge = session.fetchInterceptor.getAuthChallenge(p.requestId, p.targetId);
+      if (!challenge) {
+        return error('Auth challenge not found');
+      }
+      if (p.response === 'ProvideCredentials' && (p.username === undefined || p.password === undefined)) {
+        return error('username and password are required for ProvideCredentials');
+      }
+
+      await session.continueWithAuth(
+        p.requestId,
+        p.response,
+        p.response === 'ProvideCredentials' ? { username: p.username as string, password: p.password as string } : undefined,
+        challenge.targetId
+      );
+      return success(`Auth challenge answered (${p.response})`);
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const importHar: ToolDefinition = {
+  name: 'import_har',
+  description: `Load a HAR file as mock intercept rules, one per URL, to replay a captured session offline.
+Responses are served from the HAR; entries without a response are skipped.`,
+  inputSchema: z.object({
+    filePath: z.string().describe('Path of the HAR file to load'),
+    urlPattern: z.string().optional().describe('Only import entries whose URL matches this pattern (glob or /regex/)'),
+    enable: z.boolean().optional().describe('Enable (or re-enable) interception with the resulting rule patterns (default: true)'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof importHar.inputSchema>;
+    try {
+      const har = parseHar(await readFile(p.filePath, 'utf8'));
+      const interceptor = session.fetchInterceptor;
+      const rules = harToInterceptRules(
+        har,
+        p.urlPattern ? (url) => interceptor.matchesPattern(url, p.urlPattern as string) : undefined
+      );
+
+      const ruleIds = rules.map((rule) => interceptor.addRule(rule));
+
+      const enable = p.enable ?? true;
+      if (enable && ruleIds.length > 0) {
+        await session.enableFetch();
+      }
+
+      return success(formatObject({
+        filePath: p.filePath,
+        entries: har.log.entries.length,
+        rulesAdded: ruleIds.length,
+        ruleIds,
+        fetchEnabled: enable && ruleIds.length > 0,
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
 export const fetchTools: ToolDefinition[] = [
   fetchEnable,
   fetchDisable,
@@ -343,4 +629,12 @@ export const fetchTools: ToolDefinition[] = [
   fulfillRequest,
   fulfillRequestWithFile,
   failRequest,
+  getInterceptedResponse,
+  modifyInterceptedResponse,
+  addAuthCredentials,
+  removeAuthCredentials,
+  listAuthCredentials,
+  listAuthChallenges,
+  respondToAuthChallenge,
+  importHar,
 ];
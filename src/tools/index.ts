@@ -3,6 +3,7 @@ export { launchTools } from './launch.js';
 export { targetTools } from './target.js';
 export { pageTools } from './page.js';
 export { debuggerTools } from './debugger.js';
+export { breakpointSetTools } from './breakpoint-sets.js';
 export { runtimeTools } from './runtime.js';
 export { networkTools } from './network.js';
 export { fetchTools } from './fetch.js';
@@ -11,11 +12,13 @@ export { domDebuggerTools } from './dom-debugger.js';
 export { inputTools } from './input.js';
 export { logTools } from './log.js';
 export { serviceWorkerTools } from './service-worker.js';
+export { eventTools } from './events.js';
 
 import { launchTools } from './launch.js';
 import { targetTools } from './target.js';
 import { pageTools } from './page.js';
 import { debuggerTools } from './debugger.js';
+import { breakpointSetTools } from './breakpoint-sets.js';
 import { runtimeTools } from './runtime.js';
 import { networkTools } from './network.js';
 import { fetchTools } from './fetch.js';
@@ -24,6 +27,7 @@ import { domDebuggerTools } from './dom-debugger.js';
 import { inputTools } from './input.js';
 import { logTools } from './log.js';
 import { serviceWorkerTools } from './service-worker.js';
+import { eventTools } from './events.js';
 import type { ToolDefinition } from './types.js';
 
 export const allTools: ToolDefinition[] = [
@@ -31,6 +35,7 @@ export const allTools: ToolDefinition[] = [
   ...targetTools,
   ...pageTools,
   ...debuggerTools,
+  ...breakpointSetTools,
   ...runtimeTools,
   ...networkTools,
   ...fetchTools,
@@ -39,4 +44,5 @@ export const allTools: ToolDefinition[] = [
   ...inputTools,
   ...logTools,
   ...serviceWorkerTools,
+  ...eventTools,
 ];
@@ -1,6 +1,9 @@
 import { z } from 'zod';
+import { writeFile } from 'node:fs/promises';
 import type { ToolDefinition } from './types.js';
 import { success, error, formatObject } from './types.js';
+import { buildHar } from '../utils/har.js';
+import { SERVER_NAME, SERVER_VERSION } from '../version.js';
 
 export const networkEnable: ToolDefinition = {
   name: 'network_enable',
@@ -298,6 +301,58 @@ export const getNetworkSummary: ToolDefinition = {
   },
 };
 
+export const exportHar: ToolDefinition = {
+  name: 'export_har',
+  description: 'Write collected network requests to a HAR 1.2 file. WebSocket connections are not included.',
+  inputSchema: z.object({
+    filePath: z.string().describe('Path of the HAR file to write'),
+    targetId: z.string().optional().describe('Only export requests from this target'),
+    urlPattern: z.string().optional().describe('Only export requests whose URL matches this pattern'),
+    resourceType: z.string().optional().describe('Only export this resource type (XHR, Fetch, Script, etc.)'),
+    fetchBodies: z.boolean().optional().describe('Fetch response bodies that were not retrieved yet (default: false)'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof exportHar.inputSchema>;
+    try {
+      let requests = p.urlPattern
+        ? session.networkState.getRequestsByUrl(p.urlPattern, p.targetId)
+        : session.networkState.getAllRequests(p.targetId);
+
+      requests = requests.filter((r) => !r.isWebSocket);
+      if (p.resourceType) {
+        requests = requests.filter((r) => r.resourceType === p.resourceType);
+      }
+
+      let bodiesFetched = 0;
+      let bodiesUnavailable = 0;
+      if (p.fetchBodies) {
+        for (const r of requests) {
+          if (r.responseBody !== undefined || r.failed || r.endTime === undefined) continue;
+          try {
+            await session.getResponseBody(r.requestId, r.targetId);
+            bodiesFetched++;
+          } catch {
+            // Evicted from the browser cache, redirects, etc.
+            bodiesUnavailable++;
+          }
+        }
+      }
+
+      const har = buildHar(requests, { name: SERVER_NAME, version: SERVER_VERSION });
+      await writeFile(p.filePath, JSON.stringify(har, null, 2));
+
+      return success(formatObject({
+        filePath: p.filePath,
+        entries: har.log.entries.length,
+        withBody: har.log.entries.filter((e) => e.response.content.text !== undefined).length,
+        ...(p.fetchBodies ? { bodiesFetched, bodiesUnavailable } : {}),
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
 export const networkTools: ToolDefinition[] = [
   networkEnable,
   networkDisable,
@@ -307,4 +362,5 @@ export const networkTools: ToolDefinition[] = [
   getWebSocketFrames,
   clearRequests,
   getNetworkSummary,
+  exportHar,
 ];
@@ -1,23 +1,37 @@
 import { z } from 'zod';
 import type { ToolDefinition } from './types.js';
 import { success, error, formatObject } from './types.js';
+import { serializationShape, renderRemoteObject } from './serialization.js';
+import { formatRemoteValue } from '../utils/pause-context.js';
 
 export const evaluate: ToolDefinition = {
   name: 'evaluate',
-  description: 'Evaluate JavaScript expression in the page context. Returns breakpoint info if execution triggers a breakpoint.',
+  description: 'Evaluate JavaScript expression in the page context, or in a specific iframe, isolated world or worker. Returns breakpoint info if execution triggers a breakpoint.',
   inputSchema: z.object({
     expression: z.string().describe('JavaScript expression to evaluate'),
     returnByValue: z.boolean().optional().describe('Return result by value. Default: false'),
     awaitPromise: z.boolean().optional().describe('Wait for promise to resolve. Default: false'),
     timeout: z.number().optional().describe('Timeout in milliseconds. Default: 5000'),
+    contextId: z.number().optional().describe('Execution context ID from list_execution_contexts or create_isolated_world'),
+    frameId: z.string().optional().describe('Evaluate in this frame (e.g. an iframe) instead of the main frame'),
+    worldName: z.string().optional().describe('Evaluate in the isolated world with this name'),
+    targetId: z.string().optional().describe('Evaluate in a worker / service worker session. See list_attached_sessions.'),
+    objectGroup: z.string().optional().describe('Object group for the returned objectId. Default: a new group for this call (see release_object_group)'),
+    ...serializationShape,
   }),
   handler: async (session, params) => {
     const p = params as z.infer<typeof evaluate.inputSchema>;
     try {
+      const objectGroup = session.objectGroupFor('evaluate', { objectGroup: p.objectGroup });
       const result = await session.evaluate(p.expression, {
+        objectGroup,
         returnByValue: p.returnByValue,
         awaitPromise: p.awaitPromise,
         timeout: p.timeout ?? 5000,
+        contextId: p.contextId,
+        frameId: p.frameId,
+        worldName: p.worldName,
+        targetId: p.targetId,
       });
 
       // Check if breakpoint was hit
@@ -42,11 +56,48 @@ export const evaluate: ToolDefinition = {
         }));
       }
 
+      session.trackObject(result.result, objectGroup, 'evaluate', p.targetId);
       return success(formatObject({
         type: result.result.type,
         subtype: result.result.subtype,
-        value: result.result.value ?? result.result.description,
+        value: p.depth !== undefined
+          ? await renderRemoteObject(session, result.result, p, p.targetId)
+          : result.result.value ?? result.result.description,
         objectId: result.result.objectId,
+        objectGroup: result.result.objectId ? objectGroup : undefined,
+        context: result.context ? { id: result.context.id, origin: result.context.origin, name: result.context.name || undefined } : undefined,
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const listExecutionContexts: ToolDefinition = {
+  name: 'list_execution_contexts',
+  description: 'List live JavaScript execution contexts: the default world of each frame, isolated worlds (extensions, create_isolated_world) and workers. Use contextId, frameId or worldName with evaluate.',
+  inputSchema: z.object({
+    targetId: z.string().optional().describe('Only contexts of this target. See list_attached_sessions.'),
+    frameId: z.string().optional().describe('Only contexts of this frame'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof listExecutionContexts.inputSchema>;
+    try {
+      let contexts = session.executionContexts.getAll(p.targetId);
+      if (p.frameId) {
+        contexts = contexts.filter((c) => c.auxData?.frameId === p.frameId);
+      }
+
+      return success(formatObject({
+        count: contexts.length,
+        contexts: contexts.map((c) => ({
+          contextId: c.id,
+          targetId: c.targetId,
+          origin: c.origin,
+          frameId: c.auxData?.frameId,
+          worldName: c.name || undefined,
+          type: c.auxData?.type ?? (c.auxData?.isDefault ? 'default' : undefined),
+        })),
       }));
     } catch (e) {
       return error(e instanceof Error ? e.message : String(e));
@@ -60,14 +111,24 @@ export const getProperties: ToolDefinition = {
   inputSchema: z.object({
     objectId: z.string().describe('Object ID from evaluate or other result'),
     ownProperties: z.boolean().optional().describe('Only own properties. Default: true'),
+    targetId: z.string().optional().describe('Target that owns the object (objectIds are per session). Default: the page'),
   }),
   handler: async (session, params) => {
     const p = params as z.infer<typeof getProperties.inputSchema>;
     try {
       const result = await session.getProperties(p.objectId, {
         ownProperties: p.ownProperties ?? true,
+        targetId: p.targetId,
       });
 
+      // Property values land in the parent object's group.
+      const parent = session.objectHandles.getHandle(p.objectId, p.targetId ?? session.getCurrentTargetId() ?? undefined);
+      if (parent) {
+        for (const prop of result.result) {
+          session.trackObject(prop.value, parent.group, 'get_properties', parent.targetId);
+        }
+      }
+
       const properties = result.result.map((prop) => ({
         name: prop.name,
         type: prop.value?.type,
@@ -90,11 +151,12 @@ export const releaseObject: ToolDefinition = {
   description: 'Release an object reference to free memory.',
   inputSchema: z.object({
     objectId: z.string().describe('Object ID to release'),
+    targetId: z.string().optional().describe('Target that owns the object. Default: the page'),
   }),
   handler: async (session, params) => {
     const p = params as z.infer<typeof releaseObject.inputSchema>;
     try {
-      await session.releaseObject(p.objectId);
+      await session.releaseObject(p.objectId, p.targetId);
       return success('Object released');
     } catch (e) {
       return error(e instanceof Error ? e.message : String(e));
@@ -102,36 +164,160 @@ export const releaseObject: ToolDefinition = {
   },
 };
 
+export const releaseObjectGroup: ToolDefinition = {
+  name: 'release_object_group',
+  description: 'Release every object handle in an object group. Tools that return objectIds report their group; groups created while paused are released automatically on resume.',
+  inputSchema: z.object({
+    objectGroup: z.string().describe('Group name, from a tool result or list_object_handles'),
+    targetId: z.string().optional().describe('Target that owns the group. Default: the page'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof releaseObjectGroup.inputSchema>;
+    try {
+      const released = await session.releaseObjectGroup(p.objectGroup, p.targetId);
+      return success(`Released object group ${p.objectGroup} (${released} tracked handle(s))`);
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const listObjectHandles: ToolDefinition = {
+  name: 'list_object_handles',
+  description: 'List live object handles (objectIds) returned by tools, with their group, the tool that produced them and their age.',
+  inputSchema: z.object({
+    objectGroup: z.string().optional().describe('Only handles in this group'),
+    targetId: z.string().optional().describe('Only handles owned by this target'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof listObjectHandles.inputSchema>;
+    try {
+      const now = Date.now();
+      const handles = session.objectHandles.getHandles({ group: p.objectGroup, targetId: p.targetId });
+      const groups = session.objectHandles.getGroups()
+        .filter((g) => (p.objectGroup === undefined || g.name === p.objectGroup) && (p.targetId === undefined || g.targetId === p.targetId));
+
+      return success(formatObject({
+        groups: groups.map((g) => ({
+          name: g.name,
+          origin: g.origin,
+          targetId: g.targetId,
+          pauseScoped: g.pauseScoped || undefined,
+          handleCount: g.handleCount,
+          ageSeconds: Math.round((now - g.createdAt) / 1000),
+        })),
+        count: handles.length,
+        handles: handles.map((h) => ({
+          objectId: h.objectId,
+          group: h.group,
+          origin: h.origin,
+          targetId: h.targetId,
+          description: h.description,
+          ageSeconds: Math.round((now - h.createdAt) / 1000),
+        })),
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+const timestampSchema = z.union([z.number(), z.string()]);
+
+// Epoch milliseconds, or an ISO date string.
+function parseTimestamp(value: number | string | undefined): number | undefined {
+  if (value === undefined || typeof value === 'number') return value;
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+  return ms;
+}
+
 export const getConsoleMessages: ToolDefinition = {
   name: 'get_console_messages',
-  description: 'Get collected console messages (console.log, console.error, etc.).',
+  description: 'Get collected console messages (console.log, console.error, etc.), filtered by level, type, text, URL, context, target or time. Pass afterId (the nextCursor of a previous call) to get only newer messages. With depth, logged objects are expanded as args.',
   inputSchema: z.object({
     level: z.enum(['log', 'error', 'warning', 'info', 'debug']).optional().describe('Filter by log level'),
-    limit: z.number().optional().describe('Maximum number of messages to return'),
+    levels: z.array(z.enum(['log', 'error', 'warning', 'info', 'debug'])).optional().describe('Filter by any of these log levels'),
+    types: z.array(z.string()).optional().describe('Filter by console method, e.g. ["table", "count", "timeEnd", "startGroup"]'),
+    textPattern: z.string().optional().describe('Regex the message text must match'),
+    caseSensitive: z.boolean().optional().describe('Match textPattern case-sensitively. Default: false'),
+    urlPattern: z.string().optional().describe('URL pattern (glob or /regex/) of the script that logged'),
+    executionContextId: z.number().optional().describe('Only messages from this execution context (see list_execution_contexts)'),
+    targetId: z.string().optional().describe('Only messages from this target (page / worker / service worker)'),
+    since: timestampSchema.optional().describe('Only messages at or after this time (epoch ms or ISO date)'),
+    until: timestampSchema.optional().describe('Only messages at or before this time (epoch ms or ISO date)'),
+    afterId: z.number().optional().describe('Only messages with an id greater than this cursor'),
+    limit: z.number().optional().describe('Maximum number of messages to return: the newest ones, or with afterId the oldest after the cursor'),
+    ...serializationShape,
   }),
   handler: async (session, params) => {
     const p = params as z.infer<typeof getConsoleMessages.inputSchema>;
     try {
-      let messages = session.consoleState.getMessages();
-
-      if (p.level) {
-        messages = messages.filter((m) => m.level === p.level);
-      }
+      let messages = session.consoleState.queryMessages({
+        levels: p.level ? [p.level, ...(p.levels ?? [])] : p.levels,
+        types: p.types,
+        textPattern: p.textPattern,
+        caseSensitive: p.caseSensitive,
+        urlPattern: p.urlPattern,
+        executionContextId: p.executionContextId,
+        targetId: p.targetId,
+        since: parseTimestamp(p.since),
+        until: parseTimestamp(p.until),
+        afterId: p.afterId,
+      });
 
       if (p.limit) {
-        messages = messages.slice(-p.limit);
+        // Paging forward from a cursor keeps the oldest; otherwise the newest.
+        messages = p.afterId !== undefined ? messages.slice(0, p.limit) : messages.slice(-p.limit);
       }
 
+      const last = messages[messages.length - 1];
       return success(formatObject({
         count: messages.length,
-        messages: messages.map((m) => ({
+        nextCursor: last?.id ?? p.afterId ?? session.consoleState.getLastMessageId(),
+        messages: await Promise.all(messages.map(async (m) => ({
           id: m.id,
           type: m.type,
           level: m.level,
           text: m.text,
+          groupDepth: m.groupDepth || undefined,
+          table: m.table,
+          // Objects logged earlier may have been released; fall back to their preview.
+          args: p.depth !== undefined && m.args
+            ? await Promise.all(m.args.map((arg) => renderRemoteObject(session, arg, p, m.targetId).catch(() => formatRemoteValue(arg))))
+            : undefined,
           url: m.url,
           line: m.line,
+          targetId: m.targetId,
+          executionContextId: m.executionContextId,
           timestamp: m.timestamp,
+        }))),
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const getConsoleAggregates: ToolDefinition = {
+  name: 'get_console_aggregates',
+  description: 'Get console.count totals and console.time / timeEnd statistics (calls, total, max and last duration) per label.',
+  inputSchema: z.object({
+    targetId: z.string().optional().describe('Only counters and timers of this target'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof getConsoleAggregates.inputSchema>;
+    try {
+      const counters = session.consoleState.getCounters().filter((c) => p.targetId === undefined || c.targetId === p.targetId);
+      const timers = session.consoleState.getTimers().filter((t) => p.targetId === undefined || t.targetId === p.targetId);
+
+      return success(formatObject({
+        counters,
+        timers: timers.map((t) => ({
+          ...t,
+          averageMs: Math.round((t.totalMs / t.calls) * 1000) / 1000,
         })),
       }));
     } catch (e) {
@@ -145,6 +331,7 @@ export const getExceptions: ToolDefinition = {
   description: 'Get collected runtime exceptions.',
   inputSchema: z.object({
     limit: z.number().optional().describe('Maximum number of exceptions to return'),
+    includeStackTrace: z.boolean().optional().describe('Include stack frames, mapped to original sources where a source map exists. Default: false'),
   }),
   handler: async (session, params) => {
     const p = params as z.infer<typeof getExceptions.inputSchema>;
@@ -155,16 +342,78 @@ export const getExceptions: ToolDefinition = {
         exceptions = exceptions.slice(-p.limit);
       }
 
+      const formatted = await Promise.all(exceptions.map(async (e) => ({
+        id: e.id,
+        timestamp: e.timestamp,
+        targetId: e.targetId,
+        revoked: e.revoked,
+        text: e.details.text,
+        lineNumber: e.details.lineNumber,
+        columnNumber: e.details.columnNumber,
+        url: e.details.url,
+        scriptId: e.details.scriptId,
+        originalLocation: e.details.scriptId
+          ? await session.getOriginalLocation({
+            scriptId: e.details.scriptId,
+            lineNumber: e.details.lineNumber,
+            columnNumber: e.details.columnNumber,
+          })
+          : undefined,
+        stackTrace: p.includeStackTrace
+          ? await Promise.all((e.details.stackTrace?.callFrames ?? []).map(async (f) => ({
+            functionName: f.functionName || '(anonymous)',
+            url: f.url,
+            lineNumber: f.lineNumber,
+            columnNumber: f.columnNumber,
+            originalLocation: await session.getOriginalLocation(f),
+          })))
+          : undefined,
+      })));
+
+      return success(formatObject({
+        count: formatted.length,
+        exceptions: formatted,
+      }));
+    } catch (e) {
+      return error(e instanceof Error ? e.message : String(e));
+    }
+  },
+};
+
+export const getExceptionGroups: ToolDefinition = {
+  name: 'get_exception_groups',
+  description: 'Get runtime exceptions grouped by fingerprint (message + top stack frames), with occurrence counts, first/last seen times and the targets affected. Repeated exceptions only keep a few samples in get_exceptions; the group counts every occurrence, and lastSampleId points to the last stored sample, not the last occurrence.',
+  inputSchema: z.object({
+    targetId: z.string().optional().describe('Only groups that occurred on this target'),
+    includeRevoked: z.boolean().optional().describe('Include groups whose occurrences were all revoked (promise rejections handled later). Default: false'),
+    sortBy: z.enum(['count', 'lastSeen']).optional().describe('Order of the groups. Default: count'),
+    limit: z.number().optional().describe('Maximum number of groups to return'),
+  }),
+  handler: async (session, params) => {
+    const p = params as z.infer<typeof getExceptionGroups.inputSchema>;
+    try {
+      let groups = session.consoleState.getExceptionGroups()
+        .filter((g) => p.targetId === undefined || g.targets.includes(p.targetId))
+        .filter((g) => p.includeRevoked || g.revokedCount < g.count);
+      if (p.sortBy === 'lastSeen') {
+        groups = groups.sort((a, b) => b.lastSeen - a.lastSeen);
+      }
+      if (p.limit) {
+        groups = groups.slice(0, p.limit);
+      }
+
       return success(formatObject({
-        count: exceptions.length,
-        exceptions: exceptions.map((e) => ({
-          id: e.id,
-          timestamp: e.timestamp,
-          text: e.details.text,
-          lineNumber: e.details.lineNumber,
-          columnNumber: e.details.columnNumber,
-          url: e.details.url,
-          scriptId: e.details.scriptId,
+        count: groups.length,
+        totalOccurrences: groups.reduce((sum, g) => sum + g.count, 0),
+        groups: groups.map((g) => ({
+          message: g.message,
+          count: g.count,
+          revoked: g.revokedCount || undefined,
+          firstSeen: new Date(g.firstSeen).toISOString(),
+          lastSeen: new Date(g.lastSeen).toISOString(),
+          targets: g.targets.map((t) => t || '(page)'),
+          topFrames: g.topFrames,
+          lastSampleId: g.lastSampleId,
         })),
       }));
     } catch (e) {
@@ -189,9 +438,14 @@ export const clearConsole: ToolDefinition = {
 
 export const runtimeTools: ToolDefinition[] = [
   evaluate,
+  listExecutionContexts,
   getProperties,
   releaseObject,
+  releaseObjectGroup,
+  listObjectHandles,
   getConsoleMessages,
+  getConsoleAggregates,
   getExceptions,
+  getExceptionGroups,
   clearConsole,
 ];
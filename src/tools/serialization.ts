@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import type { DebugSession } from '../DebugSession.js';
+import type { RemoteObject } from '../utils/types.js';
+import { toJsonValue, toTextTree } from '../utils/object-serializer.js';
+
+// Input fields shared by the tools that can expand results in one call.
+export const serializationShape = {
+  depth: z.number().optional().describe('Expand objects this many levels deep instead of returning a one-line value and objectId'),
+  maxProperties: z.number().optional().describe('Properties / elements / entries per object when expanding. Default: 50'),
+  invokeGetters: z.boolean().optional().describe('Run getters (including inherited class getters) to show their values. Default: false'),
+  format: z.enum(['json', 'text']).optional().describe('Expanded output as compact JSON or a DevTools-like text tree. Default: json'),
+};
+
+export interface SerializationParams {
+  depth?: number;
+  maxProperties?: number;
+  invokeGetters?: boolean;
+  format?: 'json' | 'text';
+}
+
+/** Expand a RemoteObject per the serialization params. */
+export async function renderRemoteObject(
+  session: DebugSession,
+  obj: RemoteObject,
+  params: SerializationParams,
+  targetId?: string
+): Promise<unknown> {
+  const node = await session.serializeObject(obj, {
+    depth: params.depth,
+    maxProperties: params.maxProperties,
+    invokeGetters: params.invokeGetters,
+    targetId,
+  });
+  return params.format === 'text' ? toTextTree(node) : toJsonValue(node);
+}
@@ -0,0 +1,97 @@
+// Rendering of console API calls: printf-style substitutions, console.table
+// previews, and the label / value text of console.count and console.time*.
+
+import type { RemoteObject, ObjectPreview } from './types.js';
+import { formatRemoteValue, formatPreview } from './pause-context.js';
+
+export interface ConsoleTable {
+  columns: string[];
+  rows: Array<{ index: string; values: Record<string, string> }>;
+}
+
+// Name DevTools gives the column of rows that are primitives.
+const VALUE_COLUMN = 'Value';
+
+function argText(arg: RemoteObject): string {
+  return arg.type === 'string' ? String(arg.value) : formatRemoteValue(arg);
+}
+
+function toNumber(arg: RemoteObject): number {
+  if (arg.unserializableValue !== undefined) return Number(arg.unserializableValue.replace(/n$/, ''));
+  return Number(arg.value);
+}
+
+/**
+ * Join console arguments into one line like DevTools: a leading format
+ * string's %s / %d / %i / %f / %o / %O / %c directives consume arguments,
+ * the rest are appended separated by spaces.
+ */
+export function formatConsoleArgs(args: RemoteObject[]): string {
+  if (args.length === 0) return '';
+  const rest = [...args];
+  const parts: string[] = [];
+  const first = rest[0];
+  if (first.type === 'string' && String(first.value).includes('%')) {
+    rest.shift();
+    parts.push(String(first.value).replace(/%([sdifoOc%])/g, (directive, kind: string) => {
+      if (kind === '%') return '%';
+      const arg = rest.shift();
+      if (!arg) return directive;
+      switch (kind) {
+        case 'd':
+        case 'i':
+          return String(Math.trunc(toNumber(arg)));
+        case 'f':
+          return String(toNumber(arg));
+        case 'c':
+          // CSS styling; there is nothing to style in text.
+          return '';
+        default:
+          return argText(arg);
+      }
+    }));
+  }
+  parts.push(...rest.map(argText));
+  return parts.join(' ');
+}
+
+/** Rows and columns of a console.table argument, from its preview. */
+export function consoleTableFromPreview(data: RemoteObject, columnsArg?: RemoteObject): ConsoleTable | undefined {
+  const preview = data.preview;
+  if (!preview) return undefined;
+  const only = columnsArg?.preview?.properties.map((p) => p.value ?? '');
+  const columns: string[] = [];
+  const rows: ConsoleTable['rows'] = [];
+  for (const row of preview.properties) {
+    const values: Record<string, string> = {};
+    if (row.valuePreview && row.valuePreview.type === 'object' && !row.valuePreview.entries) {
+      for (const cell of row.valuePreview.properties) {
+        if (only && !only.includes(cell.name)) continue;
+        if (!columns.includes(cell.name)) columns.push(cell.name);
+        values[cell.name] = cellText(cell.value, cell.valuePreview, cell.type);
+      }
+    } else {
+      if (!columns.includes(VALUE_COLUMN)) columns.push(VALUE_COLUMN);
+      values[VALUE_COLUMN] = cellText(row.value, row.valuePreview, row.type);
+    }
+    rows.push({ index: row.name, values });
+  }
+  return { columns, rows };
+}
+
+function cellText(value: string | undefined, valuePreview: ObjectPreview | undefined, type: string): string {
+  if (valuePreview) return formatPreview(valuePreview);
+  return value ?? type;
+}
+
+/** `label: 3` as sent for console.count. */
+export function parseCountMessage(text: string): { label: string; count: number } | undefined {
+  const match = /^(.*): (\d+)$/.exec(text);
+  return match ? { label: match[1], count: Number(match[2]) } : undefined;
+}
+
+/** `label: 12.5 ms` (possibly followed by timeLog data) as sent for console.timeEnd / timeLog. */
+export function parseTimerMessage(text: string): { label: string; ms: number } | undefined {
+  const match = /^(.*?): ([\d.]+)\s*ms\b/.exec(text);
+  return match ? { label: match[1], ms: Number(match[2]) } : undefined;
+}
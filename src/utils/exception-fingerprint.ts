@@ -0,0 +1,34 @@
+// Fingerprints for grouping repeated exceptions: the message with volatile
+// numbers masked, plus the top frames of the stack.
+
+import type { ExceptionDetails } from './types.js';
+
+const FINGERPRINT_FRAMES = 3;
+
+/** The first line of the thrown value's description, or the exception text. */
+export function exceptionMessage(details: ExceptionDetails): string {
+  const description = details.exception?.description ?? details.exception?.value;
+  const text = typeof description === 'string' && description ? description : details.text;
+  const index = text.indexOf('\n');
+  return index === -1 ? text : text.slice(0, index);
+}
+
+/** `url:line:column` of the top frames (1-based), or of the throw site without a stack. */
+export function exceptionTopFrames(details: ExceptionDetails, count = FINGERPRINT_FRAMES): string[] {
+  const frames = details.stackTrace?.callFrames ?? [];
+  if (frames.length === 0) {
+    return [`${details.url ?? details.scriptId ?? '(unknown)'}:${details.lineNumber + 1}:${details.columnNumber + 1}`];
+  }
+  return frames.slice(0, count).map((f) =>
+    `${f.functionName || '(anonymous)'} (${f.url || f.scriptId}:${f.lineNumber + 1}:${f.columnNumber + 1})`
+  );
+}
+
+/**
+ * Key under which occurrences of "the same" exception are grouped. Numbers in
+ * the message are masked so ids, indexes and counts don't split groups.
+ */
+export function exceptionFingerprint(details: ExceptionDetails): string {
+  const message = exceptionMessage(details).replace(/\d+/g, '#');
+  return [message, ...exceptionTopFrames(details)].join('\n');
+}
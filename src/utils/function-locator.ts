@@ -0,0 +1,121 @@
+// Textual lookup of function definitions by name, for breaking on a function
+// without knowing its file. This is a scanner, not a parser: it recognizes
+// the common declaration forms and skips over parameter lists, but does not
+// understand strings or comments inside them.
+
+export type FunctionDefinitionKind = 'declaration' | 'expression' | 'arrow' | 'method';
+
+export interface FunctionDefinition {
+  kind: FunctionDefinitionKind;
+  // Position of the name (0-based, relative to the source text).
+  lineNumber: number;
+  columnNumber: number;
+  // Position of the first statement of the body (or of the expression of a
+  // concise arrow body).
+  bodyLineNumber: number;
+  bodyColumnNumber: number;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Find definitions of a function called `name` in a script source. */
+export function findFunctionDefinitions(source: string, name: string): FunctionDefinition[] {
+  const id = escapeRegExp(name);
+  // The name must not be part of a longer identifier or a member access
+  // (`obj.name = function` is still matched through the `.` alternative).
+  const before = '(?<![\\w$])';
+  const patterns: Array<{ kind: FunctionDefinitionKind; regex: RegExp }> = [
+    { kind: 'declaration', regex: new RegExp(`\\bfunction\\s*\\*?\\s*(${id})\\s*\\(`, 'g') },
+    { kind: 'expression', regex: new RegExp(`${before}(${id})\\s*[:=]\\s*(?:async\\s+)?function\\b[^(]*\\(`, 'g') },
+    { kind: 'arrow', regex: new RegExp(`${before}(${id})\\s*[:=]\\s*(?:async\\s*)?(?=\\(|[\\w$]+\\s*=>)`, 'g') },
+    { kind: 'method', regex: new RegExp(`^[ \\t]*(?:(?:static|async|get|set)\\s+)*\\*?\\s*(${id})\\s*\\(`, 'gm') },
+  ];
+
+  const results: FunctionDefinition[] = [];
+  const seen = new Set<number>();
+  for (const { kind, regex } of patterns) {
+    for (const match of source.matchAll(regex)) {
+      const nameOffset = match.index! + match[0].indexOf(match[1]);
+      if (seen.has(nameOffset)) continue;
+      const bodyOffset = findBodyStart(source, match.index! + match[0].length, kind);
+      if (bodyOffset === undefined) continue;
+      seen.add(nameOffset);
+      const namePos = offsetToPosition(source, nameOffset);
+      const bodyPos = offsetToPosition(source, bodyOffset);
+      results.push({
+        kind,
+        lineNumber: namePos.line,
+        columnNumber: namePos.column,
+        bodyLineNumber: bodyPos.line,
+        bodyColumnNumber: bodyPos.column,
+      });
+    }
+  }
+  return results.sort((a, b) => a.lineNumber - b.lineNumber || a.columnNumber - b.columnNumber);
+}
+
+// From just past the opening paren (or, for arrows, the start of the
+// parameters), skip to the first statement of the body.
+function findBodyStart(source: string, offset: number, kind: FunctionDefinitionKind): number | undefined {
+  let i = offset;
+  if (kind === 'arrow') {
+    if (source[i] === '(') {
+      i = skipParams(source, i + 1);
+    } else {
+      while (i < source.length && /[\w$]/.test(source[i])) i++;
+    }
+    if (i < 0) return undefined;
+    i = skipTrivia(source, i);
+    if (!source.startsWith('=>', i)) return undefined;
+    i = skipTrivia(source, i + 2);
+    if (source[i] !== '{') return i;
+  } else {
+    i = skipParams(source, i);
+    if (i < 0) return undefined;
+    i = skipTrivia(source, i);
+    if (source[i] !== '{') return undefined;
+  }
+  return skipTrivia(source, i + 1);
+}
+
+// Returns the offset just past the paren closing the parameter list.
+function skipParams(source: string, offset: number): number {
+  let depth = 1;
+  let i = offset;
+  while (i < source.length && depth > 0) {
+    if (source[i] === '(') depth++;
+    else if (source[i] === ')') depth--;
+    i++;
+  }
+  return depth === 0 ? i : -1;
+}
+
+function skipTrivia(source: string, offset: number): number {
+  let i = offset;
+  while (i < source.length) {
+    if (/\s/.test(source[i])) {
+      i++;
+    } else if (source.startsWith('//', i)) {
+      const end = source.indexOf('\n', i);
+      i = end < 0 ? source.length : end + 1;
+    } else if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      i = end < 0 ? source.length : end + 2;
+    } else {
+      break;
+    }
+  }
+  return i;
+}
+
+function offsetToPosition(source: string, offset: number): { line: number; column: number } {
+  let line = 0;
+  let lineStart = 0;
+  for (let i = source.indexOf('\n'); i >= 0 && i < offset; i = source.indexOf('\n', i + 1)) {
+    line++;
+    lineStart = i + 1;
+  }
+  return { line, column: offset - lineStart };
+}
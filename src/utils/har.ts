@@ -0,0 +1,218 @@
+// HAR 1.2 conversion for collected network requests, and back to mock rules
+// for offline replay. See http://www.softwareishard.com/blog/har-12-spec/
+
+import type { CollectedRequest } from '../state/NetworkState.js';
+import type { InterceptRule } from '../state/FetchInterceptor.js';
+import type { ResourceTiming } from './types.js';
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: unknown[];
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: unknown[];
+    headers: HarHeader[];
+    content: { size: number; mimeType: string; text?: string; encoding?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: {
+    blocked: number;
+    dns: number;
+    connect: number;
+    ssl: number;
+    send: number;
+    wait: number;
+    receive: number;
+  };
+  _resourceType?: string;
+  _targetId?: string;
+  _error?: string;
+}
+
+export interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+// The HAR body is stored decoded, so these no longer describe it on replay.
+const STALE_REPLAY_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding']);
+
+export function buildHar(requests: CollectedRequest[], creator: { name: string; version: string }): Har {
+  return {
+    log: {
+      version: '1.2',
+      creator,
+      entries: requests.map(toHarEntry),
+    },
+  };
+}
+
+function toHarEntry(req: CollectedRequest): HarEntry {
+  const response = req.response;
+  const httpVersion = response?.protocol ?? '';
+  const time = req.duration !== undefined ? req.duration * 1000 : 0;
+  const requestHeaders = toHarHeaders(req.request.headers);
+  const responseHeaders = toHarHeaders(response?.headers ?? {});
+  const postData = req.request.postData;
+
+  const content: HarEntry['response']['content'] = {
+    size: req.responseBody !== undefined
+      ? (req.responseBodyBase64 ? Buffer.from(req.responseBody, 'base64').length : Buffer.byteLength(req.responseBody))
+      : 0,
+    mimeType: req.mimeType ?? '',
+  };
+  if (req.responseBody !== undefined) {
+    content.text = req.responseBody;
+    if (req.responseBodyBase64) content.encoding = 'base64';
+  }
+
+  const entry: HarEntry = {
+    startedDateTime: new Date((req.wallTime ?? 0) * 1000).toISOString(),
+    time,
+    request: {
+      method: req.method,
+      url: req.url,
+      httpVersion,
+      cookies: [],
+      headers: requestHeaders,
+      queryString: parseQueryString(req.url),
+      postData: postData !== undefined
+        ? { mimeType: findHeader(requestHeaders, 'content-type') ?? '', text: postData }
+        : undefined,
+      headersSize: -1,
+      bodySize: postData !== undefined ? Buffer.byteLength(postData) : 0,
+    },
+    response: {
+      status: req.status ?? 0,
+      statusText: req.statusText ?? '',
+      httpVersion,
+      cookies: [],
+      headers: responseHeaders,
+      content,
+      redirectURL: findHeader(responseHeaders, 'location') ?? '',
+      headersSize: -1,
+      bodySize: req.encodedDataLength ?? -1,
+    },
+    cache: {},
+    timings: toHarTimings(response?.timing, time),
+    _resourceType: req.resourceType,
+    _targetId: req.targetId,
+  };
+  if (req.failed) {
+    entry._error = req.errorText ?? 'Failed';
+  }
+  return entry;
+}
+
+function toHarHeaders(headers: Record<string, string>): HarHeader[] {
+  // CDP joins repeated headers with newlines; HAR lists them separately.
+  const result: HarHeader[] = [];
+  for (const [name, value] of Object.entries(headers)) {
+    for (const part of String(value).split('\n')) {
+      result.push({ name, value: part });
+    }
+  }
+  return result;
+}
+
+function findHeader(headers: HarHeader[], name: string): string | undefined {
+  return headers.find((h) => h.name.toLowerCase() === name)?.value;
+}
+
+function parseQueryString(url: string): HarHeader[] {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+function toHarTimings(timing: ResourceTiming | undefined, total: number): HarEntry['timings'] {
+  if (!timing) {
+    return { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: total, receive: 0 };
+  }
+  // ResourceTiming offsets are ms relative to requestTime; -1 means "not applicable".
+  const span = (start: number, end: number): number => (start >= 0 && end >= 0 ? end - start : -1);
+  const firstPhase = [timing.dnsStart, timing.connectStart, timing.sendStart].find((t) => t >= 0) ?? 0;
+  const wait = Math.max(0, timing.receiveHeadersEnd - timing.sendEnd);
+  return {
+    blocked: firstPhase,
+    dns: span(timing.dnsStart, timing.dnsEnd),
+    connect: span(timing.connectStart, timing.connectEnd),
+    ssl: span(timing.sslStart, timing.sslEnd),
+    send: Math.max(0, timing.sendEnd - timing.sendStart),
+    wait,
+    receive: Math.max(0, total - timing.receiveHeadersEnd),
+  };
+}
+
+/** Parse and minimally validate a HAR document. */
+export function parseHar(text: string): Har {
+  const har = JSON.parse(text) as Har;
+  if (!har?.log || !Array.isArray(har.log.entries)) {
+    throw new Error('Invalid HAR: missing log.entries');
+  }
+  return har;
+}
+
+/**
+ * Turn HAR entries into mock intercept rules, one per URL. The first entry
+ * for a URL wins; entries that never got a response are skipped.
+ */
+export function harToInterceptRules(har: Har, filter?: (url: string) => boolean): Array<Omit<InterceptRule, 'id' | 'hitCount'>> {
+  const rules: Array<Omit<InterceptRule, 'id' | 'hitCount'>> = [];
+  const seen = new Set<string>();
+
+  for (const entry of har.log.entries) {
+    const url = entry.request?.url;
+    const response = entry.response;
+    if (!url || !response || !response.status || entry._error) continue;
+    if (seen.has(url) || (filter && !filter(url))) continue;
+    seen.add(url);
+
+    const headers: Record<string, string> = {};
+    for (const h of response.headers ?? []) {
+      if (STALE_REPLAY_HEADERS.has(h.name.toLowerCase())) continue;
+      headers[h.name] = headers[h.name] !== undefined ? `${headers[h.name]}\n${h.value}` : h.value;
+    }
+
+    rules.push({
+      // Literal URL as a glob: '?' and '*' are wildcards, which still match
+      // themselves, so the pattern matches at least this exact URL.
+      pattern: url,
+      action: 'mock',
+      mockResponse: {
+        status: response.status,
+        headers,
+        body: response.content?.text ?? '',
+        base64Encoded: response.content?.encoding === 'base64',
+      },
+      enabled: true,
+    });
+  }
+  return rules;
+}
@@ -0,0 +1,131 @@
+// JSON Patch (RFC 6902) applied to parsed JSON values. Operations are applied
+// in order to a copy of the document; any failing operation aborts the patch.
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  value?: unknown;
+  from?: string;
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+export function applyJsonPatch(document: unknown, operations: JsonPatchOperation[]): unknown {
+  let doc = structuredClone(document);
+  for (const operation of operations) {
+    doc = applyOperation(doc, operation);
+  }
+  return doc;
+}
+
+function applyOperation(doc: unknown, operation: JsonPatchOperation): unknown {
+  switch (operation.op) {
+    case 'add':
+      return add(doc, operation.path, structuredClone(operation.value));
+    case 'remove':
+      return remove(doc, operation.path);
+    case 'replace':
+      if (operation.path === '') return structuredClone(operation.value);
+      remove(doc, operation.path);
+      return add(doc, operation.path, structuredClone(operation.value));
+    case 'move': {
+      const from = requireFrom(operation);
+      const value = get(doc, from);
+      return add(remove(doc, from), operation.path, value);
+    }
+    case 'copy':
+      return add(doc, operation.path, structuredClone(get(doc, requireFrom(operation))));
+    case 'test':
+      if (JSON.stringify(get(doc, operation.path)) !== JSON.stringify(operation.value)) {
+        throw new Error(`JSON patch test failed at ${operation.path}`);
+      }
+      return doc;
+    default:
+      throw new Error(`Unsupported JSON patch op: ${(operation as { op: string }).op}`);
+  }
+}
+
+function requireFrom(operation: JsonPatchOperation): string {
+  if (operation.from === undefined) {
+    throw new Error(`JSON patch ${operation.op} requires "from"`);
+  }
+  return operation.from;
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer: ${pointer}`);
+  }
+  return pointer.slice(1).split('/').map((t) => t.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function get(doc: unknown, pointer: string): unknown {
+  let current = doc;
+  for (const token of parsePointer(pointer)) {
+    const container = asContainer(current, pointer);
+    if (Array.isArray(container)) {
+      current = container[arrayIndex(container, token, pointer, false)];
+    } else {
+      if (!Object.prototype.hasOwnProperty.call(container, token)) {
+        throw new Error(`JSON pointer not found: ${pointer}`);
+      }
+      current = container[token];
+    }
+  }
+  return current;
+}
+
+function add(doc: unknown, pointer: string, value: unknown): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return value;
+  const container = asContainer(get(doc, toPointer(tokens.slice(0, -1))), pointer);
+  const last = tokens[tokens.length - 1];
+  if (Array.isArray(container)) {
+    const index = last === '-' ? container.length : arrayIndex(container, last, pointer, true);
+    container.splice(index, 0, value);
+  } else {
+    container[last] = value;
+  }
+  return doc;
+}
+
+function remove(doc: unknown, pointer: string): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    throw new Error('Cannot remove the document root');
+  }
+  const container = asContainer(get(doc, toPointer(tokens.slice(0, -1))), pointer);
+  const last = tokens[tokens.length - 1];
+  if (Array.isArray(container)) {
+    container.splice(arrayIndex(container, last, pointer, false), 1);
+  } else {
+    if (!Object.prototype.hasOwnProperty.call(container, last)) {
+      throw new Error(`JSON pointer not found: ${pointer}`);
+    }
+    delete container[last];
+  }
+  return doc;
+}
+
+function asContainer(value: unknown, pointer: string): Container {
+  if (value === null || typeof value !== 'object') {
+    throw new Error(`JSON pointer not found: ${pointer}`);
+  }
+  return value as Container;
+}
+
+function arrayIndex(array: unknown[], token: string, pointer: string, allowEnd: boolean): number {
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new Error(`Invalid array index in JSON pointer: ${pointer}`);
+  }
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new Error(`Array index out of bounds in JSON pointer: ${pointer}`);
+  }
+  return index;
+}
+
+function toPointer(tokens: string[]): string {
+  return tokens.map((t) => `/${t.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
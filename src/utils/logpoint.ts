@@ -0,0 +1,105 @@
+// Logpoints: breakpoints whose condition reports values through a Runtime
+// binding and evaluates to false, so execution never pauses.
+
+// Runtime binding the logpoint conditions call with a JSON payload.
+export const LOGPOINT_BINDING = '__cdpDebugLogpoint';
+
+// Longest serialized value reported per placeholder.
+const MAX_VALUE_LENGTH = 1000;
+
+export type TemplatePart = { text: string } | { expression: string };
+
+export interface LogpointPayload {
+  token: string;
+  values: string[];
+  stack?: string;
+}
+
+/**
+ * Split a message template into literal text and `{expr}` placeholders.
+ * `{{` and `}}` produce literal braces; braces nested inside an expression
+ * (object literals, blocks) are balanced.
+ */
+export function parseLogTemplate(template: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let text = '';
+  let i = 0;
+  while (i < template.length) {
+    const ch = template[i];
+    if (ch === '{' && template[i + 1] === '{') {
+      text += '{';
+      i += 2;
+    } else if (ch === '}' && template[i + 1] === '}') {
+      text += '}';
+      i += 2;
+    } else if (ch === '{') {
+      let depth = 1;
+      let j = i + 1;
+      while (j < template.length && depth > 0) {
+        if (template[j] === '{') depth++;
+        else if (template[j] === '}') depth--;
+        j++;
+      }
+      if (depth > 0) {
+        throw new Error(`Unclosed placeholder in log template at position ${i}`);
+      }
+      const expression = template.slice(i + 1, j - 1).trim();
+      if (!expression) {
+        throw new Error(`Empty placeholder in log template at position ${i}`);
+      }
+      if (text) parts.push({ text });
+      text = '';
+      parts.push({ expression });
+      i = j;
+    } else {
+      text += ch;
+      i++;
+    }
+  }
+  if (text) parts.push({ text });
+  return parts;
+}
+
+/**
+ * Build the breakpoint condition for a logpoint. Each placeholder is
+ * evaluated in the paused frame and serialized; errors are reported as
+ * values rather than thrown. The whole expression always yields false.
+ */
+export function buildLogpointCondition(token: string, parts: TemplatePart[], condition?: string): string {
+  const expressions = parts.flatMap((p) => ('expression' in p ? [p.expression] : []));
+  const format =
+    `(v) => { if (typeof v === 'string') return v; ` +
+    `if (typeof v === 'function') return 'ƒ ' + (v.name || 'anonymous'); ` +
+    `if (v === null || typeof v !== 'object') return String(v); ` +
+    `try { const s = JSON.stringify(v); if (s === undefined) return String(v); ` +
+    `return s.length > ${MAX_VALUE_LENGTH} ? s.slice(0, ${MAX_VALUE_LENGTH}) + '…' : s; } ` +
+    `catch { return Object.prototype.toString.call(v); } }`;
+  const values = expressions
+    .map((e) => `(() => { try { return __f((${e})); } catch (e) { return '<error: ' + (e && e.message || e) + '>'; } })()`)
+    .join(', ');
+  const guard = condition ? `if (!(${condition})) return false; ` : '';
+  return (
+    `(() => { try { ${guard}const __f = ${format}; ` +
+    `const __b = globalThis[${JSON.stringify(LOGPOINT_BINDING)}]; ` +
+    `if (typeof __b === 'function') __b(JSON.stringify({ token: ${JSON.stringify(token)}, values: [${values}], stack: new Error().stack })); ` +
+    `} catch {} return false; })()`
+  );
+}
+
+/** Interleave template text with the reported values. */
+export function formatLogMessage(parts: TemplatePart[], values: string[]): string {
+  let index = 0;
+  return parts.map((p) => ('text' in p ? p.text : values[index++] ?? '')).join('');
+}
+
+/**
+ * Call-frame summary from the reported `new Error().stack`: drops the
+ * message line and the condition's own eval frames.
+ */
+export function summarizeLogpointStack(stack: string | undefined, maxFrames = 5): string[] {
+  if (!stack) return [];
+  const frames = stack.split('\n').slice(1).map((l) => l.trim()).filter((l) => l.startsWith('at '));
+  let start = 0;
+  while (start < frames.length && frames[start].includes('eval at ')) start++;
+  return frames.slice(start, start + maxFrames).map((f) => f.slice(3));
+}
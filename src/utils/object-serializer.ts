@@ -0,0 +1,353 @@
+// Deep serialization of RemoteObjects for evaluate, evaluate_on_frame,
+// get_scope_variables and console arguments. Objects are walked with
+// Runtime.getProperties up to a depth / breadth limit, then rendered either
+// as compact JSON or as a DevTools-like text tree.
+
+import type { RemoteObject, PropertyDescriptor, InternalPropertyDescriptor } from './types.js';
+import type { CallArgument } from './value-input.js';
+import { formatRemoteValue } from './pause-context.js';
+
+/** The CDP calls the serializer needs, bound to the session owning the objects. */
+export interface PropertySource {
+  getProperties(
+    objectId: string,
+    options?: { ownProperties?: boolean; accessorPropertiesOnly?: boolean }
+  ): Promise<{ result: PropertyDescriptor[]; internalProperties?: InternalPropertyDescriptor[] }>;
+  callFunctionOn(
+    objectId: string,
+    functionDeclaration: string,
+    args?: CallArgument[],
+    options?: { returnByValue?: boolean; objectGroup?: string }
+  ): Promise<RemoteObject>;
+  releaseObjectGroup(objectGroup: string): Promise<void>;
+}
+
+export interface SerializeOptions {
+  // Levels of nesting to expand (0 = just the value itself). Default 2.
+  depth?: number;
+  // Properties / entries / elements per object. Default 50.
+  maxProperties?: number;
+  // Run getters (own and inherited) to show their values. Default false.
+  invokeGetters?: boolean;
+  // Include symbol-keyed properties. Default true.
+  includeSymbols?: boolean;
+}
+
+export type SerializedPropertyKind = 'getter' | 'internal' | 'symbol';
+
+export interface SerializedProperty {
+  name: string;
+  value: SerializedNode;
+  kind?: SerializedPropertyKind;
+}
+
+export interface SerializedNode {
+  type: string;
+  subtype?: string;
+  className?: string;
+  // One-line rendering; for expanded objects their head (`Array(3)`, `Map(2)`).
+  description: string;
+  // Primitive value (JSON-safe).
+  value?: unknown;
+  properties?: SerializedProperty[];
+  // Map / Set / WeakMap entries. Sets have no key.
+  entries?: Array<{ key?: SerializedNode; value: SerializedNode }>;
+  // Properties or entries left out by maxProperties.
+  omitted?: number;
+  // Already being expanded further up the tree.
+  circular?: boolean;
+  // Kept for objects that were not expanded, so they can be inspected later.
+  objectId?: string;
+}
+
+const DEFAULT_DEPTH = 2;
+const DEFAULT_MAX_PROPERTIES = 50;
+
+// Internal properties that are noise or handled elsewhere.
+const SKIPPED_INTERNALS = new Set(['[[Prototype]]', '[[Scopes]]', '[[FunctionLocation]]', '[[IsClassConstructor]]', '[[Entries]]']);
+
+// Cycles are found by numbering objects in a WeakMap: objectIds are minted
+// anew every time an object is returned, so they can't be compared. The map
+// is created for each serialization in its own object group and released
+// after; page code cannot reach it and no page state is touched. It costs
+// one Runtime.callFunctionOn per expanded object.
+const IDENTITY_MAP_FUNCTION = 'function () { return new WeakMap(); }';
+const IDENTIFY_FUNCTION = `function (ids) {
+  let id = ids.get(this);
+  if (id === undefined) {
+    id = (ids.next = (ids.next || 0) + 1);
+    ids.set(this, id);
+  }
+  return id;
+}`;
+let identityGroupCounter = 0;
+
+const SLICE_FUNCTION = 'function (count) { return Array.prototype.slice.call(this, 0, count); }';
+const GETTER_FUNCTION = 'function (name) { return this[name]; }';
+
+interface WalkContext {
+  source: PropertySource;
+  // objectId of the identity WeakMap; no cycle detection without one.
+  identities?: string;
+  maxProperties: number;
+  invokeGetters: boolean;
+  includeSymbols: boolean;
+}
+
+/** Walk a RemoteObject into a SerializedNode tree. */
+export async function serializeRemoteObject(
+  obj: RemoteObject,
+  source: PropertySource,
+  options: SerializeOptions = {}
+): Promise<SerializedNode> {
+  const depth = options.depth ?? DEFAULT_DEPTH;
+  const ctx: WalkContext = {
+    source,
+    maxProperties: options.maxProperties ?? DEFAULT_MAX_PROPERTIES,
+    invokeGetters: options.invokeGetters ?? false,
+    includeSymbols: options.includeSymbols ?? true,
+  };
+  if (depth <= 0 || !isExpandable(obj)) return walk(obj, depth, ctx, new Set());
+
+  const identityGroup = `cdp-debug-identities-${++identityGroupCounter}`;
+  try {
+    const map = await source.callFunctionOn(obj.objectId!, IDENTITY_MAP_FUNCTION, [], { objectGroup: identityGroup });
+    ctx.identities = map.objectId;
+  } catch {
+    // Serialize without cycle detection; depth still bounds the walk.
+  }
+  try {
+    return await walk(obj, depth, ctx, new Set());
+  } finally {
+    if (ctx.identities) source.releaseObjectGroup(identityGroup).catch(() => {});
+  }
+}
+
+function leaf(obj: RemoteObject): SerializedNode {
+  const node: SerializedNode = { type: obj.type, subtype: obj.subtype, className: obj.className, description: formatRemoteValue(obj) };
+  if (obj.unserializableValue === undefined && obj.value !== undefined && obj.type !== 'object') {
+    node.value = obj.value;
+  } else if (obj.subtype === 'null') {
+    node.value = null;
+  }
+  return node;
+}
+
+function isExpandable(obj: RemoteObject): boolean {
+  return obj.type === 'object' && obj.subtype !== 'null' && obj.subtype !== 'node' && obj.objectId !== undefined;
+}
+
+async function walk(obj: RemoteObject, depth: number, ctx: WalkContext, ancestors: Set<number>): Promise<SerializedNode> {
+  const node = leaf(obj);
+  if (!isExpandable(obj)) return node;
+  const objectId = obj.objectId!;
+  if (depth <= 0) return { ...node, objectId };
+
+  const identity = await identify(ctx, objectId);
+  if (identity !== undefined && ancestors.has(identity)) {
+    return { ...node, description: '[Circular]', circular: true };
+  }
+  const path = identity === undefined ? ancestors : new Set(ancestors).add(identity);
+  node.description = headOf(obj);
+
+  if (obj.subtype === 'typedarray' || obj.subtype === 'arraybuffer' || obj.subtype === 'dataview') {
+    // Elements are primitives; the preview has enough of them without
+    // fetching a property per element.
+    const shown = (obj.preview?.properties ?? []).filter((p) => /^\d+$/.test(p.name)).slice(0, ctx.maxProperties);
+    node.properties = shown.map((p) => ({
+      name: p.name,
+      value: { type: p.type, description: p.value ?? p.type, value: p.type === 'number' ? Number(p.value) : p.value },
+    }));
+    const length = lengthOf(obj);
+    if (length !== undefined && length > shown.length) node.omitted = length - shown.length;
+    return node;
+  }
+
+  // Large arrays: fetch only the leading elements.
+  let propertiesOf = objectId;
+  const length = lengthOf(obj);
+  if (obj.subtype === 'array' && length !== undefined && length > ctx.maxProperties) {
+    const slice = await ctx.source.callFunctionOn(objectId, SLICE_FUNCTION, [{ value: ctx.maxProperties }]);
+    if (slice.objectId) propertiesOf = slice.objectId;
+  }
+
+  const { result, internalProperties = [] } = await ctx.source.getProperties(propertiesOf, { ownProperties: true });
+  const props = result.filter((p) =>
+    p.name !== '__proto__' &&
+    (ctx.includeSymbols || !p.symbol) &&
+    !(obj.subtype === 'array' && p.name === 'length')
+  );
+
+  const properties: SerializedProperty[] = [];
+  for (const prop of props.slice(0, ctx.maxProperties)) {
+    properties.push(await walkProperty(prop, objectId, depth, ctx, path));
+  }
+  let omitted = Math.max(0, props.length - ctx.maxProperties);
+  if (propertiesOf !== objectId && length !== undefined) omitted += length - ctx.maxProperties;
+
+  if (ctx.invokeGetters) {
+    // Getters defined on classes live on the prototype chain.
+    const inherited = await ctx.source.getProperties(objectId, { ownProperties: false, accessorPropertiesOnly: true });
+    for (const prop of inherited.result) {
+      if (prop.isOwn || prop.name === '__proto__' || !prop.get || prop.get.type !== 'function') continue;
+      if (properties.some((p) => p.name === prop.name)) continue;
+      properties.push(await walkProperty(prop, objectId, depth, ctx, path));
+    }
+  }
+
+  for (const internal of internalProperties) {
+    if (SKIPPED_INTERNALS.has(internal.name) || !internal.value) continue;
+    properties.push({ name: internal.name, value: await walk(internal.value, depth - 1, ctx, path), kind: 'internal' });
+  }
+
+  const entries = internalProperties.find((p) => p.name === '[[Entries]]')?.value;
+  if (entries?.objectId) {
+    const walked = await walkEntries(entries, depth, ctx, path);
+    node.entries = walked.entries;
+    omitted += walked.omitted;
+  }
+
+  if (obj.subtype === 'error') {
+    // The stack may be reported as an accessor; the description has it too.
+    const stack = properties.findIndex((p) => p.name === 'stack');
+    if (stack === -1 || properties[stack].value.type === 'accessor') {
+      const value: SerializedProperty = { name: 'stack', value: { type: 'string', description: JSON.stringify(obj.description ?? ''), value: obj.description ?? '' } };
+      if (stack === -1) properties.push(value);
+      else properties[stack] = value;
+    }
+  }
+
+  node.properties = properties;
+  if (omitted > 0) node.omitted = omitted;
+  return node;
+}
+
+async function walkProperty(
+  prop: PropertyDescriptor,
+  objectId: string,
+  depth: number,
+  ctx: WalkContext,
+  path: Set<number>
+): Promise<SerializedProperty> {
+  const kind: SerializedPropertyKind | undefined = prop.symbol ? 'symbol' : undefined;
+  if (prop.value) {
+    return { name: prop.name, value: await walk(prop.value, depth - 1, ctx, path), kind };
+  }
+  if (prop.get && prop.get.type === 'function') {
+    if (ctx.invokeGetters && !prop.symbol) {
+      try {
+        const value = await ctx.source.callFunctionOn(objectId, GETTER_FUNCTION, [{ value: prop.name }]);
+        return { name: prop.name, value: await walk(value, depth - 1, ctx, path), kind: 'getter' };
+      } catch (e) {
+        return { name: prop.name, value: { type: 'accessor', description: `(threw: ${e instanceof Error ? e.message : String(e)})` }, kind: 'getter' };
+      }
+    }
+    return { name: prop.name, value: { type: 'accessor', description: '(...)' }, kind: 'getter' };
+  }
+  return { name: prop.name, value: { type: 'accessor', description: prop.set ? '(setter)' : 'undefined' }, kind };
+}
+
+// [[Entries]] of a Map / Set is an array of entry objects with `key` (maps
+// only) and `value`.
+async function walkEntries(
+  entries: RemoteObject,
+  depth: number,
+  ctx: WalkContext,
+  path: Set<number>
+): Promise<{ entries: Array<{ key?: SerializedNode; value: SerializedNode }>; omitted: number }> {
+  const { result } = await ctx.source.getProperties(entries.objectId!, { ownProperties: true });
+  const items = result.filter((p) => /^\d+$/.test(p.name) && p.value?.objectId);
+  const walked: Array<{ key?: SerializedNode; value: SerializedNode }> = [];
+  for (const item of items.slice(0, ctx.maxProperties)) {
+    const fields = (await ctx.source.getProperties(item.value!.objectId!, { ownProperties: true })).result;
+    const key = fields.find((f) => f.name === 'key')?.value;
+    const value = fields.find((f) => f.name === 'value')?.value;
+    if (!value) continue;
+    walked.push({
+      key: key ? await walk(key, depth - 1, ctx, path) : undefined,
+      value: await walk(value, depth - 1, ctx, path),
+    });
+  }
+  return { entries: walked, omitted: Math.max(0, items.length - ctx.maxProperties) };
+}
+
+// Objects from another context (e.g. an iframe's window) can't be passed
+// the map and go unnumbered.
+async function identify(ctx: WalkContext, objectId: string): Promise<number | undefined> {
+  if (!ctx.identities) return undefined;
+  try {
+    const result = await ctx.source.callFunctionOn(objectId, IDENTIFY_FUNCTION, [{ objectId: ctx.identities }], { returnByValue: true });
+    return typeof result.value === 'number' ? result.value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function headOf(obj: RemoteObject): string {
+  if (obj.subtype === 'error') return firstLine(obj.description ?? obj.className ?? 'Error');
+  return firstLine(obj.description ?? obj.className ?? 'Object');
+}
+
+function lengthOf(obj: RemoteObject): number | undefined {
+  const match = /\((\d+)\)$/.exec(obj.description ?? '');
+  return match ? Number(match[1]) : undefined;
+}
+
+function firstLine(text: string): string {
+  const index = text.indexOf('\n');
+  return index === -1 ? text : text.slice(0, index);
+}
+
+/**
+ * Compact JSON: arrays as arrays, objects as objects (with an "@type" for
+ * anything but plain objects), Maps / Sets as their entries, and leaves as
+ * their value or one-line description.
+ */
+export function toJsonValue(node: SerializedNode): unknown {
+  if (node.circular) return '[Circular]';
+  if (!node.properties && !node.entries) {
+    return node.value !== undefined || node.subtype === 'null' ? node.value : node.description;
+  }
+  const more = node.omitted ? `… ${node.omitted} more` : undefined;
+  if (node.subtype === 'array' || node.subtype === 'typedarray') {
+    const items: unknown[] = (node.properties ?? []).filter((p) => /^\d+$/.test(p.name)).map((p) => toJsonValue(p.value));
+    if (more) items.push(more);
+    return items;
+  }
+  const out: Record<string, unknown> = {};
+  if (node.className && node.className !== 'Object') out['@type'] = node.description;
+  for (const prop of node.properties ?? []) {
+    out[prop.name] = toJsonValue(prop.value);
+  }
+  if (node.entries) {
+    out[node.entries.some((e) => e.key) ? 'entries' : 'values'] = node.entries.map((e) =>
+      e.key ? [toJsonValue(e.key), toJsonValue(e.value)] : toJsonValue(e.value)
+    );
+  }
+  if (more) out['…'] = more;
+  return out;
+}
+
+/** DevTools-like tree: one line per value, children indented beneath. */
+export function toTextTree(node: SerializedNode, name?: string, indent = ''): string {
+  const lines: string[] = [];
+  render(node, name, indent, lines);
+  return lines.join('\n');
+}
+
+function render(node: SerializedNode, name: string | undefined, indent: string, lines: string[]): void {
+  lines.push(`${indent}${name !== undefined ? `${name}: ` : ''}${node.description}`);
+  const inner = `${indent}  `;
+  for (const prop of node.properties ?? []) {
+    render(prop.value, prop.kind === 'getter' && prop.value.type !== 'accessor' ? `get ${prop.name}` : prop.name, inner, lines);
+  }
+  node.entries?.forEach((entry, i) => {
+    if (entry.key) {
+      lines.push(`${inner}${i}: ${entry.key.description} => ${entry.value.description}`);
+      for (const prop of entry.value.properties ?? []) render(prop.value, prop.name, `${inner}  `, lines);
+    } else {
+      render(entry.value, String(i), inner, lines);
+    }
+  });
+  if (node.omitted) lines.push(`${inner}… ${node.omitted} more`);
+}
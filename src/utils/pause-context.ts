@@ -0,0 +1,97 @@
+// Formatting helpers for get_pause_context: readable pause data, value
+// previews and async stack traces.
+
+import type { RemoteObject, ObjectPreview, StackTrace } from './types.js';
+
+/** One-line rendering of a RemoteObject, using its preview when present. */
+export function formatRemoteValue(obj: RemoteObject): string {
+  if (obj.type === 'undefined') return 'undefined';
+  if (obj.unserializableValue !== undefined) return obj.unserializableValue;
+  if (obj.type === 'string') return JSON.stringify(obj.value);
+  if (obj.type === 'object' && obj.subtype === 'null') return 'null';
+  if (obj.type !== 'object' && obj.type !== 'function') {
+    return obj.description ?? String(obj.value);
+  }
+  if (obj.type === 'function') {
+    return `ƒ ${firstLine(obj.description ?? '').replace(/^(async\s+)?function\s*/, '$1') || 'anonymous'}`;
+  }
+  if (obj.preview) return formatPreview(obj.preview);
+  return firstLine(obj.description ?? obj.className ?? 'Object');
+}
+
+export function formatPreview(preview: ObjectPreview): string {
+  const more = preview.overflow ? ', …' : '';
+  if (preview.entries) {
+    const entries = preview.entries.map((e) =>
+      e.key ? `${formatPreview(e.key)} => ${formatPreview(e.value)}` : formatPreview(e.value)
+    );
+    return `${preview.description ?? ''} {${entries.join(', ')}${more}}`;
+  }
+  if (preview.type !== 'object' || ['null', 'regexp', 'date', 'error', 'node'].includes(preview.subtype ?? '')) {
+    return firstLine(preview.description ?? preview.type);
+  }
+  const props = preview.properties.map((p) => {
+    const value = p.valuePreview ? formatPreview(p.valuePreview) : p.type === 'string' ? JSON.stringify(p.value) : p.value ?? p.type;
+    return preview.subtype === 'array' ? value : `${p.name}: ${value}`;
+  });
+  if (preview.subtype === 'array' || preview.subtype === 'typedarray') {
+    return `${preview.description ?? 'Array'} [${props.join(', ')}${more}]`;
+  }
+  const prefix = preview.description && preview.description !== 'Object' ? `${preview.description} ` : '';
+  return `${prefix}{${props.join(', ')}${more}}`;
+}
+
+/**
+ * Decode Debugger.paused `data` for the common pause reasons: the thrown
+ * value for exceptions, the URL for XHR breakpoints, the event for listener
+ * breakpoints, the mutation for DOM breakpoints. Other reasons pass through.
+ */
+export function describePauseData(reason: string, data: Record<string, unknown> | undefined): Record<string, unknown> | undefined {
+  if (!data) return undefined;
+  switch (reason) {
+    case 'exception':
+    case 'promiseRejection': {
+      const exception = data as unknown as RemoteObject;
+      return {
+        kind: reason === 'exception' ? 'exception' : 'unhandled promise rejection',
+        className: exception.className,
+        value: exception.subtype === 'error' ? firstLine(exception.description ?? '') : formatRemoteValue(exception),
+        stack: exception.subtype === 'error' ? exception.description?.split('\n').slice(1, 6).map((l) => l.trim()) : undefined,
+        uncaught: data.uncaught,
+      };
+    }
+    case 'XHR':
+      return { kind: 'XHR/fetch breakpoint', url: data.url, breakpointURL: data.breakpointURL };
+    case 'EventListener':
+      return { kind: 'event listener breakpoint', eventName: data.eventName, targetName: data.targetName };
+    case 'DOM':
+      return {
+        kind: 'DOM breakpoint',
+        type: data.type,
+        nodeId: data.nodeId,
+        targetNodeId: data.targetNodeId,
+        insertion: data.insertion,
+      };
+    default:
+      return data;
+  }
+}
+
+/** Render an async stack trace chain as readable lines, newest first. */
+export function formatAsyncStackTrace(trace: StackTrace | undefined, maxFrames = 20): string[] {
+  const lines: string[] = [];
+  let frames = 0;
+  for (let t = trace; t && frames < maxFrames; t = t.parent) {
+    lines.push(`-- ${t.description || 'async'} --`);
+    for (const f of t.callFrames) {
+      if (frames++ >= maxFrames) break;
+      lines.push(`${f.functionName || '(anonymous)'} (${f.url || `script ${f.scriptId}`}:${f.lineNumber + 1}:${f.columnNumber + 1})`);
+    }
+  }
+  return lines;
+}
+
+function firstLine(text: string): string {
+  const index = text.indexOf('\n');
+  return index === -1 ? text : text.slice(0, index);
+}
@@ -0,0 +1,60 @@
+// cdp:// resource URIs exposed through MCP resources/list and resources/read.
+
+export type ResourceRef =
+  | { kind: 'console' }
+  | { kind: 'exceptions' }
+  | { kind: 'log' }
+  | { kind: 'targets' }
+  | { kind: 'network' }
+  | { kind: 'script'; scriptId: string; targetId?: string }
+  | { kind: 'responseBody'; targetId: string; requestId: string };
+
+export const CONSOLE_URI = 'cdp://console';
+export const EXCEPTIONS_URI = 'cdp://exceptions';
+export const LOG_URI = 'cdp://log';
+export const TARGETS_URI = 'cdp://targets';
+export const NETWORK_URI = 'cdp://network';
+
+export const SCRIPT_URI_TEMPLATE = 'cdp://scripts/{scriptId}{?targetId}';
+export const RESPONSE_BODY_URI_TEMPLATE = 'cdp://network/{targetId}/{requestId}/body';
+
+export function scriptUri(scriptId: string, targetId?: string): string {
+  const base = `cdp://scripts/${encodeURIComponent(scriptId)}`;
+  return targetId ? `${base}?targetId=${encodeURIComponent(targetId)}` : base;
+}
+
+export function responseBodyUri(targetId: string, requestId: string): string {
+  return `cdp://network/${encodeURIComponent(targetId)}/${encodeURIComponent(requestId)}/body`;
+}
+
+/** Parse a cdp:// URI. Returns undefined for anything not served here. */
+export function parseResourceUri(uri: string): ResourceRef | undefined {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return undefined;
+  }
+  if (url.protocol !== 'cdp:') return undefined;
+
+  const segments = url.pathname.split('/').filter((s) => s.length > 0).map(decodeURIComponent);
+
+  switch (url.host) {
+    case 'console':
+    case 'exceptions':
+    case 'log':
+    case 'targets':
+      return segments.length === 0 ? { kind: url.host } : undefined;
+    case 'network':
+      if (segments.length === 0) return { kind: 'network' };
+      if (segments.length === 3 && segments[2] === 'body') {
+        return { kind: 'responseBody', targetId: segments[0], requestId: segments[1] };
+      }
+      return undefined;
+    case 'scripts':
+      if (segments.length !== 1) return undefined;
+      return { kind: 'script', scriptId: segments[0], targetId: url.searchParams.get('targetId') ?? undefined };
+    default:
+      return undefined;
+  }
+}
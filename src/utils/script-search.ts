@@ -0,0 +1,56 @@
+// Text search within a script source for search_scripts: match positions
+// plus surrounding lines, with long (minified) lines cut down around the match.
+
+export interface SearchOptions {
+  isRegex?: boolean;
+  caseSensitive?: boolean;
+  contextLines?: number;
+  maxMatches?: number;
+}
+
+export interface SourceMatch {
+  // 0-based, relative to the source text.
+  lineNumber: number;
+  columnNumber: number;
+  lineContent: string;
+  before: string[];
+  after: string[];
+}
+
+const MAX_LINE_LENGTH = 200;
+
+/** Build the RegExp a query stands for; plain queries match literally. */
+export function buildSearchRegex(query: string, options: SearchOptions = {}): RegExp {
+  const source = options.isRegex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+}
+
+/** Find matches of `query` line by line, at most one per line like Debugger.searchInContent. */
+export function searchSource(source: string, query: string, options: SearchOptions = {}): SourceMatch[] {
+  const regex = buildSearchRegex(query, options);
+  const context = options.contextLines ?? 0;
+  const max = options.maxMatches ?? Infinity;
+  const lines = source.split('\n');
+  const matches: SourceMatch[] = [];
+  for (let i = 0; i < lines.length && matches.length < max; i++) {
+    regex.lastIndex = 0;
+    const match = regex.exec(lines[i]);
+    if (!match) continue;
+    matches.push({
+      lineNumber: i,
+      columnNumber: match.index,
+      lineContent: clipLine(lines[i], match.index),
+      before: lines.slice(Math.max(0, i - context), i).map((l) => clipLine(l, 0)),
+      after: lines.slice(i + 1, i + 1 + context).map((l) => clipLine(l, 0)),
+    });
+  }
+  return matches;
+}
+
+// Keep the part of a long line around `column`, marking cuts with an ellipsis.
+export function clipLine(line: string, column: number): string {
+  if (line.length <= MAX_LINE_LENGTH) return line;
+  const start = Math.max(0, Math.min(column - MAX_LINE_LENGTH / 4, line.length - MAX_LINE_LENGTH));
+  const end = start + MAX_LINE_LENGTH;
+  return `${start > 0 ? '…' : ''}${line.slice(start, end)}${end < line.length ? '…' : ''}`;
+}
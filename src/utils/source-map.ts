@@ -0,0 +1,281 @@
+// Source map (v3) parsing and position lookup. Lines and columns are 0-based
+// on both sides, matching CDP locations.
+
+export interface OriginalPosition {
+  source: string;
+  lineNumber: number;
+  columnNumber: number;
+  name?: string;
+}
+
+export interface GeneratedPosition {
+  lineNumber: number;
+  columnNumber: number;
+}
+
+interface RawSourceMap {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources?: Array<string | null>;
+  sourcesContent?: Array<string | null>;
+  // Indexes into `sources` of third-party code debuggers should skip.
+  ignoreList?: number[];
+  x_google_ignoreList?: number[];
+  names?: string[];
+  mappings?: string;
+  sections?: Array<{ offset: { line: number; column: number }; map?: RawSourceMap; url?: string }>;
+}
+
+interface Mapping {
+  generatedLine: number;
+  generatedColumn: number;
+  sourceIndex?: number;
+  originalLine?: number;
+  originalColumn?: number;
+  nameIndex?: number;
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map<string, number>(Array.from(BASE64_CHARS, (c, i) => [c, i]));
+
+export class SourceMap {
+  readonly sources: string[] = [];
+  private sourcesContent: Array<string | undefined> = [];
+  private ignoredSources = new Set<number>();
+  private names: string[] = [];
+  // Sorted by generated line, then column.
+  private mappings: Mapping[] = [];
+
+  /**
+   * Parse a source map. `mapUrl` is where the map was loaded from; source
+   * URLs are resolved against it (after applying `sourceRoot`).
+   */
+  static parse(input: string | RawSourceMap, mapUrl?: string): SourceMap {
+    const raw = typeof input === 'string' ? (JSON.parse(stripXssiPrefix(input)) as RawSourceMap) : input;
+    if (raw.version !== 3) {
+      throw new Error(`Unsupported source map version: ${raw.version}`);
+    }
+    const map = new SourceMap();
+    if (raw.sections) {
+      for (const section of raw.sections) {
+        if (!section.map) {
+          throw new Error('Indexed source maps with url sections are not supported');
+        }
+        map.append(section.map, mapUrl, section.offset.line, section.offset.column);
+      }
+    } else {
+      map.append(raw, mapUrl, 0, 0);
+    }
+    map.mappings.sort((a, b) => a.generatedLine - b.generatedLine || a.generatedColumn - b.generatedColumn);
+    return map;
+  }
+
+  getSourceContent(source: string): string | undefined {
+    const index = this.sources.indexOf(source);
+    return index === -1 ? undefined : this.sourcesContent[index];
+  }
+
+  hasSourceContent(source: string): boolean {
+    return this.getSourceContent(source) !== undefined;
+  }
+
+  /** Whether the map lists `source` in its ignoreList / x_google_ignoreList. */
+  isIgnored(source: string): boolean {
+    return this.ignoredSources.has(this.sources.indexOf(source));
+  }
+
+  hasIgnoredSources(): boolean {
+    return this.ignoredSources.size > 0;
+  }
+
+  /**
+   * Generated ranges that map to ignored sources, as the sorted start/end
+   * position pairs Debugger.setBlackboxedRanges expects. A range still open at
+   * the end of the map is closed on the line after the last mapping.
+   */
+  ignoredGeneratedRanges(): GeneratedPosition[] {
+    const positions: GeneratedPosition[] = [];
+    let inside = false;
+    for (const m of this.mappings) {
+      const ignored = m.sourceIndex !== undefined && this.ignoredSources.has(m.sourceIndex);
+      if (ignored !== inside) {
+        positions.push({ lineNumber: m.generatedLine, columnNumber: m.generatedColumn });
+        inside = ignored;
+      }
+    }
+    if (inside) {
+      const last = this.mappings[this.mappings.length - 1];
+      positions.push({ lineNumber: last.generatedLine + 1, columnNumber: 0 });
+    }
+    return positions;
+  }
+
+  /** Map a generated position to the original source, if it is mapped. */
+  originalPositionFor(lineNumber: number, columnNumber: number): OriginalPosition | undefined {
+    // Last mapping on this line that starts at or before the column.
+    let lo = 0;
+    let hi = this.mappings.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      const m = this.mappings[mid];
+      if (m.generatedLine < lineNumber || (m.generatedLine === lineNumber && m.generatedColumn <= columnNumber)) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    if (found === -1) return undefined;
+    const m = this.mappings[found];
+    if (m.generatedLine !== lineNumber || m.sourceIndex === undefined) return undefined;
+    return {
+      source: this.sources[m.sourceIndex],
+      lineNumber: m.originalLine ?? 0,
+      columnNumber: m.originalColumn ?? 0,
+      name: m.nameIndex !== undefined ? this.names[m.nameIndex] : undefined,
+    };
+  }
+
+  /**
+   * Map an original position to the generated code. Picks the first mapping on
+   * the original line at or after the column; if the line has no mappings
+   * (blank line, comment), the next mapped line is used instead.
+   */
+  generatedPositionFor(source: string, lineNumber: number, columnNumber = 0): GeneratedPosition | undefined {
+    const sourceIndex = this.sources.indexOf(source);
+    if (sourceIndex === -1) return undefined;
+
+    let best: Mapping | undefined;
+    for (const m of this.mappings) {
+      if (m.sourceIndex !== sourceIndex || m.originalLine === undefined || m.originalColumn === undefined) continue;
+      if (m.originalLine < lineNumber) continue;
+      if (m.originalLine === lineNumber && m.originalColumn < columnNumber) continue;
+      if (!best || compareOriginal(m, best) < 0) best = m;
+    }
+    if (!best) return undefined;
+    return { lineNumber: best.generatedLine, columnNumber: best.generatedColumn };
+  }
+
+  private append(raw: RawSourceMap, mapUrl: string | undefined, lineOffset: number, columnOffset: number): void {
+    const sourceOffset = this.sources.length;
+    const nameOffset = this.names.length;
+
+    const sources = raw.sources ?? [];
+    for (let i = 0; i < sources.length; i++) {
+      this.sources.push(resolveSourceUrl(sources[i] ?? '', raw.sourceRoot, mapUrl));
+      this.sourcesContent.push(raw.sourcesContent?.[i] ?? undefined);
+    }
+    for (const index of raw.ignoreList ?? raw.x_google_ignoreList ?? []) {
+      if (index >= 0 && index < sources.length) this.ignoredSources.add(index + sourceOffset);
+    }
+    this.names.push(...(raw.names ?? []));
+
+    let generatedLine = 0;
+    let sourceIndex = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+    let nameIndex = 0;
+
+    for (const line of (raw.mappings ?? '').split(';')) {
+      let generatedColumn = 0;
+      if (line.length > 0) {
+        for (const segment of line.split(',')) {
+          if (segment.length === 0) continue;
+          const fields = decodeVlq(segment);
+          generatedColumn += fields[0];
+          const mapping: Mapping = {
+            generatedLine: generatedLine + lineOffset,
+            generatedColumn: generatedLine === 0 ? generatedColumn + columnOffset : generatedColumn,
+          };
+          if (fields.length >= 4) {
+            sourceIndex += fields[1];
+            originalLine += fields[2];
+            originalColumn += fields[3];
+            mapping.sourceIndex = sourceIndex + sourceOffset;
+            mapping.originalLine = originalLine;
+            mapping.originalColumn = originalColumn;
+            if (fields.length >= 5) {
+              nameIndex += fields[4];
+              mapping.nameIndex = nameIndex + nameOffset;
+            }
+          }
+          this.mappings.push(mapping);
+        }
+      }
+      generatedLine++;
+    }
+  }
+}
+
+function compareOriginal(a: Mapping, b: Mapping): number {
+  return (
+    (a.originalLine ?? 0) - (b.originalLine ?? 0) ||
+    (a.originalColumn ?? 0) - (b.originalColumn ?? 0) ||
+    a.generatedLine - b.generatedLine ||
+    a.generatedColumn - b.generatedColumn
+  );
+}
+
+export function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid base64 VLQ character: ${char}`);
+    }
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+  return values;
+}
+
+function stripXssiPrefix(text: string): string {
+  return text.startsWith(")]}'") ? text.slice(text.indexOf('\n') + 1) : text;
+}
+
+function resolveSourceUrl(source: string, sourceRoot: string | undefined, mapUrl: string | undefined): string {
+  let url = source;
+  if (sourceRoot) {
+    url = sourceRoot.endsWith('/') || source.startsWith('/') ? sourceRoot + source : `${sourceRoot}/${source}`;
+  }
+  if (!mapUrl || mapUrl.startsWith('data:')) return url;
+  try {
+    return new URL(url, mapUrl).href;
+  } catch {
+    return url;
+  }
+}
+
+/** Resolve a script's sourceMappingURL against the script URL. */
+export function resolveSourceMapUrl(sourceMapURL: string, scriptUrl: string): string {
+  if (sourceMapURL.startsWith('data:') || !scriptUrl) return sourceMapURL;
+  try {
+    return new URL(sourceMapURL, scriptUrl).href;
+  } catch {
+    return sourceMapURL;
+  }
+}
+
+/** Decode the payload of a `data:` URL (base64 or percent-encoded). */
+export function decodeDataUrl(url: string): string {
+  const comma = url.indexOf(',');
+  if (!url.startsWith('data:') || comma === -1) {
+    throw new Error('Not a data URL');
+  }
+  const meta = url.slice(5, comma);
+  const payload = url.slice(comma + 1);
+  if (meta.split(';').includes('base64')) {
+    return Buffer.from(payload, 'base64').toString('utf8');
+  }
+  return decodeURIComponent(payload);
+}
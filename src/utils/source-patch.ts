@@ -0,0 +1,84 @@
+// Source edits for set_script_source: unified diffs and line-range
+// replacements applied to a script's current text.
+
+export interface LineRangePatch {
+  // 0-based, inclusive start; exclusive end. startLine === endLine inserts.
+  startLine: number;
+  endLine: number;
+  // Replacement text; an empty string deletes the range.
+  text: string;
+}
+
+/** Replace lines [startLine, endLine) with `text`. */
+export function applyLineRangePatch(source: string, patch: LineRangePatch): string {
+  const lines = source.split('\n');
+  if (patch.startLine < 0 || patch.endLine < patch.startLine || patch.endLine > lines.length) {
+    throw new Error(`Line range ${patch.startLine}-${patch.endLine} is outside the script (${lines.length} lines)`);
+  }
+  const replacement = patch.text === '' ? [] : patch.text.replace(/\n$/, '').split('\n');
+  lines.splice(patch.startLine, patch.endLine - patch.startLine, ...replacement);
+  return lines.join('\n');
+}
+
+interface Hunk {
+  oldStart: number;
+  lines: string[];
+}
+
+/**
+ * Apply a single-file unified diff (as produced by `diff -u` / `git diff`)
+ * to a source. File headers are ignored. Context and removed lines must match exactly; a
+ * hunk whose position drifted is searched for nearby, like `patch` does.
+ */
+export function applyUnifiedDiff(source: string, diff: string): string {
+  const hunks = parseHunks(diff);
+  if (hunks.length === 0) {
+    throw new Error('No hunks found in diff');
+  }
+  const lines = source.split('\n');
+  // Applied bottom-up so earlier hunks' line numbers stay valid.
+  for (const hunk of [...hunks].sort((a, b) => b.oldStart - a.oldStart)) {
+    const expected = hunk.lines.filter((l) => !l.startsWith('+')).map((l) => l.slice(1));
+    const replacement = hunk.lines.filter((l) => !l.startsWith('-')).map((l) => l.slice(1));
+    // A hunk without old-side lines (`diff -U0` insertions) names the line
+    // it goes after, not the first line it covers.
+    const hint = expected.length === 0 ? hunk.oldStart : Math.max(0, hunk.oldStart - 1);
+    const at = locateHunk(lines, expected, hint);
+    if (at < 0) {
+      throw new Error(`Hunk at line ${hunk.oldStart} does not match the current source`);
+    }
+    lines.splice(at, expected.length, ...replacement);
+  }
+  return lines.join('\n');
+}
+
+function parseHunks(diff: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | undefined;
+  for (const line of diff.split('\n')) {
+    const header = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/.exec(line);
+    if (header) {
+      current = { oldStart: Number(header[1]), lines: [] };
+      hunks.push(current);
+    } else if (current && (line.startsWith(' ') || line.startsWith('+') || line.startsWith('-'))) {
+      current.lines.push(line);
+    } else if (current && line === '') {
+      // Editors strip the trailing space of empty context lines.
+      current.lines.push(' ');
+    }
+  }
+  for (const hunk of hunks) {
+    while (hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1] === ' ') hunk.lines.pop();
+  }
+  return hunks;
+}
+
+function locateHunk(lines: string[], expected: string[], hint: number): number {
+  const matchesAt = (at: number) =>
+    at >= 0 && at + expected.length <= lines.length && expected.every((l, i) => lines[at + i] === l);
+  for (let offset = 0; offset < lines.length; offset++) {
+    if (matchesAt(hint - offset)) return hint - offset;
+    if (matchesAt(hint + offset)) return hint + offset;
+  }
+  return -1;
+}
@@ -86,6 +86,9 @@ export interface ScriptInfo {
   length?: number;
   sourceMapURL?: string;
   hasSourceURL?: boolean;
+  // The target (page / worker / service worker) that parsed this script.
+  // Tagged from the CDP session that delivered Debugger.scriptParsed.
+  targetId?: string;
 }
 
 // Runtime types
@@ -135,11 +138,21 @@ export interface PropertyDescriptor {
   symbol?: RemoteObject;
 }
 
+export interface InternalPropertyDescriptor {
+  name: string;
+  value?: RemoteObject;
+}
+
 export interface ExecutionContextDescription {
   id: number;
   origin: string;
   name: string;
-  auxData?: Record<string, unknown>;
+  uniqueId?: string;
+  auxData?: {
+    frameId?: string;
+    isDefault?: boolean;
+    type?: 'default' | 'isolated' | 'worker';
+  };
 }
 
 export interface ExceptionDetails {
@@ -272,6 +285,21 @@ export interface FetchRequestPaused {
   networkId?: string;
 }
 
+export interface AuthChallenge {
+  source?: 'Server' | 'Proxy';
+  origin: string;
+  scheme: string;
+  realm: string;
+}
+
+export interface FetchAuthRequired {
+  requestId: string;
+  request: RequestData;
+  frameId: string;
+  resourceType: ResourceType;
+  authChallenge: AuthChallenge;
+}
+
 export interface HeaderEntry {
   name: string;
   value: string;
@@ -0,0 +1,21 @@
+// The URL pattern syntax shared by script, exception, console and ignore-list
+// filters: /regex/ as-is, anything else a glob (`*` / `?`) anchored to the
+// whole URL.
+
+/** Regex source for a URL pattern. Throws on an invalid /regex/. */
+export function urlPatternSource(pattern: string): string {
+  if (pattern.length > 1 && pattern.startsWith('/') && pattern.endsWith('/')) {
+    const source = pattern.slice(1, -1);
+    new RegExp(source);
+    return source;
+  }
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return `^${escaped}$`;
+}
+
+export function urlPatternToRegex(pattern: string): RegExp {
+  return new RegExp(urlPatternSource(pattern));
+}
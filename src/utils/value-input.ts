@@ -0,0 +1,42 @@
+// New values for set_variable / set_return_value: a JSON literal (plus the
+// literals JSON cannot express) or an expression evaluated on the frame.
+
+import type { RemoteObject } from './types.js';
+
+export type ValueInput = { json: string } | { expression: string };
+
+export interface CallArgument {
+  value?: unknown;
+  unserializableValue?: string;
+  objectId?: string;
+}
+
+const UNSERIALIZABLE_LITERALS = new Set(['NaN', 'Infinity', '-Infinity', '-0']);
+
+/** Parse a JSON literal into a Runtime.CallArgument. */
+export function parseJsonLiteral(text: string): CallArgument {
+  const trimmed = text.trim();
+  if (trimmed === 'undefined') return {};
+  if (UNSERIALIZABLE_LITERALS.has(trimmed) || /^-?\d+n$/.test(trimmed)) {
+    return { unserializableValue: trimmed };
+  }
+  try {
+    return { value: JSON.parse(trimmed) };
+  } catch {
+    throw new Error(`Not a JSON literal: ${text}. Use expression for JavaScript values.`);
+  }
+}
+
+// RemoteObject-like description of a literal argument, for echoing it back.
+export function argumentPreview(argument: CallArgument): RemoteObject {
+  if (argument.unserializableValue !== undefined) {
+    const type = argument.unserializableValue.endsWith('n') ? 'bigint' : 'number';
+    return { type, unserializableValue: argument.unserializableValue, description: argument.unserializableValue };
+  }
+  if (!('value' in argument)) return { type: 'undefined' };
+  const value = argument.value;
+  if (value === null) return { type: 'object', subtype: 'null', value };
+  if (Array.isArray(value)) return { type: 'object', subtype: 'array', value, description: JSON.stringify(value) };
+  const type = typeof value as RemoteObject['type'];
+  return { type, value, description: type === 'object' ? JSON.stringify(value) : String(value) };
+}
@@ -0,0 +1,9 @@
+import { createRequire } from 'module';
+
+// Read from package.json so the server info and exported files never lag a
+// release. Resolves the same from src/ (tests) and build/.
+const require = createRequire(import.meta.url);
+const pkg = require('../package.json') as { name: string; version: string };
+
+export const SERVER_NAME = pkg.name;
+export const SERVER_VERSION = pkg.version;
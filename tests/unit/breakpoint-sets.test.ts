@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  BreakpointSets,
+  parseBreakpointSetFile,
+  breakpointDefinitionKey,
+} from '../../src/state/BreakpointSets.js';
+
+describe('BreakpointSets', () => {
+  let sets: BreakpointSets;
+
+  beforeEach(() => {
+    sets = new BreakpointSets();
+  });
+
+  it('should save, replace and remove sets', () => {
+    sets.save('checkout', [{ url: 'https://example.com/app.js', lineNumber: 10 }]);
+    sets.save('checkout', [{ urlRegex: 'cart\\.js$', lineNumber: 3 }], false);
+
+    const set = sets.get('checkout');
+    expect(set?.breakpoints).toEqual([{ urlRegex: 'cart\\.js$', lineNumber: 3 }]);
+    expect(set?.autoApply).toBe(false);
+    expect(sets.remove('checkout')).toBe(true);
+    expect(sets.getAll()).toHaveLength(0);
+  });
+
+  it('should list only auto-applied sets', () => {
+    sets.save('a', []);
+    sets.save('b', [], false);
+    sets.setAutoApply('a', false);
+    sets.setAutoApply('b', true);
+    expect(sets.getAutoApplied().map((s) => s.name)).toEqual(['b']);
+    expect(sets.setAutoApply('missing', true)).toBe(false);
+  });
+
+  it('should round-trip through the file format', () => {
+    sets.save('logging', [
+      { url: 'https://example.com/app.js', lineNumber: 5, logMessage: 'x={x}' },
+      { url: 'https://example.com/app.js', lineNumber: 9, hitCondition: '%2', enabled: false },
+    ]);
+    sets.save('other', []);
+
+    const file = parseBreakpointSetFile(JSON.stringify(sets.toFile(['logging'])));
+    expect(file.sets).toHaveLength(1);
+    expect(file.sets[0]).toEqual(sets.get('logging'));
+  });
+
+  it('should reject unknown sets when writing a file', () => {
+    expect(() => sets.toFile(['missing'])).toThrow(/not found/);
+  });
+
+  it('should default autoApply when loading', () => {
+    const file = parseBreakpointSetFile(JSON.stringify({
+      version: 1,
+      sets: [{ name: 'a', breakpoints: [{ url: 'a.js', lineNumber: 1 }] }],
+    }));
+    expect(file.sets[0].autoApply).toBe(true);
+  });
+
+  it('should reject malformed files', () => {
+    expect(() => parseBreakpointSetFile('{"sets": []}')).toThrow(/version/);
+    expect(() => parseBreakpointSetFile(JSON.stringify({
+      version: 1,
+      sets: [{ name: 'a', breakpoints: [{ lineNumber: 1 }] }],
+    }))).toThrow(/url or urlRegex/);
+  });
+
+  it('should key definitions by location and behavior', () => {
+    const base = { url: 'a.js', lineNumber: 1 };
+    expect(breakpointDefinitionKey(base)).toBe(breakpointDefinitionKey({ ...base, hitCondition: '3', enabled: false }));
+    expect(breakpointDefinitionKey(base)).not.toBe(breakpointDefinitionKey({ ...base, condition: 'x > 1' }));
+    expect(breakpointDefinitionKey(base)).not.toBe(breakpointDefinitionKey({ ...base, logMessage: 'hi' }));
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatConsoleArgs,
+  consoleTableFromPreview,
+  parseCountMessage,
+  parseTimerMessage,
+} from '../../src/utils/console-format.js';
+import type { RemoteObject } from '../../src/utils/types.js';
+
+describe('formatConsoleArgs', () => {
+  it('should apply format directives and append the rest', () => {
+    const args: RemoteObject[] = [
+      { type: 'string', value: '%s has %d items (%f%%)%c' },
+      { type: 'string', value: 'cart' },
+      { type: 'number', value: 3.7, description: '3.7' },
+      { type: 'number', value: 0.5, description: '0.5' },
+      { type: 'string', value: 'color: red' },
+      { type: 'boolean', value: true },
+    ];
+    expect(formatConsoleArgs(args)).toBe('cart has 3 items (0.5%) true');
+  });
+
+  it('should use previews for objects', () => {
+    const args: RemoteObject[] = [
+      { type: 'string', value: 'user' },
+      {
+        type: 'object',
+        className: 'Object',
+        description: 'Object',
+        preview: { type: 'object', overflow: false, properties: [{ name: 'id', type: 'number', value: '1' }] },
+      },
+    ];
+    expect(formatConsoleArgs(args)).toBe('user {id: 1}');
+  });
+
+  it('should leave directives without arguments alone', () => {
+    expect(formatConsoleArgs([{ type: 'string', value: '100%s' }])).toBe('100%s');
+  });
+});
+
+describe('consoleTableFromPreview', () => {
+  it('should build columns from object rows and primitive rows', () => {
+    const table = consoleTableFromPreview({
+      type: 'object',
+      preview: {
+        type: 'object',
+        overflow: false,
+        properties: [
+          { name: 'a', type: 'object', valuePreview: { type: 'object', overflow: false, properties: [{ name: 'x', type: 'number', value: '1' }, { name: 'y', type: 'number', value: '2' }] } },
+          { name: 'b', type: 'number', value: '5' },
+        ],
+      },
+    });
+    expect(table).toEqual({
+      columns: ['x', 'y', 'Value'],
+      rows: [
+        { index: 'a', values: { x: '1', y: '2' } },
+        { index: 'b', values: { Value: '5' } },
+      ],
+    });
+  });
+
+  it('should restrict columns to the second argument', () => {
+    const table = consoleTableFromPreview(
+      {
+        type: 'object',
+        preview: {
+          type: 'object',
+          overflow: false,
+          properties: [{ name: '0', type: 'object', valuePreview: { type: 'object', overflow: false, properties: [{ name: 'x', type: 'number', value: '1' }, { name: 'y', type: 'number', value: '2' }] } }],
+        },
+      },
+      { type: 'object', preview: { type: 'object', overflow: false, properties: [{ name: '0', type: 'string', value: 'y' }] } }
+    );
+    expect(table?.columns).toEqual(['y']);
+  });
+});
+
+describe('count and timer messages', () => {
+  it('should parse labels and values', () => {
+    expect(parseCountMessage('default: 4')).toEqual({ label: 'default', count: 4 });
+    expect(parseTimerMessage('fetch: 12.25 ms')).toEqual({ label: 'fetch', ms: 12.25 });
+    expect(parseTimerMessage('fetch: 1.5 ms extra data')).toEqual({ label: 'fetch', ms: 1.5 });
+    expect(parseCountMessage('no count here')).toBeUndefined();
+  });
+});
@@ -106,6 +106,45 @@ describe('ConsoleState', () => {
     });
   });
 
+  describe('exception groups', () => {
+    const thrown = (exceptionId: number, description: string, timestamp: number, targetId?: string) =>
+      state.onExceptionThrown({
+        timestamp,
+        targetId,
+        exceptionDetails: {
+          exceptionId,
+          text: 'Uncaught',
+          lineNumber: 10,
+          columnNumber: 5,
+          url: 'http://example.com/app.js',
+          exception: { type: 'object', subtype: 'error', description },
+        },
+      });
+
+    it('should group repeated exceptions and keep only a few samples', () => {
+      for (let i = 0; i < 20; i++) thrown(i, `Error: frame ${i} failed`, 100 + i, i % 2 ? 'WORKER' : 'PAGE');
+      thrown(99, 'TypeError: other', 500, 'PAGE');
+
+      const groups = state.getExceptionGroups();
+      expect(groups).toHaveLength(2);
+      expect(groups[0]).toMatchObject({ message: 'Error: frame 0 failed', count: 20, firstSeen: 100, lastSeen: 119, targets: ['PAGE', 'WORKER'] });
+      expect(groups[1]).toMatchObject({ message: 'TypeError: other', count: 1 });
+      expect(state.getExceptionCount()).toBe(6);
+      const samples = state.getExceptions().filter((e) => e.fingerprint === groups[0].fingerprint);
+      expect(samples).toHaveLength(5);
+      expect(groups[0].lastSampleId).toBe(samples[samples.length - 1].id);
+    });
+
+    it('should mark revoked promise rejections', () => {
+      const exc = thrown(7, 'Error: rejected', 1, 'PAGE');
+
+      expect(state.onExceptionRevoked({ exceptionId: 7, targetId: 'WORKER' })).toBeUndefined();
+      expect(state.onExceptionRevoked({ exceptionId: 7, targetId: 'PAGE', reason: 'Handler added to rejected promise' })).toBe(exc);
+      expect(exc.revoked).toBe(true);
+      expect(state.getExceptionGroups()[0].revokedCount).toBe(1);
+    });
+  });
+
   describe('querying', () => {
     beforeEach(() => {
       state.onConsoleAPICalled({ type: 'log', args: [{ type: 'string', value: 'log1' }], executionContextId: 1, timestamp: 1 });
@@ -140,6 +179,89 @@ describe('ConsoleState', () => {
     });
   });
 
+  describe('filtering', () => {
+    const log = (type: string, text: string, extra: { targetId?: string; timestamp?: number; url?: string } = {}) =>
+      state.onConsoleAPICalled({
+        type,
+        args: [{ type: 'string', value: text }],
+        executionContextId: extra.targetId ? 2 : 1,
+        timestamp: extra.timestamp ?? 0,
+        targetId: extra.targetId,
+        stackTrace: extra.url ? { callFrames: [{ functionName: '', scriptId: '1', url: extra.url, lineNumber: 0, columnNumber: 0 }] } : undefined,
+      });
+
+    beforeEach(() => {
+      log('log', 'Cart loaded', { timestamp: 100, url: 'https://shop.test/cart.js' });
+      log('error', 'Checkout FAILED', { timestamp: 200, url: 'https://shop.test/checkout.js' });
+      log('log', 'sync done', { timestamp: 300, targetId: 'WORKER' });
+    });
+
+    it('should filter by text, url, level and target', () => {
+      expect(state.queryMessages({ textPattern: 'failed' }).map((m) => m.id)).toEqual([2]);
+      expect(state.queryMessages({ textPattern: 'failed', caseSensitive: true })).toEqual([]);
+      expect(state.queryMessages({ urlPattern: '*/cart.js' }).map((m) => m.text)).toEqual(['Cart loaded']);
+      expect(state.queryMessages({ levels: ['error'] })).toHaveLength(1);
+      expect(state.queryMessages({ targetId: 'WORKER' }).map((m) => m.text)).toEqual(['sync done']);
+      expect(state.queryMessages({ executionContextId: 1 })).toHaveLength(2);
+    });
+
+    it('should filter by time window and cursor', () => {
+      expect(state.queryMessages({ since: 150, until: 300 }).map((m) => m.id)).toEqual([2, 3]);
+      expect(state.queryMessages({ afterId: 2 }).map((m) => m.id)).toEqual([3]);
+      expect(state.getLastMessageId()).toBe(3);
+    });
+  });
+
+  describe('console methods', () => {
+    const call = (type: string, args: RemoteObject[], targetId?: string) =>
+      state.onConsoleAPICalled({ type, args, executionContextId: 1, timestamp: 0, targetId });
+
+    it('should track group nesting per target', () => {
+      call('startGroup', [{ type: 'string', value: 'outer' }]);
+      call('log', [{ type: 'string', value: 'in outer' }]);
+      call('startGroupCollapsed', [{ type: 'string', value: 'inner' }]);
+      call('log', [{ type: 'string', value: 'in inner' }]);
+      call('log', [{ type: 'string', value: 'worker' }], 'WORKER');
+      call('endGroup', []);
+      call('endGroup', []);
+      call('log', [{ type: 'string', value: 'after' }]);
+
+      expect(state.getMessages().map((m) => m.groupDepth)).toEqual([0, 1, 1, 2, 0, 1, 0, 0]);
+    });
+
+    it('should aggregate console.count and console.time', () => {
+      call('count', [{ type: 'string', value: 'clicks: 1' }]);
+      call('count', [{ type: 'string', value: 'clicks: 2' }]);
+      call('timeEnd', [{ type: 'string', value: 'render: 12.5 ms' }]);
+      call('timeLog', [{ type: 'string', value: 'render: 7.5 ms' }, { type: 'number', value: 3 }]);
+
+      expect(state.getCounters()).toEqual([{ label: 'clicks', count: 2, targetId: undefined }]);
+      expect(state.getTimers()).toEqual([
+        { label: 'render', calls: 2, totalMs: 20, maxMs: 12.5, lastMs: 7.5, targetId: undefined },
+      ]);
+
+      state.clear();
+      expect(state.getCounters()).toEqual([]);
+    });
+
+    it('should keep console.table data', () => {
+      const msg = call('table', [{
+        type: 'object',
+        subtype: 'array',
+        preview: {
+          type: 'object',
+          subtype: 'array',
+          overflow: false,
+          properties: [
+            { name: '0', type: 'object', valuePreview: { type: 'object', overflow: false, properties: [{ name: 'sku', type: 'string', value: 'A1' }] } },
+          ],
+        },
+      }]);
+
+      expect(msg.table).toEqual({ columns: ['sku'], rows: [{ index: '0', values: { sku: 'A1' } }] });
+    });
+  });
+
   describe('limits and clearing', () => {
     it('should limit stored messages', () => {
       state.setMaxMessages(5);
@@ -0,0 +1,368 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DebugSession } from '../../src/DebugSession.js';
+import { getTargets } from '../../src/chrome-launcher.js';
+import type { CDPClient } from '../../src/cdp-client.js';
+import type { CallFrame } from '../../src/utils/types.js';
+
+vi.mock('../../src/chrome-launcher.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/chrome-launcher.js')>()),
+  getTargets: vi.fn(),
+}));
+
+// A DebugSession whose CDP client is replaced by a recorder: commands are
+// answered by per-method handlers, events are emitted by the test. No
+// browser is involved; the session talks to the root target only.
+function fakeSession() {
+  const session = new DebugSession();
+  const client = (session as unknown as { client: CDPClient }).client;
+  const sent: Array<{ method: string; params?: Record<string, unknown> }> = [];
+  const handlers = new Map<string, (params?: Record<string, unknown>) => unknown>();
+  vi.spyOn(client, 'send').mockImplementation(async (method: string, params?: Record<string, unknown>) => {
+    sent.push({ method, params });
+    return (handlers.get(method)?.(params) ?? {}) as never;
+  });
+  const events: string[] = [];
+  session.on('paused', () => events.push('paused'));
+  session.on('resumed', () => events.push('resumed'));
+  return {
+    session,
+    client,
+    sent,
+    events,
+    handle: (method: string, handler: (params?: Record<string, unknown>) => unknown) => handlers.set(method, handler),
+    emit: (method: string, params: unknown = {}) => client.emit(method, params, null),
+    methods: () => sent.map((c) => c.method),
+  };
+}
+
+function frame(lineNumber: number, url = 'http://example.com/app.js'): CallFrame {
+  return {
+    callFrameId: `frame-${lineNumber}`,
+    functionName: 'run',
+    location: { scriptId: '1', lineNumber, columnNumber: 0 },
+    url,
+    scopeChain: [],
+    this: { type: 'undefined' },
+  };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('DebugSession', () => {
+  let fake: ReturnType<typeof fakeSession>;
+
+  beforeEach(() => {
+    fake = fakeSession();
+    fake.handle('Debugger.setBreakpointByUrl', () => ({
+      breakpointId: 'bp-1',
+      locations: [{ scriptId: '1', lineNumber: 10, columnNumber: 0 }],
+    }));
+  });
+
+  describe('disabled breakpoints', () => {
+    it('should remove the CDP breakpoint and set it again on enable', async () => {
+      const { breakpointId } = await fake.session.setBreakpointByUrl(10, 'http://example.com/app.js', undefined, undefined, 'x > 1');
+
+      await fake.session.setBreakpointEnabled(breakpointId, false);
+      expect(fake.sent.at(-1)).toEqual({ method: 'Debugger.removeBreakpoint', params: { breakpointId: 'bp-1' } });
+
+      fake.sent.length = 0;
+      await fake.session.setBreakpointEnabled(breakpointId, true);
+      expect(fake.methods()).toEqual(['Debugger.setBreakpointByUrl']);
+      expect(fake.sent[0].params).toMatchObject({ lineNumber: 10, url: 'http://example.com/app.js', condition: 'x > 1' });
+      expect(fake.session.debugState.getBreakpoint(breakpointId)).toMatchObject({ enabled: true });
+    });
+
+    it('should not remove a disabled breakpoint from CDP twice', async () => {
+      const { breakpointId } = await fake.session.setBreakpointByUrl(10, 'http://example.com/app.js');
+      await fake.session.setBreakpointEnabled(breakpointId, false);
+
+      fake.sent.length = 0;
+      await fake.session.removeBreakpoint(breakpointId);
+      expect(fake.sent).toEqual([]);
+      expect(fake.session.debugState.getBreakpoint(breakpointId)).toBeUndefined();
+    });
+  });
+
+  describe('auto-resume', () => {
+    it('should hide both the pause and the resume of an unmet hit condition', async () => {
+      const { breakpointId } = await fake.session.setBreakpointByUrl(10, 'http://example.com/app.js');
+      fake.session.debugState.setHitCondition(breakpointId, { op: '>=', count: 2 });
+
+      fake.emit('Debugger.paused', { reason: 'other', callFrames: [frame(10)], hitBreakpoints: ['bp-1'] });
+      await flush();
+      fake.emit('Debugger.resumed');
+      expect(fake.methods().at(-1)).toBe('Debugger.resume');
+      expect(fake.events).toEqual([]);
+
+      fake.emit('Debugger.paused', { reason: 'other', callFrames: [frame(10)], hitBreakpoints: ['bp-1'] });
+      expect(fake.events).toEqual(['paused']);
+    });
+
+    it('should stop treating the target as stepping once it resumes on its own', async () => {
+      const { breakpointId } = await fake.session.setBreakpointByUrl(10, 'http://example.com/app.js');
+      fake.session.debugState.setHitCondition(breakpointId, { op: '>=', count: 5 });
+      fake.emit('Debugger.paused', { reason: 'other', callFrames: [frame(3)] });
+
+      // Stepping out of the last frame: the step resumes and nothing pauses.
+      await fake.session.stepOut();
+      fake.emit('Debugger.resumed');
+      // A later resume that is not a step ends the step.
+      fake.emit('Debugger.resumed');
+
+      fake.emit('Debugger.paused', { reason: 'other', callFrames: [frame(10)], hitBreakpoints: ['bp-1'] });
+      await flush();
+      expect(fake.methods().at(-1)).toBe('Debugger.resume');
+      expect(fake.events).toEqual(['paused', 'resumed', 'resumed']);
+    });
+
+    it('should end the step when waiting for its pause times out', async () => {
+      const { breakpointId } = await fake.session.setBreakpointByUrl(10, 'http://example.com/app.js');
+      fake.session.debugState.setHitCondition(breakpointId, { op: '>=', count: 5 });
+      fake.emit('Debugger.paused', { reason: 'other', callFrames: [frame(3)] });
+      fake.handle('Debugger.stepOut', () => {
+        setImmediate(() => fake.emit('Debugger.resumed'));
+      });
+
+      expect(await fake.session.stepAndWait('out', { timeout: 20 })).toBeNull();
+
+      fake.emit('Debugger.paused', { reason: 'other', callFrames: [frame(10)], hitBreakpoints: ['bp-1'] });
+      await flush();
+      expect(fake.methods().at(-1)).toBe('Debugger.resume');
+      expect(fake.session.debugState.isPaused()).toBe(false);
+    });
+  });
+
+  describe('exception history', () => {
+    it('should snapshot locals before resuming a filtered exception', async () => {
+      await fake.session.setPauseOnExceptions('all', [{ classPattern: '^TypeError$' }]);
+      fake.handle('Runtime.getProperties', () => ({
+        result: [{ name: 'count', value: { type: 'number', value: 3, description: '3' } }],
+      }));
+
+      fake.emit('Debugger.paused', {
+        reason: 'exception',
+        data: { type: 'object', className: 'Error', description: 'Error: boom' },
+        callFrames: [{ ...frame(4), scopeChain: [{ type: 'local', object: { type: 'object', objectId: 'scope-1' } }] }],
+      });
+      await flush();
+      await flush();
+
+      const methods = fake.methods();
+      expect(methods.indexOf('Runtime.getProperties')).toBeGreaterThan(-1);
+      expect(methods.indexOf('Runtime.getProperties')).toBeLessThan(methods.indexOf('Debugger.resume'));
+      const [entry] = fake.session.debugState.getExceptionHistory();
+      expect(entry).toMatchObject({ paused: false });
+      expect(Object.keys(entry.variables ?? {})).toEqual(['count']);
+    });
+  });
+
+  describe('evaluating on a call frame', () => {
+    it('should ignore pauses of other targets while evaluating', async () => {
+      fake.emit('Debugger.paused', { reason: 'other', callFrames: [frame(1)] });
+      fake.handle('Debugger.evaluateOnCallFrame', () => new Promise((resolve) => {
+        setImmediate(() => {
+          fake.session.emit('paused', { targetId: 'WORKER', reason: 'other', callFrames: [frame(9)] });
+          resolve({ result: { type: 'number', value: 42, description: '42' } });
+        });
+      }));
+
+      const result = await fake.session.evaluateOnCallFrame('frame-1', 'answer');
+      expect(result.paused).toBeFalsy();
+      expect(result.result.value).toBe(42);
+    });
+
+    it('should report a pause of the frame\'s own target', async () => {
+      fake.emit('Debugger.paused', { reason: 'other', callFrames: [frame(1)] });
+      fake.handle('Debugger.evaluateOnCallFrame', () => {
+        setImmediate(() => fake.emit('Debugger.paused', { reason: 'other', callFrames: [frame(9)] }));
+        return new Promise(() => {});
+      });
+
+      const result = await fake.session.evaluateOnCallFrame('frame-1', 'hitsBreakpoint()');
+      expect(result).toMatchObject({ paused: true, pauseReason: 'other' });
+      expect(result.callFrames?.[0].location.lineNumber).toBe(9);
+    });
+  });
+
+  describe('stepping until a pause', () => {
+    // Each step resumes the target and pauses on the next scripted frame.
+    // An entry of null lets the target run on.
+    function scriptSteps(pauses: Array<Record<string, unknown> | null>) {
+      fake.handle('Debugger.stepOver', () => {
+        const next = pauses.shift();
+        setImmediate(() => {
+          fake.emit('Debugger.resumed');
+          if (next) fake.emit('Debugger.paused', { reason: 'other', ...next });
+        });
+      });
+    }
+
+    beforeEach(() => {
+      fake.emit('Debugger.paused', { reason: 'other', callFrames: [frame(1)] });
+    });
+
+    it('should resolve to the pause that ends a step', async () => {
+      scriptSteps([{ callFrames: [frame(2)] }]);
+      const pause = await fake.session.stepAndWait('over');
+      expect(pause?.callFrames?.[0].location.lineNumber).toBe(2);
+    });
+
+    it('should resolve to null when the target runs past the timeout', async () => {
+      scriptSteps([null]);
+      expect(await fake.session.stepAndWait('over', { timeout: 20 })).toBeNull();
+      expect(fake.session.debugState.isPaused()).toBe(false);
+    });
+
+    it('should ignore pauses of other targets', async () => {
+      fake.handle('Debugger.continueToLocation', () => {
+        setImmediate(() => {
+          fake.session.emit('paused', { targetId: 'OTHER' });
+          fake.emit('Debugger.paused', { reason: 'other', callFrames: [frame(8)] });
+        });
+      });
+      const pause = await fake.session.continueToLocation({ scriptId: '1', lineNumber: 8 });
+      expect(pause?.callFrames?.[0].location.lineNumber).toBe(8);
+      expect(fake.sent.at(-1)?.params).toMatchObject({ targetCallFrames: 'any' });
+    });
+
+    it('should stop when the condition holds', async () => {
+      scriptSteps([{ callFrames: [frame(2)] }, { callFrames: [frame(3)] }, { callFrames: [frame(4)] }]);
+      fake.handle('Debugger.evaluateOnCallFrame', (params) => ({
+        result: { type: 'boolean', value: params?.callFrameId === 'frame-3' },
+      }));
+
+      const result = await fake.session.stepUntil({ expression: 'i === 3' });
+      expect(result).toMatchObject({ steps: 2, stopReason: 'condition' });
+      expect(fake.sent.find((c) => c.method === 'Debugger.evaluateOnCallFrame')?.params?.expression).toBe('!!(i === 3)');
+    });
+
+    it('should treat a failing condition as false', async () => {
+      scriptSteps([{ callFrames: [frame(2)] }, { callFrames: [frame(3)] }]);
+      fake.handle('Debugger.evaluateOnCallFrame', () => ({
+        result: { type: 'object' },
+        exceptionDetails: { text: 'ReferenceError: i is not defined' },
+      }));
+
+      const result = await fake.session.stepUntil({ expression: 'i === 3', maxSteps: 2 });
+      expect(result).toMatchObject({ steps: 2, stopReason: 'maxSteps' });
+      expect(result.pause?.callFrames?.[0].location.lineNumber).toBe(3);
+    });
+
+    it('should stop when the top frame moves to another script', async () => {
+      scriptSteps([{ callFrames: [frame(2)] }, { callFrames: [frame(0, 'http://example.com/lib.js')] }]);
+      const result = await fake.session.stepUntil({ untilUrlChange: true });
+      expect(result).toMatchObject({ steps: 2, stopReason: 'urlChanged' });
+    });
+
+    it('should stop on a breakpoint or an exception', async () => {
+      scriptSteps([{ callFrames: [frame(2)], hitBreakpoints: ['other-bp'] }]);
+      expect(await fake.session.stepUntil({ expression: 'false' })).toMatchObject({ steps: 1, stopReason: 'breakpoint' });
+
+      scriptSteps([{ callFrames: [frame(3)], reason: 'exception', data: { type: 'object', className: 'Error', description: 'Error: boom' } }]);
+      expect(await fake.session.stepUntil({ expression: 'false' })).toMatchObject({ steps: 1, stopReason: 'exception' });
+    });
+
+    it('should report when the target runs on', async () => {
+      scriptSteps([{ callFrames: [frame(2)] }, null]);
+      const result = await fake.session.stepUntil({ expression: 'false', timeout: 20 });
+      expect(result).toEqual({ steps: 2, stopReason: 'resumed', pause: null });
+    });
+
+    it('should refuse to start when not paused', async () => {
+      fake.emit('Debugger.resumed');
+      await expect(fake.session.stepUntil({ expression: 'x' })).rejects.toThrow('Not paused');
+    });
+  });
+
+  describe('source excerpts', () => {
+    it('should mark the line and number the context lines', async () => {
+      fake.handle('Debugger.getScriptSource', () => ({ scriptSource: 'a();\nb();\nc();\nd();' }));
+      const excerpt = await fake.session.getSourceExcerpt({ scriptId: '1', lineNumber: 1 }, undefined, 1);
+      expect(excerpt).toBe('  1 | a();\n> 2 | b();\n  3 | c();');
+    });
+
+    it('should clip long lines around the column', async () => {
+      const long = 'x'.repeat(500) + 'HERE' + 'y'.repeat(500);
+      fake.handle('Debugger.getScriptSource', () => ({ scriptSource: `${'z'.repeat(300)}\n${long}` }));
+      const excerpt = await fake.session.getSourceExcerpt({ scriptId: '1', lineNumber: 1, columnNumber: 500 }, undefined, 1);
+      const [before, current] = excerpt!.split('\n');
+
+      expect(before).toBe(`  1 | ${'z'.repeat(200)}…`);
+      expect(current.startsWith('> 2 | …')).toBe(true);
+      expect(current.endsWith('…')).toBe(true);
+      expect(current).toContain('HERE');
+      expect(current.length).toBe('> 2 | '.length + 200 + 2);
+    });
+
+    it('should return undefined when the source cannot be fetched', async () => {
+      fake.handle('Debugger.getScriptSource', () => {
+        throw new Error('No script for id: 1');
+      });
+      expect(await fake.session.getSourceExcerpt({ scriptId: '1', lineNumber: 0 })).toBeUndefined();
+    });
+  });
+
+  describe('script search', () => {
+    beforeEach(() => {
+      const sources: Record<string, string> = { a: 'fetch(1);\nfetch(2);', b: 'render();', c: 'fetch(3);' };
+      for (const id of Object.keys(sources)) {
+        fake.emit('Debugger.scriptParsed', {
+          scriptId: id, url: `http://example.com/${id}.js`, startLine: 0, startColumn: 0, endLine: 1, endColumn: 0,
+          executionContextId: 1, hash: id,
+        });
+      }
+      fake.handle('Debugger.searchInContent', (params) => ({
+        result: sources[params?.scriptId as string].includes(params?.query as string) ? [{ lineNumber: 0, lineContent: '' }] : [],
+      }));
+      fake.handle('Debugger.getScriptSource', (params) => ({ scriptSource: sources[params?.scriptId as string] }));
+    });
+
+    it('should not report truncation when exactly the limit matched', async () => {
+      const result = await fake.session.searchScripts('fetch', { maxMatches: 3 });
+      expect(result.matches).toHaveLength(3);
+      expect(result.truncated).toBe(false);
+    });
+
+    it('should report truncation when a match past the limit exists', async () => {
+      const within = await fake.session.searchScripts('fetch', { maxMatches: 1 });
+      expect(within.matches).toHaveLength(1);
+      expect(within.truncated).toBe(true);
+
+      const across = await fake.session.searchScripts('fetch', { maxMatches: 2 });
+      expect(across.matches.map((m) => m.scriptId)).toEqual(['a', 'a']);
+      expect(across.truncated).toBe(true);
+    });
+  });
+
+  describe('switching targets', () => {
+    beforeEach(() => {
+      vi.mocked(getTargets).mockResolvedValue([
+        { id: 'PAGE-2', type: 'page', title: 'Other', url: 'http://example.com/', webSocketDebuggerUrl: 'ws://localhost/page-2' },
+      ]);
+      vi.spyOn(fake.client, 'connect').mockResolvedValue();
+      vi.spyOn(fake.client, 'disconnect').mockImplementation(() => {});
+      (fake.session as unknown as { httpEndpoint: string }).httpEndpoint = 'http://localhost:9222';
+      fake.session.breakpointSets.save('checkout', [{ url: 'http://example.com/app.js', lineNumber: 10 }]);
+    });
+
+    it('should enable the debugger on the new target and re-apply auto-apply sets', async () => {
+      await fake.session.enableDebugger();
+      fake.sent.length = 0;
+
+      await fake.session.switchTarget('PAGE-2');
+      const methods = fake.methods();
+      expect(methods).toContain('Debugger.enable');
+      expect(methods.indexOf('Debugger.setBreakpointByUrl')).toBeGreaterThan(methods.indexOf('Debugger.enable'));
+      expect(fake.session.debugState.isEnabled()).toBe(true);
+      expect(fake.session.debugState.getAllBreakpoints()).toHaveLength(1);
+    });
+
+    it('should leave the debugger off when it was off', async () => {
+      await fake.session.switchTarget('PAGE-2');
+      expect(fake.methods()).not.toContain('Debugger.enable');
+      expect(fake.session.debugState.isEnabled()).toBe(false);
+      expect(fake.session.debugState.getAllBreakpoints()).toHaveLength(0);
+    });
+  });
+});
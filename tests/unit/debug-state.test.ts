@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { DebugState } from '../../src/state/DebugState.js';
+import { DebugState, parseHitCondition } from '../../src/state/DebugState.js';
 import type { CallFrame, Location } from '../../src/utils/types.js';
 
 describe('DebugState', () => {
@@ -81,6 +81,50 @@ describe('DebugState', () => {
     });
   });
 
+  describe('per-target pause state', () => {
+    const frame = (id: string, functionName: string): CallFrame => ({
+      callFrameId: id,
+      functionName,
+      location: { scriptId: 'script1', lineNumber: 1 },
+      url: 'test.js',
+      scopeChain: [],
+      this: { type: 'undefined' },
+    });
+
+    it('should track pauses per target independently', () => {
+      state.setPaused('breakpoint', [frame('f1', 'page')], undefined, undefined, undefined, 'PAGE');
+      state.setPaused('other', [frame('f2', 'worker')], undefined, undefined, undefined, 'WORKER');
+
+      expect(state.isPaused('PAGE')).toBe(true);
+      expect(state.isPaused('WORKER')).toBe(true);
+      expect(state.getTopCallFrame('PAGE')?.functionName).toBe('page');
+      expect(state.getTopCallFrame('WORKER')?.functionName).toBe('worker');
+      expect(state.getPausedTargets()).toHaveLength(2);
+    });
+
+    it('should default to the most recently paused target', () => {
+      state.setPaused('breakpoint', [frame('f1', 'page')], undefined, undefined, undefined, 'PAGE');
+      state.setPaused('other', [frame('f2', 'worker')], undefined, undefined, undefined, 'WORKER');
+
+      expect(state.getPauseState().targetId).toBe('WORKER');
+
+      state.setPaused('step', [frame('f3', 'page2')], undefined, undefined, undefined, 'PAGE');
+      expect(state.getPauseState().targetId).toBe('PAGE');
+      expect(state.getCallFrame(0)?.functionName).toBe('page2');
+    });
+
+    it('should resume only the named target', () => {
+      state.setPaused('breakpoint', [frame('f1', 'page')], undefined, undefined, undefined, 'PAGE');
+      state.setPaused('other', [frame('f2', 'worker')], undefined, undefined, undefined, 'WORKER');
+
+      state.setResumed('WORKER');
+
+      expect(state.isPaused('WORKER')).toBe(false);
+      expect(state.isPaused('PAGE')).toBe(true);
+      expect(state.getPauseState().targetId).toBe('PAGE');
+    });
+  });
+
   describe('breakpoint management', () => {
     it('should add breakpoints', () => {
       state.addBreakpoint({
@@ -163,6 +207,90 @@ describe('DebugState', () => {
     });
   });
 
+  describe('per-target breakpoints', () => {
+    it('should find a breakpoint by its CDP id on a target', () => {
+      state.addBreakpoint({
+        id: 'bp1',
+        url: 'worker.js',
+        lineNumber: 3,
+        locations: [],
+        enabled: true,
+        targetBreakpointIds: { PAGE: 'bp1', WORKER: 'bp1-worker' },
+      });
+
+      expect(state.findBreakpointForTarget('WORKER', 'bp1-worker')?.id).toBe('bp1');
+      expect(state.findBreakpointForTarget('PAGE', 'bp1')?.id).toBe('bp1');
+    });
+
+    it('should accumulate resolved locations across targets', () => {
+      state.addBreakpoint({
+        id: 'bp1',
+        url: 'shared.js',
+        lineNumber: 3,
+        locations: [{ scriptId: '5', lineNumber: 3, columnNumber: 0 }],
+        enabled: true,
+      });
+
+      state.addBreakpointLocation('bp1', { scriptId: '7', lineNumber: 3, columnNumber: 0 });
+      state.addBreakpointLocation('bp1', { scriptId: '7', lineNumber: 3, columnNumber: 0 });
+
+      expect(state.getBreakpoint('bp1')?.locations).toHaveLength(2);
+    });
+  });
+
+  describe('hit counts', () => {
+    beforeEach(() => {
+      state.addBreakpoint({
+        id: 'bp1',
+        url: 'app.js',
+        lineNumber: 3,
+        locations: [],
+        enabled: true,
+        targetBreakpointIds: { PAGE: 'bp1', WORKER: 'bp1-worker' },
+      });
+    });
+
+    it('should count hits across targets', () => {
+      expect(state.recordBreakpointHits(['bp1'], 'PAGE')).toBe(true);
+      expect(state.recordBreakpointHits(['bp1-worker'], 'WORKER')).toBe(true);
+      expect(state.getBreakpoint('bp1')?.hitCount).toBe(2);
+    });
+
+    it('should pause only on the Nth hit', () => {
+      state.setHitCondition('bp1', parseHitCondition('3'));
+      const results = [1, 2, 3, 4].map(() => state.recordBreakpointHits(['bp1'], 'PAGE'));
+      expect(results).toEqual([false, false, true, false]);
+    });
+
+    it('should pause on every Nth hit and after N hits', () => {
+      state.setHitCondition('bp1', parseHitCondition('%2'));
+      expect([1, 2, 3, 4].map(() => state.recordBreakpointHits(['bp1'], 'PAGE'))).toEqual([false, true, false, true]);
+
+      state.resetHitCount('bp1');
+      state.setHitCondition('bp1', parseHitCondition('>2'));
+      expect([1, 2, 3].map(() => state.recordBreakpointHits(['bp1'], 'PAGE'))).toEqual([false, false, true]);
+    });
+
+    it('should not pause or count disabled breakpoints', () => {
+      state.setBreakpointEnabled('bp1', false);
+      expect(state.recordBreakpointHits(['bp1'], 'PAGE')).toBe(false);
+      expect(state.getBreakpoint('bp1')?.hitCount).toBe(0);
+    });
+
+    it('should pause for unknown breakpoints and plain pauses', () => {
+      state.setBreakpointEnabled('bp1', false);
+      expect(state.recordBreakpointHits(['bp1', 'other'], 'PAGE')).toBe(true);
+      expect(state.recordBreakpointHits([], 'PAGE')).toBe(true);
+    });
+
+    it('should parse and reject hit conditions', () => {
+      expect(parseHitCondition('>= 10')).toEqual({ op: '>=', count: 10 });
+      expect(parseHitCondition('==5')).toEqual({ op: '==', count: 5 });
+      expect(() => parseHitCondition('%0')).toThrow();
+      expect(() => parseHitCondition('often')).toThrow(/Invalid hit condition/);
+    });
+  });
+
   describe('exception handling', () => {
     it('should set and get pause on exceptions state', () => {
       expect(state.getPauseOnExceptions()).toBe('none');
@@ -173,6 +301,45 @@ describe('DebugState', () => {
       state.setPauseOnExceptions('uncaught');
       expect(state.getPauseOnExceptions()).toBe('uncaught');
     });
+
+    it('should pause on every exception without filters', () => {
+      expect(state.shouldPauseOnException({ message: 'boom', uncaught: false })).toBe(true);
+    });
+
+    it('should pause only on exceptions matching a filter', () => {
+      state.setExceptionFilters([
+        { classPattern: '^TypeError$', urlPattern: '*/app.js' },
+        { messagePattern: 'checkout', caught: 'uncaught' },
+      ]);
+
+      expect(state.shouldPauseOnException({
+        className: 'TypeError', message: 'TypeError: x is undefined', url: 'https://example.com/app.js', uncaught: false,
+      })).toBe(true);
+      expect(state.shouldPauseOnException({
+        className: 'TypeError', message: 'TypeError: x is undefined', url: 'https://example.com/vendor.js', uncaught: false,
+      })).toBe(false);
+      expect(state.shouldPauseOnException({ className: 'Error', message: 'Error: checkout failed', uncaught: true })).toBe(true);
+      expect(state.shouldPauseOnException({ className: 'Error', message: 'Error: checkout failed', uncaught: false })).toBe(false);
+    });
+
+    it('should reject filters with invalid patterns', () => {
+      expect(() => state.setExceptionFilters([{ classPattern: '(' }])).toThrow();
+      expect(state.getExceptionFilters()).toEqual([]);
+    });
+
+    it('should keep a bounded exception history, newest first', () => {
+      state.setMaxExceptionHistory(2);
+      for (const message of ['a', 'b', 'c']) {
+        state.recordException({ message, uncaught: false, reason: 'exception', paused: true, frames: [] });
+      }
+
+      expect(state.getExceptionHistory().map((e) => e.message)).toEqual(['c', 'b']);
+      expect(state.getLastException()?.message).toBe('c');
+      expect(state.getExceptionHistory(1)).toHaveLength(1);
+
+      state.clearExceptionHistory();
+      expect(state.getLastException()).toBeNull();
+    });
   });
 
   describe('enable state', () => {
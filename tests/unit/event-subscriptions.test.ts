@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventSubscriptions } from '../../src/state/EventSubscriptions.js';
+
+describe('EventSubscriptions', () => {
+  let subscriptions: EventSubscriptions;
+
+  beforeEach(() => {
+    subscriptions = new EventSubscriptions();
+  });
+
+  describe('defaults', () => {
+    it('should subscribe to pause, exception and console by default', () => {
+      expect(subscriptions.isSubscribed('pause')).toBe(true);
+      expect(subscriptions.isSubscribed('exception')).toBe(true);
+      expect(subscriptions.isSubscribed('console')).toBe(true);
+    });
+
+    it('should not subscribe to noisy events by default', () => {
+      expect(subscriptions.isSubscribed('scriptParsed')).toBe(false);
+      expect(subscriptions.isSubscribed('requestFailed')).toBe(false);
+    });
+
+    it('should deliver via logging', () => {
+      expect(subscriptions.getDelivery()).toBe('logging');
+    });
+  });
+
+  describe('subscribe / unsubscribe', () => {
+    it('should add event kinds', () => {
+      subscriptions.subscribe(['scriptParsed']);
+      expect(subscriptions.isSubscribed('scriptParsed')).toBe(true);
+      expect(subscriptions.isSubscribed('pause')).toBe(true);
+    });
+
+    it('should remove event kinds', () => {
+      subscriptions.unsubscribe(['pause', 'console']);
+      expect(subscriptions.isSubscribed('pause')).toBe(false);
+      expect(subscriptions.isSubscribed('console')).toBe(false);
+      expect(subscriptions.isSubscribed('exception')).toBe(true);
+    });
+
+    it('should update delivery and console level', () => {
+      subscriptions.subscribe([], { delivery: 'both', consoleLevel: 'warning' });
+      expect(subscriptions.getDelivery()).toBe('both');
+      expect(subscriptions.getConsoleLevel()).toBe('warning');
+    });
+
+    it('should list subscribed kinds in canonical order', () => {
+      subscriptions.unsubscribe(subscriptions.getSubscribed());
+      subscriptions.subscribe(['scriptParsed', 'pause']);
+      expect(subscriptions.getSubscribed()).toEqual(['pause', 'scriptParsed']);
+    });
+  });
+
+  describe('console filtering', () => {
+    it('should forward messages at or above the threshold', () => {
+      subscriptions.subscribe([], { consoleLevel: 'warning' });
+      expect(subscriptions.shouldForwardConsole('error')).toBe(true);
+      expect(subscriptions.shouldForwardConsole('warning')).toBe(true);
+      expect(subscriptions.shouldForwardConsole('info')).toBe(false);
+    });
+
+    it('should not forward console messages when unsubscribed', () => {
+      subscriptions.unsubscribe(['console']);
+      expect(subscriptions.shouldForwardConsole('error')).toBe(false);
+    });
+  });
+
+  it('should restore defaults on reset', () => {
+    subscriptions.subscribe(['scriptParsed'], { delivery: 'notification', consoleLevel: 'debug' });
+    subscriptions.reset();
+    expect(subscriptions.toJSON()).toEqual({
+      subscribed: ['pause', 'resume', 'exception', 'console', 'logpoint', 'requestPaused', 'authRequired', 'dialog', 'targetAttached'],
+      consoleLevel: 'error',
+      delivery: 'logging',
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { exceptionFingerprint, exceptionMessage, exceptionTopFrames } from '../../src/utils/exception-fingerprint.js';
+import type { ExceptionDetails } from '../../src/utils/types.js';
+
+function details(description: string, frames: Array<[string, number]> = []): ExceptionDetails {
+  return {
+    exceptionId: 1,
+    text: 'Uncaught',
+    lineNumber: 9,
+    columnNumber: 4,
+    url: 'https://app.test/main.js',
+    exception: { type: 'object', subtype: 'error', className: 'TypeError', description },
+    stackTrace: frames.length
+      ? { callFrames: frames.map(([fn, line]) => ({ functionName: fn, scriptId: '1', url: 'https://app.test/main.js', lineNumber: line, columnNumber: 0 })) }
+      : undefined,
+  };
+}
+
+describe('exception fingerprints', () => {
+  it('should use the first line of the description as the message', () => {
+    expect(exceptionMessage(details('TypeError: x is undefined\n    at render (main.js:10:5)'))).toBe('TypeError: x is undefined');
+    expect(exceptionMessage({ exceptionId: 1, text: 'Uncaught SyntaxError', lineNumber: 0, columnNumber: 0 })).toBe('Uncaught SyntaxError');
+  });
+
+  it('should describe the top frames or the throw site', () => {
+    expect(exceptionTopFrames(details('E', [['render', 9], ['', 20], ['loop', 30], ['main', 40]]))).toEqual([
+      'render (https://app.test/main.js:10:1)',
+      '(anonymous) (https://app.test/main.js:21:1)',
+      'loop (https://app.test/main.js:31:1)',
+    ]);
+    expect(exceptionTopFrames(details('E'))).toEqual(['https://app.test/main.js:10:5']);
+  });
+
+  it('should group messages differing only in numbers', () => {
+    const a = exceptionFingerprint(details('Error: item 17 missing', [['render', 9]]));
+    const b = exceptionFingerprint(details('Error: item 42 missing', [['render', 9]]));
+    const c = exceptionFingerprint(details('Error: item 42 missing', [['update', 50]]));
+    expect(a).toBe(b);
+    expect(c).not.toBe(a);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExecutionContextRegistry } from '../../src/state/ExecutionContextRegistry.js';
+
+describe('ExecutionContextRegistry', () => {
+  let registry: ExecutionContextRegistry;
+
+  beforeEach(() => {
+    registry = new ExecutionContextRegistry();
+    registry.add({ id: 1, origin: 'https://app.test', name: '', auxData: { frameId: 'PAGE', isDefault: true, type: 'default' } }, 'PAGE');
+    registry.add({ id: 2, origin: 'https://ads.test', name: '', auxData: { frameId: 'IFRAME', isDefault: true, type: 'default' } }, 'PAGE');
+    registry.add({ id: 3, origin: 'https://app.test', name: 'probe', auxData: { frameId: 'PAGE', isDefault: false, type: 'isolated' } }, 'PAGE');
+    registry.add({ id: 4, origin: 'https://ads.test', name: 'probe', auxData: { frameId: 'IFRAME', isDefault: false, type: 'isolated' } }, 'PAGE');
+    registry.add({ id: 1, origin: 'https://app.test', name: '' }, 'WORKER');
+  });
+
+  it('should keep context ids per target', () => {
+    expect(registry.getCount()).toBe(5);
+    expect(registry.getAll('WORKER').map((c) => c.id)).toEqual([1]);
+
+    registry.remove(1, 'WORKER');
+    expect(registry.getAll('WORKER')).toEqual([]);
+    expect(registry.getAll('PAGE')).toHaveLength(4);
+  });
+
+  it('should resolve frames and worlds', () => {
+    expect(registry.resolve({ frameId: 'IFRAME', targetId: 'PAGE' }).id).toBe(2);
+    expect(registry.resolve({ worldName: 'probe', targetId: 'PAGE' }).id).toBe(3);
+    expect(registry.resolve({ frameId: 'IFRAME', worldName: 'probe', targetId: 'PAGE' }).id).toBe(4);
+    expect(registry.resolve({ contextId: 1, targetId: 'WORKER' }).origin).toBe('https://app.test');
+  });
+
+  it('should throw when nothing matches', () => {
+    expect(() => registry.resolve({ contextId: 9, targetId: 'PAGE' })).toThrow('Execution context 9 not found');
+    expect(() => registry.resolve({ worldName: 'missing', targetId: 'PAGE' })).toThrow('world "missing"');
+  });
+
+  it('should drop a target\'s contexts when they are cleared', () => {
+    registry.removeTarget('PAGE');
+    expect(registry.getAll().map((c) => c.targetId)).toEqual(['WORKER']);
+  });
+});
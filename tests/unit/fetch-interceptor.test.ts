@@ -186,6 +186,25 @@ describe('FetchInterceptor', () => {
       expect(paused.matchedRule?.pattern).toBe('*/api/*');
     });
 
+    it('should count rule hits', () => {
+      const apiRule = interceptor.addRule({ pattern: '*/api/*', action: 'mock', mockResponse: { status: 200, body: '' }, enabled: true });
+      const jsRule = interceptor.addRule({ pattern: '*.js', action: 'fail', enabled: true });
+
+      const pause = (requestId: string, url: string) => interceptor.onRequestPaused({
+        requestId,
+        request: { url, method: 'GET', headers: {}, initialPriority: 'High', referrerPolicy: 'no-referrer' },
+        frameId: 'frame1',
+        resourceType: 'XHR',
+      });
+
+      pause('req1', 'http://example.com/api/a');
+      pause('req2', 'http://example.com/api/b');
+      pause('req3', 'http://example.com/page.html');
+
+      expect(interceptor.getRule(apiRule)?.hitCount).toBe(2);
+      expect(interceptor.getRule(jsRule)?.hitCount).toBe(0);
+    });
+
     it('should get paused request by ID', () => {
       const event: FetchRequestPaused = {
         requestId: 'req1',
@@ -227,6 +246,103 @@ describe('FetchInterceptor', () => {
     });
   });
 
+  describe('per-target paused requests', () => {
+    const event = (requestId: string): FetchRequestPaused => ({
+      requestId,
+      request: {
+        url: 'http://example.com/api/data',
+        method: 'GET',
+        headers: {},
+        initialPriority: 'High',
+        referrerPolicy: 'no-referrer',
+      },
+      frameId: 'frame1',
+      resourceType: 'Fetch',
+    });
+
+    it('should keep colliding requestIds from different targets apart', () => {
+      interceptor.onRequestPaused(event('job-1'), 'PAGE');
+      interceptor.onRequestPaused(event('job-1'), 'WORKER');
+
+      expect(interceptor.getAllPausedRequests()).toHaveLength(2);
+      expect(interceptor.getPausedRequest('job-1', 'WORKER')?.targetId).toBe('WORKER');
+      expect(interceptor.getAllPausedRequests('PAGE')).toHaveLength(1);
+    });
+
+    it('should fall back to any target when targetId is omitted', () => {
+      interceptor.onRequestPaused(event('job-2'), 'WORKER');
+
+      expect(interceptor.getPausedRequest('job-2')?.targetId).toBe('WORKER');
+      interceptor.removePausedRequest('job-2');
+      expect(interceptor.getAllPausedRequests()).toHaveLength(0);
+    });
+
+    it('should drop requests of a detached target', () => {
+      interceptor.onRequestPaused(event('job-1'), 'PAGE');
+      interceptor.onRequestPaused(event('job-2'), 'WORKER');
+
+      interceptor.removeTarget('WORKER');
+      expect(interceptor.getAllPausedRequests().map((r) => r.targetId)).toEqual(['PAGE']);
+    });
+  });
+
+  describe('auth challenges', () => {
+    const authEvent = (requestId: string, origin: string, realm = 'Restricted', source: 'Server' | 'Proxy' = 'Server') => ({
+      requestId,
+      request: {
+        url: `${origin}/private`,
+        method: 'GET',
+        headers: {},
+        initialPriority: 'High',
+        referrerPolicy: 'no-referrer',
+      },
+      frameId: 'frame1',
+      resourceType: 'Document' as const,
+      authChallenge: { source, origin, scheme: 'basic', realm },
+    });
+
+    it('should match credentials by origin, realm and source', () => {
+      interceptor.addCredential({ origin: 'https://*.example.com', realm: 'Admin*', username: 'admin', password: 'a' });
+      interceptor.addCredential({ origin: 'https://intranet.corp', source: 'Proxy', username: 'proxy', password: 'p' });
+
+      expect(interceptor.findCredential({ origin: 'https://app.example.com', scheme: 'basic', realm: 'Admin area' })?.username).toBe('admin');
+      expect(interceptor.findCredential({ origin: 'https://app.example.com', scheme: 'basic', realm: 'Other' })).toBeUndefined();
+      expect(interceptor.findCredential({ source: 'Server', origin: 'https://intranet.corp', scheme: 'basic', realm: 'x' })).toBeUndefined();
+      expect(interceptor.findCredential({ source: 'Proxy', origin: 'https://intranet.corp', scheme: 'basic', realm: 'x' })?.username).toBe('proxy');
+    });
+
+    it('should hand out stored credentials only once per request', () => {
+      interceptor.addCredential({ origin: 'https://example.com', username: 'u', password: 'p' });
+
+      const first = interceptor.onAuthRequired(authEvent('job-1', 'https://example.com'), 'PAGE');
+      expect(interceptor.takeCredentialFor(first)?.username).toBe('u');
+      interceptor.removeAuthChallenge('job-1', 'PAGE');
+
+      // Same request challenged again: the credentials were rejected.
+      const second = interceptor.onAuthRequired(authEvent('job-1', 'https://example.com'), 'PAGE');
+      expect(second.credentialsRejected).toBe(true);
+      expect(interceptor.takeCredentialFor(second)).toBeUndefined();
+      expect(interceptor.getAllAuthChallenges()).toHaveLength(1);
+    });
+
+    it('should track pending challenges per target', () => {
+      interceptor.onAuthRequired(authEvent('job-1', 'https://a.com'), 'PAGE');
+      interceptor.onAuthRequired(authEvent('job-2', 'https://b.com'), 'WORKER');
+
+      expect(interceptor.getAuthChallenge('job-2')?.targetId).toBe('WORKER');
+      expect(interceptor.getAllAuthChallenges('PAGE').map((c) => c.requestId)).toEqual(['job-1']);
+
+      interceptor.removeTarget('WORKER');
+      expect(interceptor.getAllAuthChallenges()).toHaveLength(1);
+    });
+
+    it('should remove credentials', () => {
+      const id = interceptor.addCredential({ origin: '*', username: 'u', password: 'p' });
+      expect(interceptor.removeCredential(id)).toBe(true);
+      expect(interceptor.getAllCredentials()).toHaveLength(0);
+    });
+  });
+
   describe('CDP pattern generation', () => {
     it('should generate CDP patterns from rules', () => {
       interceptor.addRule({ pattern: '*/api/*', action: 'pause', enabled: true });
@@ -250,6 +366,119 @@ describe('FetchInterceptor', () => {
       const patterns = interceptor.getCDPPatterns();
       expect(patterns).toHaveLength(0);
     });
+
+    it('should emit one pattern per stage', () => {
+      interceptor.addRule({ pattern: '*/api/*', action: 'pause', enabled: true });
+      interceptor.addRule({ pattern: '*/api/*', stage: 'Response', action: 'modify', enabled: true });
+
+      expect(interceptor.getCDPPatterns().map((p) => p.requestStage)).toEqual(['Request', 'Response']);
+    });
+  });
+
+  describe('response stage', () => {
+    const responseEvent: FetchRequestPaused = {
+      requestId: 'req1',
+      request: {
+        url: 'http://example.com/api/data',
+        method: 'GET',
+        headers: {},
+        initialPriority: 'High',
+        referrerPolicy: 'no-referrer',
+      },
+      frameId: 'frame1',
+      resourceType: 'XHR',
+      responseStatusCode: 200,
+      responseStatusText: 'OK',
+      responseHeaders: [{ name: 'Content-Type', value: 'application/json' }],
+    };
+
+    it('should detect the response stage and match only response rules', () => {
+      interceptor.addRule({ pattern: '*/api/*', action: 'pause', enabled: true });
+      const id = interceptor.addRule({ pattern: '*/api/*', stage: 'Response', action: 'modify', enabled: true });
+
+      const paused = interceptor.onRequestPaused(responseEvent);
+      expect(paused.stage).toBe('Response');
+      expect(paused.responseStatusCode).toBe(200);
+      expect(paused.matchedRule?.id).toBe(id);
+    });
+
+    it('should default to the request stage', () => {
+      interceptor.addRule({ pattern: '*/api/*', stage: 'Response', action: 'modify', enabled: true });
+
+      const { responseStatusCode: _s, responseStatusText: _t, responseHeaders: _h, ...requestEvent } = responseEvent;
+      const paused = interceptor.onRequestPaused(requestEvent);
+      expect(paused.stage).toBe('Request');
+      expect(paused.matchedRule).toBeUndefined();
+    });
+
+    it('should edit response headers', () => {
+      const headers = interceptor.buildEditedResponseHeaders(
+        [
+          { name: 'Content-Type', value: 'application/json' },
+          { name: 'Content-Length', value: '42' },
+          { name: 'Content-Encoding', value: 'gzip' },
+          { name: 'X-Old', value: '1' },
+          { name: 'Cache-Control', value: 'no-cache' },
+        ],
+        { setHeaders: { 'cache-control': 'max-age=60' }, removeHeaders: ['x-old'] }
+      );
+
+      expect(headers).toEqual([
+        { name: 'Content-Type', value: 'application/json' },
+        { name: 'cache-control', value: 'max-age=60' },
+      ]);
+    });
+
+    it('should split joined mock headers into separate entries', () => {
+      const headers = interceptor.buildMockResponseHeaders({
+        'Content-Type': 'text/html',
+        'Set-Cookie': 'a=1; Path=/\nb=2; Path=/',
+      });
+
+      expect(headers).toEqual([
+        { name: 'Content-Type', value: 'text/html' },
+        { name: 'Set-Cookie', value: 'a=1; Path=/' },
+        { name: 'Set-Cookie', value: 'b=2; Path=/' },
+      ]);
+      expect(headers.every((h) => !h.value.includes('\n'))).toBe(true);
+    });
+
+    it('should decode UTF-8 bodies for editing and refuse others', () => {
+      const json = [{ name: 'Content-Type', value: 'application/json; charset=utf-8' }];
+      expect(interceptor.decodeTextBody(Buffer.from('{"name":"café"}').toString('base64'), true, json)).toBe('{"name":"café"}');
+      expect(interceptor.decodeTextBody('plain', false, [])).toBe('plain');
+
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0xff, 0xfe]).toString('base64');
+      expect(() => interceptor.decodeTextBody(png, true, [{ name: 'content-type', value: 'image/png' }])).toThrow('binary');
+      const latin1 = [{ name: 'Content-Type', value: 'text/html; charset=ISO-8859-1' }];
+      expect(() => interceptor.decodeTextBody(Buffer.from('abc').toString('base64'), true, latin1)).toThrow('iso-8859-1');
+    });
+
+    it('should apply string and regex replacements', () => {
+      const body = interceptor.rewriteResponseBody('price: 10, price: 20', {
+        replacements: [
+          { search: 'price', replace: 'cost' },
+          { search: '(\\d+)', replace: '$1.00', regex: true },
+        ],
+      });
+      expect(body).toBe('cost: 10.00, cost: 20.00');
+    });
+
+    it('should apply a JSON patch after replacements', () => {
+      const body = interceptor.rewriteResponseBody('{"items":[{"price":10}],"total":10}', {
+        replacements: [{ search: '"total"', replace: '"sum"' }],
+        jsonPatch: [
+          { op: 'replace', path: '/items/0/price', value: null },
+          { op: 'add', path: '/items/-', value: { price: -1 } },
+        ],
+      });
+      expect(JSON.parse(body)).toEqual({ items: [{ price: null }, { price: -1 }], sum: 10 });
+    });
+
+    it('should reject JSON patches on non-JSON bodies', () => {
+      expect(() => interceptor.rewriteResponseBody('<html>', { jsonPatch: [{ op: 'remove', path: '/a' }] }))
+        .toThrow('not valid JSON');
+    });
   });
 
   describe('header helpers', () => {
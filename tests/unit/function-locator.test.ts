@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { findFunctionDefinitions } from '../../src/utils/function-locator.js';
+
+describe('findFunctionDefinitions', () => {
+  it('should find a function declaration and its first statement', () => {
+    const source = [
+      'const x = 1;',
+      'async function submitOrder(order, { retries = 3 } = {}) {',
+      '  // validate first',
+      '  validate(order);',
+      '}',
+    ].join('\n');
+
+    expect(findFunctionDefinitions(source, 'submitOrder')).toEqual([
+      { kind: 'declaration', lineNumber: 1, columnNumber: 15, bodyLineNumber: 3, bodyColumnNumber: 2 },
+    ]);
+  });
+
+  it('should find function and arrow expressions assigned to names', () => {
+    const source = [
+      'app.submitOrder = function (order) { send(order); };',
+      'const cancelOrder = async (id) => {',
+      '  await api.cancel(id);',
+      '};',
+      'const total = items => items.length;',
+    ].join('\n');
+
+    expect(findFunctionDefinitions(source, 'submitOrder')[0]).toMatchObject({
+      kind: 'expression', lineNumber: 0, bodyLineNumber: 0, bodyColumnNumber: 37,
+    });
+    expect(findFunctionDefinitions(source, 'cancelOrder')[0]).toMatchObject({
+      kind: 'arrow', lineNumber: 1, bodyLineNumber: 2, bodyColumnNumber: 2,
+    });
+    expect(findFunctionDefinitions(source, 'total')[0]).toMatchObject({
+      kind: 'arrow', lineNumber: 4, bodyLineNumber: 4, bodyColumnNumber: 23,
+    });
+  });
+
+  it('should find class and object methods', () => {
+    const source = [
+      'class Cart {',
+      '  async checkout(user) {',
+      '    this.lock();',
+      '  }',
+      '}',
+      'const handlers = {',
+      '  checkout: (e) => handle(e),',
+      '};',
+    ].join('\n');
+
+    const defs = findFunctionDefinitions(source, 'checkout');
+    expect(defs.map((d) => [d.kind, d.lineNumber, d.bodyLineNumber])).toEqual([
+      ['method', 1, 2],
+      ['arrow', 6, 6],
+    ]);
+  });
+
+  it('should ignore calls and longer identifiers', () => {
+    const source = [
+      'submitOrder(order);',
+      'function submitOrderLater() {}',
+      'const resubmitOrder = () => {};',
+    ].join('\n');
+
+    expect(findFunctionDefinitions(source, 'submitOrder')).toEqual([]);
+  });
+
+  it('should escape regex characters in names', () => {
+    expect(findFunctionDefinitions('const $init = () => { go(); };', '$init')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { NetworkState } from '../../src/state/NetworkState.js';
+import { buildHar, parseHar, harToInterceptRules, type Har } from '../../src/utils/har.js';
+
+const T = 'TARGET-A';
+const creator = { name: 'test', version: '1.0' };
+
+describe('HAR', () => {
+  let state: NetworkState;
+
+  beforeEach(() => {
+    state = new NetworkState();
+    state.setEnabled(true);
+  });
+
+  const addRequest = (requestId: string, url: string, options: { status?: number; body?: string; base64?: boolean; failed?: boolean } = {}) => {
+    state.onRequestWillBeSent({
+      requestId,
+      targetId: T,
+      loaderId: 'loader1',
+      documentURL: 'http://example.com',
+      request: {
+        url,
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        postData: '{"a":1}',
+        initialPriority: 'High',
+        referrerPolicy: 'no-referrer',
+      },
+      timestamp: 100,
+      wallTime: 1700000000,
+      type: 'Fetch',
+    });
+    if (options.failed) {
+      state.onLoadingFailed({ requestId, targetId: T, timestamp: 100.5, errorText: 'net::ERR_FAILED' });
+      return;
+    }
+    state.onResponseReceived({
+      requestId,
+      targetId: T,
+      timestamp: 100.2,
+      type: 'Fetch',
+      response: {
+        url,
+        status: options.status ?? 200,
+        statusText: 'OK',
+        headers: { 'Content-Type': 'application/json', 'Content-Encoding': 'gzip', 'Set-Cookie': 'a=1\nb=2' },
+        mimeType: 'application/json',
+        connectionReused: false,
+        connectionId: 1,
+        encodedDataLength: 50,
+        protocol: 'http/1.1',
+        securityState: 'secure',
+      },
+    });
+    state.onLoadingFinished({ requestId, targetId: T, timestamp: 100.5, encodedDataLength: 120 });
+    if (options.body !== undefined) {
+      state.setResponseBody(requestId, options.body, options.base64 ?? false, T);
+    }
+  };
+
+  describe('buildHar', () => {
+    it('should produce a HAR 1.2 log', () => {
+      addRequest('r1', 'http://example.com/api?x=1&y=2', { body: '{"ok":true}' });
+      const har = buildHar(state.getAllRequests(), creator);
+
+      expect(har.log.version).toBe('1.2');
+      expect(har.log.creator).toEqual(creator);
+      expect(har.log.entries).toHaveLength(1);
+
+      const entry = har.log.entries[0];
+      expect(entry.startedDateTime).toBe(new Date(1700000000 * 1000).toISOString());
+      expect(entry.time).toBeCloseTo(500);
+      expect(entry.request.method).toBe('POST');
+      expect(entry.request.queryString).toEqual([{ name: 'x', value: '1' }, { name: 'y', value: '2' }]);
+      expect(entry.request.postData).toEqual({ mimeType: 'application/json', text: '{"a":1}' });
+      expect(entry.response.status).toBe(200);
+      expect(entry.response.httpVersion).toBe('http/1.1');
+      expect(entry.response.content).toEqual({ size: 11, mimeType: 'application/json', text: '{"ok":true}' });
+      expect(entry.response.bodySize).toBe(120);
+      expect(entry._targetId).toBe(T);
+    });
+
+    it('should split repeated headers', () => {
+      addRequest('r1', 'http://example.com/a');
+      const headers = buildHar(state.getAllRequests(), creator).log.entries[0].response.headers;
+      expect(headers.filter((h) => h.name === 'Set-Cookie').map((h) => h.value)).toEqual(['a=1', 'b=2']);
+    });
+
+    it('should mark base64 bodies and failed requests', () => {
+      addRequest('r1', 'http://example.com/img.png', { body: 'iVBORw0K', base64: true });
+      addRequest('r2', 'http://example.com/broken', { failed: true });
+      const [img, broken] = buildHar(state.getAllRequests(), creator).log.entries;
+
+      expect(img.response.content.encoding).toBe('base64');
+      expect(img.response.content.size).toBe(6);
+      expect(broken.response.status).toBe(0);
+      expect(broken._error).toBe('net::ERR_FAILED');
+    });
+  });
+
+  describe('harToInterceptRules', () => {
+    it('should create one mock rule per URL', () => {
+      addRequest('r1', 'http://example.com/api', { body: 'first' });
+      addRequest('r2', 'http://example.com/api', { body: 'second' });
+      addRequest('r3', 'http://example.com/other', { status: 404, body: 'missing' });
+
+      const rules = harToInterceptRules(buildHar(state.getAllRequests(), creator));
+      expect(rules).toHaveLength(2);
+      expect(rules[0]).toMatchObject({
+        pattern: 'http://example.com/api',
+        action: 'mock',
+        enabled: true,
+        mockResponse: { status: 200, body: 'first', base64Encoded: false },
+      });
+      expect(rules[1].mockResponse?.status).toBe(404);
+    });
+
+    it('should drop encoding headers and join repeated ones', () => {
+      addRequest('r1', 'http://example.com/api', { body: 'x' });
+      const [rule] = harToInterceptRules(buildHar(state.getAllRequests(), creator));
+      expect(rule.mockResponse?.headers).toEqual({ 'Content-Type': 'application/json', 'Set-Cookie': 'a=1\nb=2' });
+    });
+
+    it('should skip failed entries and apply the filter', () => {
+      addRequest('r1', 'http://example.com/broken', { failed: true });
+      addRequest('r2', 'http://example.com/api', { body: 'x' });
+      addRequest('r3', 'http://cdn.example.com/lib.js', { body: 'y' });
+
+      const har = buildHar(state.getAllRequests(), creator);
+      expect(harToInterceptRules(har)).toHaveLength(2);
+      expect(harToInterceptRules(har, (url) => url.includes('cdn')).map((r) => r.pattern)).toEqual(['http://cdn.example.com/lib.js']);
+    });
+  });
+
+  describe('parseHar', () => {
+    it('should round-trip through JSON', () => {
+      addRequest('r1', 'http://example.com/api', { body: 'x' });
+      const har = buildHar(state.getAllRequests(), creator);
+      expect(parseHar(JSON.stringify(har))).toEqual(JSON.parse(JSON.stringify(har)) as Har);
+    });
+
+    it('should reject documents without entries', () => {
+      expect(() => parseHar('{"log":{}}')).toThrow('missing log.entries');
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { IgnoreList } from '../../src/state/IgnoreList.js';
+
+describe('IgnoreList', () => {
+  let list: IgnoreList;
+
+  beforeEach(() => {
+    list = new IgnoreList();
+  });
+
+  it('should start empty', () => {
+    expect(list.isEmpty()).toBe(true);
+    expect(list.getCdpPatterns()).toEqual([]);
+  });
+
+  it('should add patterns once and remove them', () => {
+    expect(list.add(['*/node_modules/*', '*/node_modules/*', '*zone.js'])).toEqual(['*/node_modules/*', '*zone.js']);
+    expect(list.remove(['*zone.js', 'missing'])).toEqual(['*zone.js']);
+    expect(list.getPatterns()).toEqual(['*/node_modules/*']);
+  });
+
+  it('should convert globs to anchored regexes and keep /regex/ patterns', () => {
+    list.add(['https://cdn.example.com/*.js', '/react-dom(\\.production)?\\.min\\.js$/']);
+    expect(list.getCdpPatterns()).toEqual([
+      '^https://cdn\\.example\\.com/.*\\.js$',
+      'react-dom(\\.production)?\\.min\\.js$',
+    ]);
+  });
+
+  it('should match script URLs', () => {
+    list.add(['*/node_modules/*', '/polyfills/']);
+    expect(list.matches('http://localhost:3000/node_modules/react/index.js')).toBe(true);
+    expect(list.matches('http://localhost:3000/polyfills.js')).toBe(true);
+    expect(list.matches('http://localhost:3000/src/App.js')).toBe(false);
+    expect(list.matches('')).toBe(false);
+  });
+
+  it('should reject invalid regexes', () => {
+    expect(() => list.add(['/(unclosed/'])).toThrow();
+    expect(list.getPatterns()).toEqual([]);
+  });
+
+  it('should track source-map ignoring', () => {
+    list.setUseSourceMaps(true);
+    expect(list.usesSourceMaps()).toBe(true);
+    expect(list.isEmpty()).toBe(false);
+  });
+});
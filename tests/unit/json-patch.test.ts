@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { applyJsonPatch } from '../../src/utils/json-patch.js';
+
+describe('applyJsonPatch', () => {
+  const doc = { a: { b: 1, c: [1, 2, 3] }, 'x/y': 'slash', 'm~n': 'tilde' };
+
+  it('should not mutate the input document', () => {
+    applyJsonPatch(doc, [{ op: 'remove', path: '/a/b' }]);
+    expect(doc.a.b).toBe(1);
+  });
+
+  it('should add object members and array elements', () => {
+    const result = applyJsonPatch(doc, [
+      { op: 'add', path: '/a/d', value: 'new' },
+      { op: 'add', path: '/a/c/1', value: 9 },
+      { op: 'add', path: '/a/c/-', value: 4 },
+    ]) as typeof doc & { a: { d: string } };
+    expect(result.a.d).toBe('new');
+    expect(result.a.c).toEqual([1, 9, 2, 3, 4]);
+  });
+
+  it('should remove and replace', () => {
+    const result = applyJsonPatch(doc, [
+      { op: 'remove', path: '/a/c/0' },
+      { op: 'replace', path: '/a/b', value: { deep: true } },
+    ]);
+    expect(result).toMatchObject({ a: { b: { deep: true }, c: [2, 3] } });
+  });
+
+  it('should replace the whole document', () => {
+    expect(applyJsonPatch(doc, [{ op: 'replace', path: '', value: [1] }])).toEqual([1]);
+  });
+
+  it('should move and copy', () => {
+    const result = applyJsonPatch(doc, [
+      { op: 'copy', from: '/a/b', path: '/copied' },
+      { op: 'move', from: '/a/c', path: '/moved' },
+    ]) as Record<string, unknown>;
+    expect(result.copied).toBe(1);
+    expect(result.moved).toEqual([1, 2, 3]);
+    expect((result.a as Record<string, unknown>).c).toBeUndefined();
+  });
+
+  it('should unescape ~0 and ~1 in pointers', () => {
+    const result = applyJsonPatch(doc, [
+      { op: 'replace', path: '/x~1y', value: 'S' },
+      { op: 'replace', path: '/m~0n', value: 'T' },
+    ]);
+    expect(result).toMatchObject({ 'x/y': 'S', 'm~n': 'T' });
+  });
+
+  it('should fail on test mismatches and missing paths', () => {
+    expect(() => applyJsonPatch(doc, [{ op: 'test', path: '/a/b', value: 2 }])).toThrow('test failed');
+    expect(applyJsonPatch(doc, [{ op: 'test', path: '/a/c', value: [1, 2, 3] }])).toEqual(doc);
+    expect(() => applyJsonPatch(doc, [{ op: 'remove', path: '/nope' }])).toThrow('not found');
+    expect(() => applyJsonPatch(doc, [{ op: 'replace', path: '/a/c/5', value: 0 }])).toThrow('out of bounds');
+    expect(() => applyJsonPatch(doc, [{ op: 'add', path: 'a', value: 0 }])).toThrow('Invalid JSON pointer');
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { LogpointRegistry } from '../../src/state/LogpointRegistry.js';
+import {
+  LOGPOINT_BINDING,
+  parseLogTemplate,
+  buildLogpointCondition,
+  formatLogMessage,
+  summarizeLogpointStack,
+  type LogpointPayload,
+} from '../../src/utils/logpoint.js';
+
+describe('logpoint templates', () => {
+  it('should split text and placeholders', () => {
+    expect(parseLogTemplate('user {user.id} saved {count} items')).toEqual([
+      { text: 'user ' },
+      { expression: 'user.id' },
+      { text: ' saved ' },
+      { expression: 'count' },
+      { text: ' items' },
+    ]);
+  });
+
+  it('should treat doubled braces as literals', () => {
+    expect(parseLogTemplate('{{literal}} {x}')).toEqual([
+      { text: '{literal} ' },
+      { expression: 'x' },
+    ]);
+  });
+
+  it('should balance braces nested inside an expression', () => {
+    expect(parseLogTemplate('{JSON.stringify({ a: 1 })}')).toEqual([
+      { expression: 'JSON.stringify({ a: 1 })' },
+    ]);
+  });
+
+  it('should reject unclosed and empty placeholders', () => {
+    expect(() => parseLogTemplate('value {x')).toThrow(/Unclosed/);
+    expect(() => parseLogTemplate('value { }')).toThrow(/Empty/);
+  });
+
+  it('should interleave values into the message', () => {
+    const parts = parseLogTemplate('a={a} b={b}');
+    expect(formatLogMessage(parts, ['1', '"two"'])).toBe('a=1 b="two"');
+  });
+});
+
+describe('logpoint condition', () => {
+  const globals = globalThis as Record<string, unknown>;
+  let calls: LogpointPayload[];
+
+  beforeEach(() => {
+    calls = [];
+    globals[LOGPOINT_BINDING] = (payload: string) => calls.push(JSON.parse(payload));
+  });
+
+  afterEach(() => {
+    delete globals[LOGPOINT_BINDING];
+  });
+
+  const run = (condition: string, scope: Record<string, unknown>): unknown =>
+    new Function(...Object.keys(scope), `return ${condition};`)(...Object.values(scope));
+
+  it('should report serialized values and never pause', () => {
+    const condition = buildLogpointCondition('lp-1', parseLogTemplate('{name} {obj} {fn} {missing.x}'));
+    const result = run(condition, { name: 'alice', obj: { id: 2 }, fn: function handler() {} });
+    expect(result).toBe(false);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].token).toBe('lp-1');
+    expect(calls[0].values.slice(0, 3)).toEqual(['alice', '{"id":2}', 'ƒ handler']);
+    expect(calls[0].values[3]).toMatch(/^<error: /);
+    expect(calls[0].stack).toContain('Error');
+  });
+
+  it('should only report when the guard condition holds', () => {
+    const condition = buildLogpointCondition('lp-2', parseLogTemplate('{n}'), 'n > 1');
+    expect(run(condition, { n: 1 })).toBe(false);
+    expect(run(condition, { n: 2 })).toBe(false);
+    expect(calls.map((c) => c.values)).toEqual([['2']]);
+  });
+
+  it('should not throw when the binding is missing', () => {
+    delete globals[LOGPOINT_BINDING];
+    const condition = buildLogpointCondition('lp-3', parseLogTemplate('{n}'));
+    expect(run(condition, { n: 1 })).toBe(false);
+  });
+});
+
+describe('summarizeLogpointStack', () => {
+  it('should drop the condition frames and limit depth', () => {
+    const stack = [
+      'Error',
+      '    at eval (eval at save (https://example.com/app.js:10:3), <anonymous>:1:200)',
+      '    at save (https://example.com/app.js:10:3)',
+      '    at onClick (https://example.com/app.js:20:5)',
+      '    at HTMLButtonElement.dispatch (https://example.com/lib.js:1:1)',
+    ].join('\n');
+    expect(summarizeLogpointStack(stack, 2)).toEqual([
+      'save (https://example.com/app.js:10:3)',
+      'onClick (https://example.com/app.js:20:5)',
+    ]);
+    expect(summarizeLogpointStack(undefined)).toEqual([]);
+  });
+});
+
+describe('LogpointRegistry', () => {
+  let registry: LogpointRegistry;
+
+  beforeEach(() => {
+    registry = new LogpointRegistry();
+  });
+
+  const addLogpoint = (breakpointId: string, template = 'x={x}') =>
+    registry.add({
+      breakpointId,
+      token: registry.nextToken(),
+      template,
+      parts: parseLogTemplate(template),
+      location: { url: 'https://example.com/app.js', lineNumber: 10 },
+    });
+
+  it('should record hits by token', () => {
+    const lp = addLogpoint('bp1');
+    const hit = registry.recordHit(lp.token, ['42'], undefined, 'TARGET-A', 1000);
+    expect(hit).toEqual({ timestamp: 1000, targetId: 'TARGET-A', message: 'x=42', values: ['42'], callFrames: [] });
+    expect(registry.get('bp1')?.hitCount).toBe(1);
+  });
+
+  it('should ignore unknown tokens', () => {
+    addLogpoint('bp1');
+    expect(registry.recordHit('lp-99', ['1'], undefined)).toBeUndefined();
+  });
+
+  it('should bound the hit log and count evictions', () => {
+    const lp = addLogpoint('bp1');
+    registry.setMaxHitsPerLogpoint(2);
+    for (let i = 0; i < 5; i++) registry.recordHit(lp.token, [String(i)], undefined);
+    const stored = registry.get('bp1')!;
+    expect(stored.hitCount).toBe(5);
+    expect(stored.hitsDropped).toBe(3);
+    expect(stored.hits.map((h) => h.message)).toEqual(['x=3', 'x=4']);
+  });
+
+  it('should clear hits for one or all logpoints', () => {
+    const a = addLogpoint('bp1');
+    const b = addLogpoint('bp2');
+    registry.recordHit(a.token, ['1'], undefined);
+    registry.recordHit(b.token, ['2'], undefined);
+    registry.clearHits('bp1');
+    expect(registry.get('bp1')?.hits).toEqual([]);
+    expect(registry.get('bp2')?.hits).toHaveLength(1);
+    registry.clearHits();
+    expect(registry.get('bp2')?.hitCount).toBe(0);
+  });
+
+  it('should forget removed logpoints', () => {
+    const lp = addLogpoint('bp1');
+    expect(registry.remove('bp1')).toBe(true);
+    expect(registry.recordHit(lp.token, ['1'], undefined)).toBeUndefined();
+    expect(registry.getCount()).toBe(0);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ObjectHandleRegistry } from '../../src/state/ObjectHandleRegistry.js';
+
+describe('ObjectHandleRegistry', () => {
+  let registry: ObjectHandleRegistry;
+
+  beforeEach(() => {
+    registry = new ObjectHandleRegistry();
+  });
+
+  it('should hand out fresh group names per call', () => {
+    const first = registry.newGroupName('evaluate');
+    const second = registry.newGroupName('evaluate');
+    expect(first).toMatch(/^evaluate-\d+$/);
+    expect(second).not.toBe(first);
+    // A group only exists once it holds a handle.
+    expect(registry.getGroups()).toEqual([]);
+  });
+
+  it('should track handles by group and target', () => {
+    registry.track('obj-1', { group: 'evaluate-1', origin: 'evaluate', targetId: 'PAGE', description: 'Object' });
+    registry.track('obj-2', { group: 'evaluate-1', origin: 'get_properties', targetId: 'PAGE' });
+    registry.track('obj-1', { group: 'evaluate-2', origin: 'evaluate', targetId: 'WORKER' });
+
+    expect(registry.getHandles({ targetId: 'PAGE' }).map((h) => h.objectId)).toEqual(['obj-1', 'obj-2']);
+    expect(registry.getHandle('obj-1', 'WORKER')?.group).toBe('evaluate-2');
+    expect(registry.getGroups().map((g) => [g.name, g.handleCount])).toEqual([['evaluate-1', 2], ['evaluate-2', 1]]);
+
+    expect(registry.removeGroup('evaluate-1', 'PAGE')).toBe(2);
+    expect(registry.getHandles().map((h) => h.targetId)).toEqual(['WORKER']);
+  });
+
+  it('should reuse one pause-scoped group per target', () => {
+    const group = registry.pauseGroup('PAGE');
+    expect(registry.pauseGroup('PAGE')).toBe(group);
+    expect(registry.pauseGroup('WORKER')).not.toBe(group);
+
+    registry.track('obj-1', { group, origin: 'evaluate_on_frame', targetId: 'PAGE' });
+    expect(registry.getPauseGroups('PAGE')).toEqual([group]);
+    expect(registry.getGroups().find((g) => g.name === group)?.pauseScoped).toBe(true);
+
+    registry.removeGroup(group, 'PAGE');
+    expect(registry.getPauseGroups('PAGE')).toEqual([]);
+    expect(registry.pauseGroup('PAGE')).not.toBe(group);
+  });
+
+  it('should drop handles of a detached target', () => {
+    registry.track('obj-1', { group: 'g', origin: 'evaluate', targetId: 'WORKER' });
+    registry.removeTarget('WORKER');
+    expect(registry.getHandles()).toEqual([]);
+    expect(registry.getGroups()).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { serializeRemoteObject, toJsonValue, toTextTree, type PropertySource } from '../../src/utils/object-serializer.js';
+import type { RemoteObject, PropertyDescriptor, InternalPropertyDescriptor } from '../../src/utils/types.js';
+
+interface FakeObject {
+  identity: number;
+  properties: PropertyDescriptor[];
+  internalProperties?: InternalPropertyDescriptor[];
+  getters?: Record<string, RemoteObject>;
+}
+
+// A PropertySource over a fixed object graph keyed by objectId. The
+// identity WeakMap is the object 'ids'; released groups are recorded.
+function fakeSource(objects: Record<string, FakeObject>, released: string[] = []): PropertySource {
+  return {
+    getProperties: async (objectId, options) => {
+      const obj = objects[objectId];
+      if (options?.accessorPropertiesOnly) {
+        return { result: Object.keys(obj.getters ?? {}).map((name) => prop(name, undefined, { type: 'function', objectId: 'fn' })) };
+      }
+      return { result: obj.properties, internalProperties: obj.internalProperties };
+    },
+    callFunctionOn: async (objectId, declaration, args = [], options = {}) => {
+      if (declaration.includes('new WeakMap()')) return { type: 'object', className: 'WeakMap', objectId: `ids@${options.objectGroup}` };
+      if (declaration.includes('ids.get(this)') && args[0].objectId?.startsWith('ids@')) {
+        return { type: 'number', value: objects[objectId].identity };
+      }
+      if (declaration.includes('this[name]')) return objects[objectId].getters![args[0].value as string];
+      throw new Error(`unexpected call on ${objectId}`);
+    },
+    releaseObjectGroup: async (objectGroup) => {
+      released.push(objectGroup);
+    },
+  };
+}
+
+function prop(name: string, value?: RemoteObject, get?: RemoteObject): PropertyDescriptor {
+  return { name, value, get, configurable: true, enumerable: true, isOwn: !get };
+}
+
+const num = (value: number): RemoteObject => ({ type: 'number', value, description: String(value) });
+const str = (value: string): RemoteObject => ({ type: 'string', value });
+const obj = (objectId: string, className = 'Object', description = className, subtype?: RemoteObject['subtype']): RemoteObject =>
+  ({ type: 'object', subtype, className, description, objectId });
+
+describe('serializeRemoteObject', () => {
+  it('should expand nested objects to the given depth', async () => {
+    const source = fakeSource({
+      root: { identity: 1, properties: [prop('id', num(7)), prop('user', obj('user'))] },
+      user: { identity: 2, properties: [prop('name', str('ada')), prop('address', obj('address'))] },
+      address: { identity: 3, properties: [prop('city', str('London'))] },
+    });
+
+    const node = await serializeRemoteObject(obj('root'), source, { depth: 2 });
+    expect(toJsonValue(node)).toEqual({ id: 7, user: { name: 'ada', address: 'Object' } });
+    expect(node.properties?.[1].value.properties?.[1].value.objectId).toBe('address');
+  });
+
+  it('should mark cycles', async () => {
+    const source = fakeSource({
+      a: { identity: 1, properties: [prop('self', obj('a2'))] },
+      a2: { identity: 1, properties: [] },
+    });
+
+    expect(toJsonValue(await serializeRemoteObject(obj('a'), source))).toEqual({ self: '[Circular]' });
+  });
+
+  it('should keep the identity map in its own object group and release it', async () => {
+    const released: string[] = [];
+    const calls: string[] = [];
+    const source = fakeSource({ a: { identity: 1, properties: [prop('self', obj('a2'))] }, a2: { identity: 1, properties: [] } }, released);
+    const callFunctionOn = source.callFunctionOn;
+    source.callFunctionOn = (objectId, declaration, args, options) => {
+      calls.push(declaration);
+      return callFunctionOn(objectId, declaration, args, options);
+    };
+
+    await serializeRemoteObject(obj('a'), source);
+    expect(released).toHaveLength(1);
+    expect(released[0]).toMatch(/^cdp-debug-identities-/);
+    expect(calls.some((c) => c.includes('globalThis'))).toBe(false);
+  });
+
+  it('should serialize without cycle detection when the identity map is unavailable', async () => {
+    const released: string[] = [];
+    const source = fakeSource({ a: { identity: 1, properties: [prop('n', num(1))] } }, released);
+    const callFunctionOn = source.callFunctionOn;
+    source.callFunctionOn = (objectId, declaration, args, options) =>
+      declaration.includes('new WeakMap()') ? Promise.reject(new Error('context gone')) : callFunctionOn(objectId, declaration, args, options);
+
+    expect(toJsonValue(await serializeRemoteObject(obj('a'), source))).toEqual({ n: 1 });
+    expect(released).toEqual([]);
+  });
+
+  it('should render Map entries and Promise state', async () => {
+    const source = fakeSource({
+      map: {
+        identity: 1,
+        properties: [],
+        internalProperties: [{ name: '[[Entries]]', value: obj('entries', 'Array', 'Array(1)', 'array') }],
+      },
+      entries: { identity: 2, properties: [prop('0', obj('entry0'))] },
+      entry0: { identity: 3, properties: [prop('key', str('k')), prop('value', num(1))] },
+      promise: {
+        identity: 4,
+        properties: [],
+        internalProperties: [
+          { name: '[[PromiseState]]', value: str('fulfilled') },
+          { name: '[[PromiseResult]]', value: num(42) },
+        ],
+      },
+    });
+
+    expect(toJsonValue(await serializeRemoteObject(obj('map', 'Map', 'Map(1)', 'map'), source))).toEqual({
+      '@type': 'Map(1)',
+      entries: [['k', 1]],
+    });
+    expect(toJsonValue(await serializeRemoteObject(obj('promise', 'Promise', 'Promise', 'promise'), source))).toEqual({
+      '@type': 'Promise',
+      '[[PromiseState]]': 'fulfilled',
+      '[[PromiseResult]]': 42,
+    });
+  });
+
+  it('should cap breadth and show getters', async () => {
+    const source = fakeSource({
+      big: { identity: 1, properties: [prop('a', num(1)), prop('b', num(2)), prop('c', num(3))] },
+      user: { identity: 2, properties: [prop('first', str('Ada'))], getters: { fullName: str('Ada Lovelace') } },
+    });
+
+    expect(toJsonValue(await serializeRemoteObject(obj('big'), source, { maxProperties: 2 }))).toEqual({ a: 1, b: 2, '…': '… 1 more' });
+    expect(toJsonValue(await serializeRemoteObject(obj('user', 'User'), source, { invokeGetters: true }))).toEqual({
+      '@type': 'User',
+      first: 'Ada',
+      fullName: 'Ada Lovelace',
+    });
+  });
+
+  it('should include the stack of errors', async () => {
+    const description = 'TypeError: boom\n    at f (app.js:1:1)';
+    const source = fakeSource({ err: { identity: 1, properties: [prop('message', str('boom'))] } });
+
+    const node = await serializeRemoteObject(obj('err', 'TypeError', description, 'error'), source);
+    expect(toJsonValue(node)).toEqual({ '@type': 'TypeError: boom', message: 'boom', stack: description });
+  });
+
+  it('should render a text tree', async () => {
+    const source = fakeSource({
+      list: { identity: 1, properties: [prop('0', num(1)), prop('1', obj('item')), prop('length', num(2))] },
+      item: { identity: 2, properties: [prop('x', num(3))] },
+    });
+
+    const node = await serializeRemoteObject(obj('list', 'Array', 'Array(2)', 'array'), source);
+    expect(toJsonValue(node)).toEqual([1, { x: 3 }]);
+    expect(toTextTree(node, 'list')).toBe(['list: Array(2)', '  0: 1', '  1: Object', '    x: 3'].join('\n'));
+  });
+});
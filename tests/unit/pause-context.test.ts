@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { describePauseData, formatAsyncStackTrace, formatRemoteValue } from '../../src/utils/pause-context.js';
+import type { RemoteObject } from '../../src/utils/types.js';
+
+describe('pause context formatting', () => {
+  describe('formatRemoteValue', () => {
+    it('should render primitives', () => {
+      expect(formatRemoteValue({ type: 'string', value: 'a"b' })).toBe('"a\\"b"');
+      expect(formatRemoteValue({ type: 'number', value: 3, description: '3' })).toBe('3');
+      expect(formatRemoteValue({ type: 'number', unserializableValue: 'NaN' })).toBe('NaN');
+      expect(formatRemoteValue({ type: 'undefined' })).toBe('undefined');
+      expect(formatRemoteValue({ type: 'object', subtype: 'null', value: null })).toBe('null');
+    });
+
+    it('should render functions by signature', () => {
+      expect(formatRemoteValue({ type: 'function', description: 'function save(order) {\n  return 1;\n}' })).toBe('ƒ save(order) {');
+    });
+
+    it('should render object and array previews', () => {
+      const obj: RemoteObject = {
+        type: 'object',
+        objectId: '1',
+        preview: {
+          type: 'object',
+          description: 'Object',
+          overflow: true,
+          properties: [
+            { name: 'id', type: 'number', value: '7' },
+            { name: 'name', type: 'string', value: 'x' },
+          ],
+        },
+      };
+      expect(formatRemoteValue(obj)).toBe('{id: 7, name: "x", …}');
+
+      const arr: RemoteObject = {
+        type: 'object',
+        subtype: 'array',
+        objectId: '2',
+        preview: {
+          type: 'object',
+          subtype: 'array',
+          description: 'Array(2)',
+          overflow: false,
+          properties: [
+            { name: '0', type: 'number', value: '1' },
+            { name: '1', type: 'number', value: '2' },
+          ],
+        },
+      };
+      expect(formatRemoteValue(arr)).toBe('Array(2) [1, 2]');
+    });
+
+    it('should render map entries', () => {
+      const map: RemoteObject = {
+        type: 'object',
+        subtype: 'map',
+        objectId: '3',
+        preview: {
+          type: 'object',
+          subtype: 'map',
+          description: 'Map(1)',
+          overflow: false,
+          properties: [],
+          entries: [{
+            key: { type: 'string', description: 'a', overflow: false, properties: [] },
+            value: { type: 'number', description: '1', overflow: false, properties: [] },
+          }],
+        },
+      };
+      expect(formatRemoteValue(map)).toBe('Map(1) {a => 1}');
+    });
+  });
+
+  describe('describePauseData', () => {
+    it('should decode exceptions', () => {
+      const data = {
+        type: 'object',
+        subtype: 'error',
+        className: 'TypeError',
+        description: "TypeError: Cannot read properties of undefined (reading 'x')\n    at save (app.js:3:5)\n    at main (app.js:9:1)",
+        uncaught: true,
+      };
+      expect(describePauseData('exception', data)).toEqual({
+        kind: 'exception',
+        className: 'TypeError',
+        value: "TypeError: Cannot read properties of undefined (reading 'x')",
+        stack: ['at save (app.js:3:5)', 'at main (app.js:9:1)'],
+        uncaught: true,
+      });
+    });
+
+    it('should decode XHR and event listener pauses', () => {
+      expect(describePauseData('XHR', { url: 'https://api.example.com/orders', breakpointURL: 'orders' })).toMatchObject({
+        url: 'https://api.example.com/orders',
+      });
+      expect(describePauseData('EventListener', { eventName: 'listener:click' })).toMatchObject({ eventName: 'listener:click' });
+    });
+
+    it('should pass other data through', () => {
+      expect(describePauseData('other', { foo: 1 })).toEqual({ foo: 1 });
+      expect(describePauseData('other', undefined)).toBeUndefined();
+    });
+  });
+
+  describe('formatAsyncStackTrace', () => {
+    it('should render the parent chain newest first', () => {
+      const lines = formatAsyncStackTrace({
+        description: 'setTimeout',
+        callFrames: [{ functionName: 'schedule', scriptId: '1', url: 'app.js', lineNumber: 4, columnNumber: 2 }],
+        parent: {
+          description: 'Promise.then',
+          callFrames: [{ functionName: '', scriptId: '2', url: '', lineNumber: 0, columnNumber: 0 }],
+        },
+      });
+      expect(lines).toEqual([
+        '-- setTimeout --',
+        'schedule (app.js:5:3)',
+        '-- Promise.then --',
+        '(anonymous) (script 2:1:1)',
+      ]);
+      expect(formatAsyncStackTrace(undefined)).toEqual([]);
+    });
+
+    it('should stop at maxFrames', () => {
+      const frame = { functionName: 'f', scriptId: '1', url: 'a.js', lineNumber: 0, columnNumber: 0 };
+      const lines = formatAsyncStackTrace({ description: 'x', callFrames: [frame, frame, frame] }, 2);
+      expect(lines).toHaveLength(3);
+    });
+  });
+});
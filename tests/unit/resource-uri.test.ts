@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { parseResourceUri, scriptUri, responseBodyUri } from '../../src/utils/resource-uri.js';
+
+describe('resource URIs', () => {
+  it('should parse static resources', () => {
+    expect(parseResourceUri('cdp://console')).toEqual({ kind: 'console' });
+    expect(parseResourceUri('cdp://exceptions')).toEqual({ kind: 'exceptions' });
+    expect(parseResourceUri('cdp://log')).toEqual({ kind: 'log' });
+    expect(parseResourceUri('cdp://targets')).toEqual({ kind: 'targets' });
+    expect(parseResourceUri('cdp://network')).toEqual({ kind: 'network' });
+  });
+
+  it('should round-trip script URIs', () => {
+    expect(parseResourceUri(scriptUri('42'))).toEqual({ kind: 'script', scriptId: '42', targetId: undefined });
+    expect(parseResourceUri(scriptUri('42', 'ABC'))).toEqual({ kind: 'script', scriptId: '42', targetId: 'ABC' });
+  });
+
+  it('should round-trip response body URIs', () => {
+    const uri = responseBodyUri('TARGET', 'interception-job-1.0');
+    expect(uri).toBe('cdp://network/TARGET/interception-job-1.0/body');
+    expect(parseResourceUri(uri)).toEqual({ kind: 'responseBody', targetId: 'TARGET', requestId: 'interception-job-1.0' });
+  });
+
+  it('should escape path separators in ids', () => {
+    const uri = responseBodyUri('a/b', 'c?d');
+    expect(parseResourceUri(uri)).toEqual({ kind: 'responseBody', targetId: 'a/b', requestId: 'c?d' });
+  });
+
+  it('should reject unknown URIs', () => {
+    expect(parseResourceUri('http://example.com')).toBeUndefined();
+    expect(parseResourceUri('cdp://unknown')).toBeUndefined();
+    expect(parseResourceUri('cdp://console/extra')).toBeUndefined();
+    expect(parseResourceUri('cdp://network/a/b')).toBeUndefined();
+    expect(parseResourceUri('not a uri')).toBeUndefined();
+  });
+});
@@ -111,6 +111,38 @@ describe('ScriptRegistry', () => {
     });
   });
 
+  describe('per-target scripts', () => {
+    it('should keep colliding scriptIds from different targets apart', () => {
+      registry.addScript({ ...createScript('3', 'http://example.com/app.js'), targetId: 'PAGE' });
+      registry.addScript({ ...createScript('3', 'http://example.com/worker.js'), targetId: 'WORKER' });
+
+      expect(registry.getScriptCount()).toBe(2);
+      expect(registry.getScript('3', 'PAGE')?.url).toBe('http://example.com/app.js');
+      expect(registry.getScript('3', 'WORKER')?.url).toBe('http://example.com/worker.js');
+      expect(registry.getAllScripts('WORKER')).toHaveLength(1);
+    });
+
+    it('should cache sources per target', () => {
+      registry.addScript({ ...createScript('3'), targetId: 'PAGE' });
+      registry.addScript({ ...createScript('3'), targetId: 'WORKER' });
+      registry.setSource('3', 'page()', 'PAGE');
+      registry.setSource('3', 'worker()', 'WORKER');
+
+      expect(registry.getSource('3', 'PAGE')).toBe('page()');
+      expect(registry.getSource('3', 'WORKER')).toBe('worker()');
+    });
+
+    it('should drop scripts of a removed target', () => {
+      registry.addScript({ ...createScript('1', 'http://example.com/app.js'), targetId: 'PAGE' });
+      registry.addScript({ ...createScript('2', 'http://example.com/worker.js'), targetId: 'WORKER' });
+
+      registry.removeTarget('WORKER');
+
+      expect(registry.getScriptCount()).toBe(1);
+      expect(registry.getScriptsByUrl('http://example.com/worker.js')).toHaveLength(0);
+    });
+  });
+
   describe('location finding', () => {
     it('should find script for location', () => {
       const script: ScriptInfo = {
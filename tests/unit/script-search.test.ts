@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { buildSearchRegex, searchSource, clipLine } from '../../src/utils/script-search.js';
+
+const source = ['import { api } from "./api.js";', '', 'export function submitOrder(order) {', '  return api.post("/orders", order);', '}'].join('\n');
+
+describe('searchSource', () => {
+  it('should find literal text case-insensitively with columns', () => {
+    const matches = searchSource(source, 'API.post');
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ lineNumber: 3, columnNumber: 9, before: [], after: [] });
+  });
+
+  it('should support regexes, case sensitivity and context lines', () => {
+    expect(searchSource(source, 'function \\w+Order', { isRegex: true, contextLines: 1 })).toEqual([
+      {
+        lineNumber: 2,
+        columnNumber: 7,
+        lineContent: 'export function submitOrder(order) {',
+        before: [''],
+        after: ['  return api.post("/orders", order);'],
+      },
+    ]);
+    expect(searchSource(source, 'API', { caseSensitive: true })).toEqual([]);
+  });
+
+  it('should report one match per line and honor maxMatches', () => {
+    expect(searchSource(source, 'order').map((m) => m.lineNumber)).toEqual([2, 3]);
+    expect(searchSource(source, 'order', { maxMatches: 1 })).toHaveLength(1);
+  });
+});
+
+describe('buildSearchRegex', () => {
+  it('should escape literal queries', () => {
+    expect(buildSearchRegex('a.b(').test('a.b(c)')).toBe(true);
+    expect(buildSearchRegex('a.b').test('axb')).toBe(false);
+  });
+});
+
+describe('clipLine', () => {
+  it('should cut long lines around the column', () => {
+    const line = 'x'.repeat(1000) + 'needle' + 'y'.repeat(1000);
+    const clipped = clipLine(line, 1000);
+    expect(clipped).toContain('needle');
+    expect(clipped.startsWith('…')).toBe(true);
+    expect(clipped.endsWith('…')).toBe(true);
+    expect(clipLine('short', 0)).toBe('short');
+  });
+});
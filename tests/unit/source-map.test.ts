@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SourceMap, decodeVlq, decodeDataUrl, resolveSourceMapUrl } from '../../src/utils/source-map.js';
+import { SourceMapRegistry } from '../../src/state/SourceMapRegistry.js';
+
+// bundle.js line 0 <- src/a.ts 0:0
+// bundle.js line 1 <- src/a.ts 1:0, col 4 <- src/a.ts 1:4 (name "foo")
+// bundle.js line 2 <- src/b.ts 3:2
+const rawMap = {
+  version: 3,
+  file: 'bundle.js',
+  sourceRoot: '',
+  sources: ['src/a.ts', 'src/b.ts'],
+  sourcesContent: ['const a = 1;\nfoo(a);\n', null],
+  names: ['foo'],
+  mappings: 'AAAA;AACA,IAAIA;ACEF',
+};
+
+describe('SourceMap', () => {
+  describe('VLQ decoding', () => {
+    it('should decode single and multi-digit values', () => {
+      expect(decodeVlq('A')).toEqual([0]);
+      expect(decodeVlq('C')).toEqual([1]);
+      expect(decodeVlq('D')).toEqual([-1]);
+      expect(decodeVlq('gB')).toEqual([16]);
+      expect(decodeVlq('AACA')).toEqual([0, 0, 1, 0]);
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => decodeVlq('A!')).toThrow();
+    });
+  });
+
+  describe('parsing', () => {
+    it('should resolve sources against the map URL', () => {
+      const map = SourceMap.parse(JSON.stringify(rawMap), 'http://example.com/dist/bundle.js.map');
+      expect(map.sources).toEqual(['http://example.com/dist/src/a.ts', 'http://example.com/dist/src/b.ts']);
+    });
+
+    it('should strip the XSSI prefix', () => {
+      const map = SourceMap.parse(")]}'\n" + JSON.stringify(rawMap));
+      expect(map.sources).toEqual(['src/a.ts', 'src/b.ts']);
+    });
+
+    it('should reject unsupported versions', () => {
+      expect(() => SourceMap.parse({ ...rawMap, version: 2 })).toThrow('Unsupported source map version');
+    });
+
+    it('should expose embedded source content', () => {
+      const map = SourceMap.parse(rawMap);
+      expect(map.getSourceContent('src/a.ts')).toContain('foo(a)');
+      expect(map.hasSourceContent('src/b.ts')).toBe(false);
+    });
+  });
+
+  describe('position lookup', () => {
+    let map: SourceMap;
+
+    beforeEach(() => {
+      map = SourceMap.parse(rawMap);
+    });
+
+    it('should map generated positions to original ones', () => {
+      expect(map.originalPositionFor(1, 6)).toEqual({ source: 'src/a.ts', lineNumber: 1, columnNumber: 4, name: 'foo' });
+      expect(map.originalPositionFor(1, 2)).toEqual({ source: 'src/a.ts', lineNumber: 1, columnNumber: 0, name: undefined });
+      expect(map.originalPositionFor(2, 0)).toEqual({ source: 'src/b.ts', lineNumber: 3, columnNumber: 2, name: undefined });
+    });
+
+    it('should return undefined for unmapped lines', () => {
+      expect(map.originalPositionFor(10, 0)).toBeUndefined();
+    });
+
+    it('should map original positions to generated ones', () => {
+      expect(map.generatedPositionFor('src/a.ts', 1)).toEqual({ lineNumber: 1, columnNumber: 0 });
+      expect(map.generatedPositionFor('src/a.ts', 1, 2)).toEqual({ lineNumber: 1, columnNumber: 4 });
+    });
+
+    it('should fall forward to the next mapped line', () => {
+      expect(map.generatedPositionFor('src/b.ts', 0)).toEqual({ lineNumber: 2, columnNumber: 0 });
+      expect(map.generatedPositionFor('src/b.ts', 4)).toBeUndefined();
+    });
+
+    it('should apply section offsets in indexed maps', () => {
+      const indexed = SourceMap.parse({
+        version: 3,
+        sections: [{ offset: { line: 5, column: 10 }, map: rawMap }],
+      });
+      expect(indexed.originalPositionFor(5, 10)?.source).toBe('src/a.ts');
+      expect(indexed.originalPositionFor(6, 4)?.name).toBe('foo');
+    });
+  });
+
+  describe('ignore list', () => {
+    it('should read x_google_ignoreList', () => {
+      const map = SourceMap.parse({ ...rawMap, x_google_ignoreList: [1] }, 'https://example.com/bundle.js.map');
+      expect(map.hasIgnoredSources()).toBe(true);
+      expect(map.isIgnored('https://example.com/src/b.ts')).toBe(true);
+      expect(map.isIgnored('https://example.com/src/a.ts')).toBe(false);
+    });
+
+    it('should prefer the standard ignoreList field', () => {
+      const map = SourceMap.parse({ ...rawMap, ignoreList: [0], x_google_ignoreList: [1] }, 'https://example.com/bundle.js.map');
+      expect(map.isIgnored('https://example.com/src/a.ts')).toBe(true);
+      expect(map.isIgnored('https://example.com/src/b.ts')).toBe(false);
+    });
+
+    it('should compute generated ranges of ignored sources', () => {
+      const leading = SourceMap.parse({ ...rawMap, ignoreList: [0] });
+      expect(leading.ignoredGeneratedRanges()).toEqual([
+        { lineNumber: 0, columnNumber: 0 },
+        { lineNumber: 2, columnNumber: 0 },
+      ]);
+      const trailing = SourceMap.parse({ ...rawMap, ignoreList: [1] });
+      expect(trailing.ignoredGeneratedRanges()).toEqual([
+        { lineNumber: 2, columnNumber: 0 },
+        { lineNumber: 3, columnNumber: 0 },
+      ]);
+      expect(SourceMap.parse(rawMap).ignoredGeneratedRanges()).toEqual([]);
+    });
+  });
+
+  describe('URL helpers', () => {
+    it('should decode base64 and percent-encoded data URLs', () => {
+      const json = JSON.stringify(rawMap);
+      expect(decodeDataUrl(`data:application/json;base64,${Buffer.from(json).toString('base64')}`)).toBe(json);
+      expect(decodeDataUrl(`data:application/json,${encodeURIComponent(json)}`)).toBe(json);
+    });
+
+    it('should resolve relative sourceMappingURLs against the script', () => {
+      expect(resolveSourceMapUrl('bundle.js.map', 'http://example.com/dist/bundle.js')).toBe('http://example.com/dist/bundle.js.map');
+      expect(resolveSourceMapUrl('data:application/json,{}', 'http://example.com/a.js')).toBe('data:application/json,{}');
+    });
+  });
+});
+
+describe('SourceMapRegistry', () => {
+  let registry: SourceMapRegistry;
+
+  beforeEach(() => {
+    registry = new SourceMapRegistry();
+    registry.setSourceMap('10', SourceMap.parse(rawMap, 'webpack://app/bundle.js.map'), 'PAGE');
+  });
+
+  it('should find scripts by exact source or path suffix', () => {
+    expect(registry.findScriptsForSource('webpack://app/src/a.ts')).toHaveLength(1);
+    expect(registry.findScriptsForSource('src/a.ts')[0].scriptId).toBe('10');
+    expect(registry.findScriptsForSource('./src/b.ts')[0].source).toBe('webpack://app/src/b.ts');
+    expect(registry.findScriptsForSource('c.ts')).toHaveLength(0);
+  });
+
+  it('should map locations through the script map', () => {
+    expect(registry.toOriginal('10', 2, 0, 'PAGE')?.lineNumber).toBe(3);
+    expect(registry.toOriginal('10', 2, 0)?.source).toBe('webpack://app/src/b.ts');
+  });
+
+  it('should list all original sources', () => {
+    expect(registry.getAllSources().map((s) => s.hasContent)).toEqual([true, false]);
+    expect(registry.getSourceContent('src/a.ts')).toContain('const a');
+  });
+
+  it('should remember load failures', () => {
+    registry.setError('11', 'HTTP 404', 'PAGE');
+    expect(registry.isResolved('11', 'PAGE')).toBe(true);
+    expect(registry.getError('11', 'PAGE')).toBe('HTTP 404');
+    expect(registry.getSourceMap('11', 'PAGE')).toBeUndefined();
+  });
+
+  it('should drop maps of a removed target', () => {
+    registry.removeTarget('PAGE');
+    expect(registry.getCount()).toBe(0);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { applyLineRangePatch, applyUnifiedDiff } from '../../src/utils/source-patch.js';
+
+const source = ['function add(a, b) {', '  return a + b;', '}', '', 'function sub(a, b) {', '  return a - b;', '}'].join('\n');
+
+describe('applyLineRangePatch', () => {
+  it('should replace, insert and delete lines', () => {
+    expect(applyLineRangePatch(source, { startLine: 1, endLine: 2, text: '  return b + a;' }).split('\n')[1]).toBe('  return b + a;');
+    expect(applyLineRangePatch(source, { startLine: 1, endLine: 1, text: '  debugger;\n' }).split('\n').slice(0, 3)).toEqual([
+      'function add(a, b) {',
+      '  debugger;',
+      '  return a + b;',
+    ]);
+    expect(applyLineRangePatch(source, { startLine: 3, endLine: 7, text: '' }).split('\n')).toHaveLength(3);
+  });
+
+  it('should reject ranges outside the script', () => {
+    expect(() => applyLineRangePatch(source, { startLine: 5, endLine: 9, text: '' })).toThrow('outside the script');
+    expect(() => applyLineRangePatch(source, { startLine: 3, endLine: 2, text: '' })).toThrow();
+  });
+});
+
+describe('applyUnifiedDiff', () => {
+  it('should apply multiple hunks', () => {
+    const diff = [
+      '--- a/math.js',
+      '+++ b/math.js',
+      '@@ -1,3 +1,4 @@',
+      ' function add(a, b) {',
+      '+  console.log(a, b);',
+      '   return a + b;',
+      ' }',
+      '@@ -5,3 +6,3 @@',
+      ' function sub(a, b) {',
+      '-  return a - b;',
+      '+  return b - a;',
+      ' }',
+    ].join('\n');
+
+    expect(applyUnifiedDiff(source, diff).split('\n')).toEqual([
+      'function add(a, b) {',
+      '  console.log(a, b);',
+      '  return a + b;',
+      '}',
+      '',
+      'function sub(a, b) {',
+      '  return b - a;',
+      '}',
+    ]);
+  });
+
+  it('should find hunks whose line numbers drifted', () => {
+    const diff = ['@@ -2,1 +2,1 @@', '-  return a - b;', '+  return 0;'].join('\n');
+    expect(applyUnifiedDiff(source, diff).split('\n')[5]).toBe('  return 0;');
+  });
+
+  it('should treat empty lines as empty context', () => {
+    const diff = ['@@ -3,3 +3,3 @@', ' }', '', '-function sub(a, b) {', '+function minus(a, b) {'].join('\n');
+    expect(applyUnifiedDiff(source, diff).split('\n')[4]).toBe('function minus(a, b) {');
+  });
+
+  it('should insert zero-context hunks after the named line', () => {
+    expect(applyUnifiedDiff('a\nb\nc', '@@ -2,0 +3 @@\n+X')).toBe('a\nb\nX\nc');
+    expect(applyUnifiedDiff('a\nb\nc', '@@ -0,0 +1 @@\n+X')).toBe('X\na\nb\nc');
+    expect(applyUnifiedDiff('a\nb\nc', '@@ -1,0 +2 @@\n+X\n@@ -3,0 +5 @@\n+Y')).toBe('a\nX\nb\nc\nY');
+  });
+
+  it('should reject diffs that do not match', () => {
+    expect(() => applyUnifiedDiff(source, '@@ -1,1 +1,1 @@\n-function mul(a, b) {\n+x')).toThrow('does not match');
+    expect(() => applyUnifiedDiff(source, 'not a diff')).toThrow('No hunks');
+  });
+});
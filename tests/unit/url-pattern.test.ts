@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { urlPatternSource, urlPatternToRegex } from '../../src/utils/url-pattern.js';
+
+describe('url patterns', () => {
+  it('should anchor globs to the whole URL', () => {
+    const regex = urlPatternToRegex('*://cdn.example.com/*.js');
+    expect(regex.test('https://cdn.example.com/lib/a.js')).toBe(true);
+    expect(regex.test('https://cdn.example.com/lib/a.json')).toBe(false);
+    expect(urlPatternToRegex('app.js?').test('appXjsZ')).toBe(false);
+    expect(urlPatternToRegex('app.js?').test('app.jsx')).toBe(true);
+  });
+
+  it('should pass /regex/ through unanchored', () => {
+    expect(urlPatternSource('/vendor\\/.*\\.js/')).toBe('vendor\\/.*\\.js');
+    expect(urlPatternToRegex('/node_modules/').test('http://x/node_modules/a.js')).toBe(true);
+  });
+
+  it('should treat a lone slash as a glob and reject invalid regexes', () => {
+    expect(urlPatternToRegex('/').test('/')).toBe(true);
+    expect(urlPatternToRegex('/').test('/a')).toBe(false);
+    expect(() => urlPatternSource('/(/')).toThrow();
+  });
+});
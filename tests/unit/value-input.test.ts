@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { parseJsonLiteral, argumentPreview } from '../../src/utils/value-input.js';
+
+describe('value input', () => {
+  it('should parse JSON literals', () => {
+    expect(parseJsonLiteral('42')).toEqual({ value: 42 });
+    expect(parseJsonLiteral(' "text" ')).toEqual({ value: 'text' });
+    expect(parseJsonLiteral('{"a":[1,null]}')).toEqual({ value: { a: [1, null] } });
+    expect(parseJsonLiteral('null')).toEqual({ value: null });
+  });
+
+  it('should accept literals JSON cannot express', () => {
+    expect(parseJsonLiteral('undefined')).toEqual({});
+    expect(parseJsonLiteral('NaN')).toEqual({ unserializableValue: 'NaN' });
+    expect(parseJsonLiteral('-Infinity')).toEqual({ unserializableValue: '-Infinity' });
+    expect(parseJsonLiteral('-0')).toEqual({ unserializableValue: '-0' });
+    expect(parseJsonLiteral('123n')).toEqual({ unserializableValue: '123n' });
+  });
+
+  it('should reject non-JSON input', () => {
+    expect(() => parseJsonLiteral('items.length')).toThrow(/Use expression/);
+    expect(() => parseJsonLiteral("'single'")).toThrow(/Not a JSON literal/);
+  });
+
+  it('should describe arguments like RemoteObjects', () => {
+    expect(argumentPreview({ value: 'x' })).toEqual({ type: 'string', value: 'x', description: 'x' });
+    expect(argumentPreview({})).toEqual({ type: 'undefined' });
+    expect(argumentPreview({ value: null })).toMatchObject({ subtype: 'null' });
+    expect(argumentPreview({ value: [1] })).toMatchObject({ subtype: 'array', description: '[1]' });
+    expect(argumentPreview({ unserializableValue: '5n' })).toMatchObject({ type: 'bigint' });
+  });
+});
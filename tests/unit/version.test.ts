@@ -0,0 +1,11 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { SERVER_NAME, SERVER_VERSION } from '../../src/version.js';
+
+describe('version', () => {
+  it('should match package.json', () => {
+    const pkg = JSON.parse(readFileSync(new URL('../../package.json', import.meta.url), 'utf8')) as { name: string; version: string };
+    expect(SERVER_NAME).toBe(pkg.name);
+    expect(SERVER_VERSION).toBe(pkg.version);
+  });
+});